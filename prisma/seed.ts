@@ -2,6 +2,8 @@ import "dotenv/config";
 import { Pool } from "pg";
 import { PrismaPg } from "@prisma/adapter-pg";
 import { PrismaClient } from "@prisma/client";
+import { postBonusGrant, postOpeningBalance } from "../src/casino/casino.ledger";
+import { hashPassword } from "../src/lib/passwords";
 
 const pool = new Pool({ connectionString: process.env.DATABASE_URL });
 const adapter = new PrismaPg(pool);
@@ -13,23 +15,56 @@ async function main() {
   const PROVIDER_BASE_URL =
     process.env.PROVIDER_BASE_URL || "http://localhost:3000";
 
+  const CASINO_SECRET =
+    process.env.CASINO_SECRET || "casino_secret_key_change_in_production";
+  const PROVIDER_SECRET =
+    process.env.PROVIDER_SECRET || "provider_secret_key_change_in_production";
+  const DEMO_PLAYER_PASSWORD =
+    process.env.DEMO_PLAYER_PASSWORD || "player_password_change_in_production";
+  // Second brand's integration with the same provider (see "Brands" in README)
+  const LUCKY_CASINO_SECRET =
+    process.env.LUCKY_CASINO_SECRET || "lucky_casino_secret_key_change_in_production";
+  const LUCKY_PROVIDER_SECRET =
+    process.env.LUCKY_PROVIDER_SECRET || "lucky_provider_secret_key_change_in_production";
+
   console.log("Starting database seed...");
 
   // ── Clear existing data and reset ID sequences ──────────────────
 
   await prisma.$queryRawUnsafe(`
     TRUNCATE TABLE
+      casino_report_players,
+      casino_report_days,
+      casino_report_state,
+      provider_callback_outbox,
+      provider_free_spin_campaigns,
+      provider_jackpot_wins,
+      provider_jackpot_pools,
       provider_bets,
       provider_game_rounds,
+      provider_game_sessions,
+      provider_casino_keys,
       provider_casino_users,
       provider_casinos,
       provider_games,
+      casino_ledger_entries,
+      casino_jackpot_wins,
+      casino_reconciliation_discrepancies,
+      casino_bonus_grants,
+      casino_free_spin_campaigns,
+      casino_user_exclusions,
+      casino_user_limits,
+      casino_ledger_accounts,
       casino_transactions,
+      casino_rounds,
       casino_game_sessions,
       casino_games,
+      casino_game_provider_keys,
       casino_game_providers,
       casino_wallets,
-      casino_users
+      casino_refresh_tokens,
+      casino_users,
+      casino_brands
     RESTART IDENTITY CASCADE
   `);
 
@@ -37,17 +72,41 @@ async function main() {
 
   // ── Casino Domain ─────────────────────────────────────────────────
 
+  const brand = await prisma.casinoBrand.create({
+    data: { code: "JAQPOT", name: "Jaqpot Casino" },
+  });
+
+  const luckyBrand = await prisma.casinoBrand.create({
+    data: { code: "LUCKY", name: "Lucky Star Casino" },
+  });
+
+  console.log("Created casino brands");
+
   const user1 = await prisma.casinoUser.create({
     data: {
+      brandId: brand.id,
       username: "player1",
       email: "player1@example.com",
+      passwordHash: await hashPassword(DEMO_PLAYER_PASSWORD),
     },
   });
 
   const user2 = await prisma.casinoUser.create({
     data: {
+      brandId: brand.id,
       username: "player2",
       email: "player2@example.com",
+      passwordHash: await hashPassword(DEMO_PLAYER_PASSWORD),
+    },
+  });
+
+  // Same username as on JAQPOT: usernames are unique per brand, not globally.
+  const luckyUser = await prisma.casinoUser.create({
+    data: {
+      brandId: luckyBrand.id,
+      username: "player1",
+      email: "player1@lucky.example.com",
+      passwordHash: await hashPassword(DEMO_PLAYER_PASSWORD),
     },
   });
 
@@ -71,21 +130,84 @@ async function main() {
     },
   });
 
+  const wallet1Eur = await prisma.casinoWallet.create({
+    data: {
+      casinoUserId: user1.id,
+      currencyCode: "EUR",
+      playableBalance: BigInt(200000), // €2,000.00
+      redeemableBalance: BigInt(200000), // all cash
+    },
+  });
+
+  // Every stored balance must be backed by the ledger: the cash portion is
+  // funded from the house account, the bonus portion by a bonus grant
+  // (10x wagering) funded from the bonus account.
+  const luckyWallet = await prisma.casinoWallet.create({
+    data: {
+      casinoUserId: luckyUser.id,
+      currencyCode: "USD",
+      playableBalance: BigInt(300000), // $3,000.00
+      redeemableBalance: BigInt(300000), // all cash
+    },
+  });
+
+  for (const wallet of [wallet1, wallet2, wallet1Eur, luckyWallet]) {
+    const bonus = wallet.playableBalance - wallet.redeemableBalance;
+    await postOpeningBalance(prisma, wallet, wallet.redeemableBalance);
+    if (bonus > BigInt(0)) {
+      await postBonusGrant(prisma, wallet, bonus);
+      await prisma.casinoBonusGrant.create({
+        data: {
+          casinoUserId: wallet.casinoUserId,
+          casinoWalletId: wallet.id,
+          amount: bonus,
+          wageringRequirement: bonus * BigInt(10),
+        },
+      });
+    }
+  }
+
   console.log("Created casino wallets");
 
   const provider = await prisma.casinoGameProvider.create({
     data: {
+      brandId: brand.id,
       code: "JAQPOT",
       name: "Jaqpot Games",
       apiEndpoint: PROVIDER_BASE_URL,
-      secretKey:
-        process.env.PROVIDER_SECRET ||
-        "provider_secret_key_change_in_production",
+      secretKey: PROVIDER_SECRET,
+      isDisabled: false,
+    },
+  });
+
+  // Secret the provider signs its callbacks with (see providerCasino.casinoSecret)
+  await prisma.casinoGameProviderKey.create({
+    data: {
+      casinoGameProviderId: provider.id,
+      secret: CASINO_SECRET,
+    },
+  });
+
+  // LUCKY's own integration with the same provider, under its own code and secrets
+  const luckyProvider = await prisma.casinoGameProvider.create({
+    data: {
+      brandId: luckyBrand.id,
+      code: "LUCKY",
+      name: "Jaqpot Games",
+      apiEndpoint: PROVIDER_BASE_URL,
+      secretKey: LUCKY_PROVIDER_SECRET,
       isDisabled: false,
     },
   });
 
-  console.log("Created game provider");
+  await prisma.casinoGameProviderKey.create({
+    data: {
+      casinoGameProviderId: luckyProvider.id,
+      secret: LUCKY_CASINO_SECRET,
+    },
+  });
+
+  console.log("Created game providers");
 
   const game1 = await prisma.casinoGame.create({
     data: {
@@ -107,6 +229,26 @@ async function main() {
     },
   });
 
+  const game3 = await prisma.casinoGame.create({
+    data: {
+      casinoGameProviderId: provider.id,
+      providerGameId: "DICE_001",
+      isActive: true,
+      minBet: BigInt(100), // $1.00
+      maxBet: BigInt(50000), // $500.00
+    },
+  });
+
+  const luckyGame = await prisma.casinoGame.create({
+    data: {
+      casinoGameProviderId: luckyProvider.id,
+      providerGameId: "SLOTS_001",
+      isActive: true,
+      minBet: BigInt(500), // $5.00
+      maxBet: BigInt(50000), // $500.00
+    },
+  });
+
   console.log("Created casino games");
 
   // ── Provider Domain ───────────────────────────────────────────────
@@ -117,6 +259,10 @@ async function main() {
       isActive: true,
       minBet: BigInt(1000),
       maxBet: BigInt(100000),
+      engine: "slot",
+      rtpBps: 9600,
+      volatility: "medium",
+      jackpotCode: "MEGA",
     },
   });
 
@@ -129,48 +275,118 @@ async function main() {
     },
   });
 
+  await prisma.providerGame.create({
+    data: {
+      gameId: "DICE_001",
+      isActive: true,
+      minBet: BigInt(100),
+      maxBet: BigInt(50000),
+      engine: "dice",
+      rtpBps: 9800,
+      volatility: "medium",
+      jackpotCode: "MEGA",
+    },
+  });
+
   console.log("Created provider games");
 
-  await prisma.providerCasino.create({
+  for (const currency of ["USD", "EUR"]) {
+    await prisma.providerJackpotPool.create({
+      data: {
+        code: "MEGA",
+        name: "Mega Jackpot",
+        currency,
+        contributionBps: 100, // 1% of every stake
+        seedAmount: BigInt(1000000), // 10,000.00
+        currentAmount: BigInt(1000000),
+        hitOdds: 50000,
+      },
+    });
+  }
+
+  console.log("Created jackpot pools");
+
+  const providerCasino = await prisma.providerCasino.create({
     data: {
       casinoCode: "JAQPOT",
       name: "Jaqpot Casino",
       casinoApiEndpoint: CASINO_BASE_URL,
-      casinoSecret:
-        process.env.CASINO_SECRET ||
-        "casino_secret_key_change_in_production",
+      casinoSecret: CASINO_SECRET,
+      isActive: true,
+    },
+  });
+
+  // Secret the casino signs its calls with (see casinoGameProvider.secretKey)
+  await prisma.providerCasinoKey.create({
+    data: {
+      providerCasinoId: providerCasino.id,
+      secret: PROVIDER_SECRET,
+    },
+  });
+
+  const luckyProviderCasino = await prisma.providerCasino.create({
+    data: {
+      casinoCode: "LUCKY",
+      name: "Lucky Star Casino",
+      casinoApiEndpoint: CASINO_BASE_URL,
+      casinoSecret: LUCKY_CASINO_SECRET,
       isActive: true,
     },
   });
 
-  console.log("Created provider casino");
+  await prisma.providerCasinoKey.create({
+    data: {
+      providerCasinoId: luckyProviderCasino.id,
+      secret: LUCKY_PROVIDER_SECRET,
+    },
+  });
+
+  console.log("Created provider casinos");
 
   // ── Summary ───────────────────────────────────────────────────────
 
   console.log("\nSeed completed successfully!");
   console.log("\nTest Data Summary:");
   console.log("==================");
+  console.log(`Brand ${brand.code}:`);
   console.log(
-    `Casino Users: ${user1.username} (ID: ${user1.id}), ${user2.username} (ID: ${user2.id})`
+    `  Casino Users: ${user1.username} (ID: ${user1.id}), ${user2.username} (ID: ${user2.id})`
   );
   console.log(
-    `Casino Games: ${game1.id} (${game1.providerGameId}), ${game2.id} (${game2.providerGameId})`
+    `  Casino Games: ${game1.id} (${game1.providerGameId}), ${game2.id} (${game2.providerGameId}), ${game3.id} (${game3.providerGameId})`
   );
+  console.log(`Brand ${luckyBrand.code}:`);
+  console.log(`  Casino Users: ${luckyUser.username} (ID: ${luckyUser.id})`);
+  console.log(`  Casino Games: ${luckyGame.id} (${luckyGame.providerGameId})`);
   console.log("Initial Balances:");
   console.log(
     `  - ${user1.username}: $${Number(wallet1.playableBalance) / 100}`
   );
+  console.log(
+    `  - ${user1.username}: €${Number(wallet1Eur.playableBalance) / 100}`
+  );
   console.log(
     `  - ${user2.username}: $${Number(wallet2.playableBalance) / 100}`
   );
+  console.log(
+    `  - ${luckyUser.username} (${luckyBrand.code}): $${Number(luckyWallet.playableBalance) / 100}`
+  );
+  console.log(`Player password (all users): ${DEMO_PLAYER_PASSWORD}`);
   console.log("\nYou can now test with:");
   console.log(
-    `  curl -X POST http://localhost:${process.env.PORT || 3000}/casino/simulateRound \\`
+    `  curl -X POST http://localhost:${process.env.PORT || 3000}/casino/auth/login \\`
   );
   console.log(`    -H "Content-Type: application/json" \\`);
+  console.log(`    -H "x-brand-code: ${brand.code}" \\`);
   console.log(
-    `    -d '{"userId": ${user1.id}, "gameId": ${game1.id}}'`
+    `    -d '{"username": "${user1.username}", "password": "${DEMO_PLAYER_PASSWORD}"}'`
   );
+  console.log(
+    `  curl -X POST http://localhost:${process.env.PORT || 3000}/casino/simulateRound \\`
+  );
+  console.log(`    -H "Content-Type: application/json" \\`);
+  console.log(`    -H "Authorization: Bearer <accessToken>" \\`);
+  console.log(`    -d '{"gameId": ${game1.id}}'`);
 }
 
 main()
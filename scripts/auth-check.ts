@@ -0,0 +1,139 @@
+/**
+ * Exercises player authentication against a running server: expired and
+ * tampered access tokens, one player acting as another, and refresh token
+ * rotation and reuse.
+ * Usage: pnpm test:auth
+ *
+ * Needs the seed's two players and the server's PLAYER_TOKEN_SECRET (to mint
+ * an expired token). Env: BASE_URL, PLAYER_TOKEN_SECRET, DEMO_PLAYER_PASSWORD,
+ * BRAND_CODE (default JAQPOT), GAME_ID (default 1), CURRENCY (default USD)
+ */
+
+import "dotenv/config";
+import { signJwt } from "../src/lib/jwt";
+
+const BASE_URL = process.env.BASE_URL || "http://localhost:3000";
+const BRAND_CODE = process.env.BRAND_CODE || "JAQPOT";
+const PLAYER_TOKEN_SECRET = process.env.PLAYER_TOKEN_SECRET || "";
+const PLAYER_PASSWORD =
+  process.env.DEMO_PLAYER_PASSWORD || "player_password_change_in_production";
+const GAME_ID = Number(process.env.GAME_ID) || 1;
+const CURRENCY = process.env.CURRENCY || "USD";
+
+async function post(path: string, body: Record<string, unknown>, accessToken?: string) {
+  const res = await fetch(`${BASE_URL}/casino${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-brand-code": BRAND_CODE,
+      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+  return { status: res.status, data: await res.json() };
+}
+
+async function login(username: string) {
+  const res = await post("/auth/login", { username, password: PLAYER_PASSWORD });
+  if (res.status !== 200) {
+    throw new Error(`login failed for ${username}: ${JSON.stringify(res.data)}`);
+  }
+  return res.data as { userId: number; accessToken: string; refreshToken: string };
+}
+
+/** Swaps the token's payload for one naming another user, keeping the original signature. */
+function withSubject(token: string, userId: number) {
+  const [header, payload, signature] = token.split(".");
+  const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+  const forged = Buffer.from(JSON.stringify({ ...claims, sub: String(userId) })).toString("base64url");
+  return `${header}.${forged}.${signature}`;
+}
+
+async function main() {
+  if (!PLAYER_TOKEN_SECRET) throw new Error("PLAYER_TOKEN_SECRET is required");
+
+  const player1 = await login("player1");
+  const player2 = await login("player2");
+  const now = Math.floor(Date.now() / 1000);
+  const failures: string[] = [];
+  const expect = (name: string, res: { status: number; data: { code?: string } }, status: number, code?: string) => {
+    const ok = res.status === status && (code === undefined || res.data.code === code);
+    console.log(`${ok ? "ok  " : "FAIL"} ${name}: ${res.status} ${res.data.code ?? ""}`);
+    if (!ok) failures.push(`${name}: expected ${status} ${code ?? ""}, got ${res.status} ${JSON.stringify(res.data)}`);
+  };
+
+  // ── Credentials ──
+  expect("wrong password", await post("/auth/login", { username: "player1", password: "wrong" }), 401, "INVALID_CREDENTIALS");
+  expect("unknown user", await post("/auth/login", { username: "nobody", password: "wrong" }), 401, "INVALID_CREDENTIALS");
+  expect("no token", await post("/getLimits", {}), 401, "UNAUTHORIZED");
+
+  // ── Expired and tampered tokens ──
+  const expired = signJwt({ sub: String(player1.userId), typ: "access", iat: now - 120, exp: now - 60 }, PLAYER_TOKEN_SECRET);
+  expect("expired token", await post("/getLimits", {}, expired), 401, "TOKEN_EXPIRED");
+
+  const otherSecret = signJwt({ sub: String(player1.userId), typ: "access", iat: now, exp: now + 60 }, "not-the-secret");
+  expect("token signed with another secret", await post("/getLimits", {}, otherSecret), 401, "INVALID_TOKEN");
+
+  expect("payload swapped to another user", await post("/getLimits", {}, withSubject(player1.accessToken, player2.userId)), 401, "INVALID_TOKEN");
+
+  const [, payload] = player1.accessToken.split(".");
+  const unsigned = `${Buffer.from(JSON.stringify({ alg: "none", typ: "JWT" })).toString("base64url")}.${payload}.`;
+  expect("alg none", await post("/getLimits", {}, unsigned), 401, "INVALID_TOKEN");
+
+  expect("truncated signature", await post("/getLimits", {}, player1.accessToken.slice(0, -4)), 401, "INVALID_TOKEN");
+
+  // ── One player acting as another ──
+  const ownLimits = await post("/getLimits", {}, player1.accessToken);
+  expect("own limits", ownLimits, 200);
+  if (ownLimits.data.userId !== player1.userId) {
+    failures.push(`getLimits answered for user ${ownLimits.data.userId}, not ${player1.userId}`);
+  }
+
+  expect(
+    "launch with another userId in the body",
+    await post("/launchGame", { userId: player2.userId, gameId: GAME_ID, currency: CURRENCY }, player1.accessToken),
+    403,
+    "PLAYER_MISMATCH"
+  );
+  expect("limits with another userId in the body", await post("/getLimits", { userId: player2.userId }, player1.accessToken), 403, "PLAYER_MISMATCH");
+
+  const launch = await post("/launchGame", { gameId: GAME_ID, currency: CURRENCY }, player2.accessToken);
+  expect("player2 launches", launch, 200);
+  expect(
+    "player1 closes player2's session",
+    await post("/closeSession", { sessionToken: launch.data.sessionToken }, player1.accessToken),
+    404,
+    "SESSION_NOT_FOUND"
+  );
+  expect(
+    "player2 closes own session",
+    await post("/closeSession", { sessionToken: launch.data.sessionToken }, player2.accessToken),
+    200
+  );
+
+  // ── Refresh rotation ──
+  const refreshed = await post("/auth/refresh", { refreshToken: player1.refreshToken });
+  expect("refresh", refreshed, 200);
+  expect("refreshed access token works", await post("/getLimits", {}, refreshed.data.accessToken), 200);
+  expect("refresh token reused", await post("/auth/refresh", { refreshToken: player1.refreshToken }), 401, "INVALID_TOKEN");
+  expect(
+    "rotated token revoked after reuse",
+    await post("/auth/refresh", { refreshToken: refreshed.data.refreshToken }),
+    401,
+    "INVALID_TOKEN"
+  );
+
+  expect("logout", await post("/auth/logout", { refreshToken: player2.refreshToken }), 200);
+  expect("refresh after logout", await post("/auth/refresh", { refreshToken: player2.refreshToken }), 401, "INVALID_TOKEN");
+
+  if (failures.length > 0) {
+    console.error("FAILED:\n  - " + failures.join("\n  - "));
+    process.exit(1);
+  }
+  console.log("OK: expired, tampered and impersonating requests are all refused");
+}
+
+main().catch((err) => {
+  console.error("Error:", err);
+  process.exit(1);
+});
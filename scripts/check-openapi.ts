@@ -0,0 +1,117 @@
+/**
+ * Fails when a route mounted in src/app.ts has no OpenAPI spec entry, a
+ * spec entry points at a route that no longer exists, or an entry disagrees
+ * with its route: the auth middleware, brand resolution, or the body, params
+ * and query schemas passed to validate() must be the ones the spec names.
+ * Usage: pnpm check:openapi
+ */
+
+import app from "../src/app";
+import { authenticatePlayer } from "../src/casino/casino.auth";
+import { resolveBrand } from "../src/casino/casino.brand";
+import { verifyCasinoSignature } from "../src/casino/casino.hmac";
+import { apiRouteSpecs } from "../src/docs/docs.routes";
+import { verifyAdminKey } from "../src/lib/admin";
+import { RouteAuth, RouteSpec } from "../src/lib/openapi";
+import { RequestSchemas, validatedSchemas } from "../src/lib/validation";
+import { verifyProviderSignature } from "../src/provider/provider.hmac";
+
+// Routes that document the API rather than belong to it.
+const IGNORED_PREFIXES = ["/docs"];
+
+const AUTH_MIDDLEWARE = new Map<unknown, RouteAuth>([
+  [verifyCasinoSignature, "casinoCallback"],
+  [verifyProviderSignature, "providerCall"],
+  [verifyAdminKey, "admin"],
+  [authenticatePlayer, "player"],
+]);
+
+const SCHEMA_KEYS = ["body", "params", "query"] as const;
+
+interface Layer {
+  name: string;
+  regexp: RegExp;
+  route?: { path: string; methods: Record<string, boolean>; stack: Array<{ handle: unknown }> };
+  handle: { stack?: Layer[] };
+}
+
+interface MountedRoute {
+  key: string;
+  auth: RouteAuth;
+  brand: boolean;
+  schemas: RequestSchemas;
+}
+
+// Express 4 keeps a mounted router's prefix only as a regexp, e.g. /^\/casino\/?(?=\/|$)/i.
+function mountPath(layer: Layer): string {
+  return layer.regexp.source
+    .replace(/^\^/, "")
+    .replace(/\\\/\?\(\?=\\\/\|\$\)$/, "")
+    .replace(/\\\//g, "/");
+}
+
+function listRoutes(stack: Layer[], prefix = ""): MountedRoute[] {
+  const routes: MountedRoute[] = [];
+  for (const layer of stack) {
+    if (layer.route) {
+      const handlers = layer.route.stack.map((routeLayer) => routeLayer.handle);
+      const auth = handlers.map((handler) => AUTH_MIDDLEWARE.get(handler)).find(Boolean) ?? "none";
+      const schemas = handlers.map(validatedSchemas).find(Boolean) ?? {};
+      for (const method of Object.keys(layer.route.methods)) {
+        routes.push({
+          key: `${method.toUpperCase()} ${prefix}${layer.route.path}`,
+          auth,
+          brand: handlers.includes(resolveBrand),
+          schemas,
+        });
+      }
+    } else if (layer.name === "router" && layer.handle.stack) {
+      routes.push(...listRoutes(layer.handle.stack, prefix + mountPath(layer)));
+    }
+  }
+  return routes;
+}
+
+/** Where the spec and the mounted route disagree, one line each. */
+function mismatches(route: MountedRoute, spec: RouteSpec): string[] {
+  const found: string[] = [];
+  if (route.auth !== spec.auth) found.push(`auth is ${route.auth}, spec says ${spec.auth}`);
+  if (route.brand !== Boolean(spec.brand)) {
+    found.push(
+      route.brand ? "resolves the brand, spec lacks brand: true" : "spec says brand: true, route has no resolveBrand"
+    );
+  }
+  for (const key of SCHEMA_KEYS) {
+    if (route.schemas[key] !== spec[key]) found.push(`${key} schema differs from the one validated`);
+  }
+  return found;
+}
+
+function main() {
+  const stack = (app as unknown as { _router: { stack: Layer[] } })._router.stack;
+  const mounted = new Map(
+    listRoutes(stack)
+      .filter((route) => !IGNORED_PREFIXES.some((prefix) => route.key.split(" ")[1].startsWith(prefix)))
+      .map((route) => [route.key, route])
+  );
+  const documented = new Map(apiRouteSpecs.map((spec) => [`${spec.method.toUpperCase()} ${spec.path}`, spec]));
+
+  const undocumented = [...mounted.keys()].filter((route) => !documented.has(route));
+  const stale = [...documented.keys()].filter((route) => !mounted.has(route));
+  const disagreeing = [...documented].flatMap(([key, spec]) => {
+    const route = mounted.get(key);
+    return route ? mismatches(route, spec).map((problem) => `${key}: ${problem}`) : [];
+  });
+
+  for (const route of undocumented) console.error(`Missing OpenAPI entry: ${route}`);
+  for (const route of stale) console.error(`OpenAPI entry without a route: ${route}`);
+  for (const problem of disagreeing) console.error(`OpenAPI entry out of date: ${problem}`);
+
+  if (undocumented.length > 0 || stale.length > 0 || disagreeing.length > 0) {
+    process.exit(1);
+  }
+  console.log(`OpenAPI spec covers all ${mounted.size} routes, with matching auth and schemas`);
+  process.exit(0);
+}
+
+main();
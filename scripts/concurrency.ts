@@ -0,0 +1,135 @@
+/**
+ * Fires N parallel debits (plus a burst of duplicate transactionIds) at a
+ * single wallet and checks that it is never overspent or double-charged.
+ * Usage: pnpm test:concurrency
+ *
+ * Env: BASE_URL, CASINO_SECRET, BRAND_CODE (default JAQPOT), PROVIDER_CODE (default JAQPOT),
+ *      PLAYER_USERNAME (default player2), DEMO_PLAYER_PASSWORD,
+ *      GAME_ID (default 1), CURRENCY (default USD),
+ *      AMOUNT (default 100000), CONCURRENCY (default 20)
+ */
+
+import "dotenv/config";
+import { randomUUID } from "crypto";
+import { signRequest } from "../src/lib/hmac";
+
+const BASE_URL = process.env.BASE_URL || "http://localhost:3000";
+const BRAND_CODE = process.env.BRAND_CODE || "JAQPOT";
+const PROVIDER_CODE = process.env.PROVIDER_CODE || "JAQPOT";
+const CASINO_SECRET =
+  process.env.CASINO_SECRET || "casino_secret_key_change_in_production";
+const PLAYER_USERNAME = process.env.PLAYER_USERNAME || "player2";
+const PLAYER_PASSWORD =
+  process.env.DEMO_PLAYER_PASSWORD || "player_password_change_in_production";
+const GAME_ID = Number(process.env.GAME_ID) || 1;
+const CURRENCY = process.env.CURRENCY || "USD";
+const AMOUNT = Number(process.env.AMOUNT) || 100000;
+const CONCURRENCY = Number(process.env.CONCURRENCY) || 20;
+const DUPLICATES = 5;
+
+/** Signed as the provider, or as the player when given an access token. */
+async function post(path: string, body: Record<string, unknown>, accessToken?: string) {
+  const url = `${BASE_URL}/casino${path}`;
+  const payload = JSON.stringify(body);
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    ...(accessToken
+      ? { Authorization: `Bearer ${accessToken}` }
+      : {
+          ...signRequest({ method: "POST", url }, payload, CASINO_SECRET, "x-casino-signature"),
+          "x-provider-code": PROVIDER_CODE,
+        }),
+  };
+
+  const res = await fetch(url, {
+    method: "POST",
+    headers,
+    body: payload,
+  });
+  return { status: res.status, data: await res.json() };
+}
+
+async function main() {
+  const login = await fetch(`${BASE_URL}/casino/auth/login`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "x-brand-code": BRAND_CODE },
+    body: JSON.stringify({ username: PLAYER_USERNAME, password: PLAYER_PASSWORD }),
+  });
+  const { accessToken, userId } = await login.json();
+  if (login.status !== 200) {
+    throw new Error(`login failed for ${PLAYER_USERNAME}`);
+  }
+
+  const launch = await post("/launchGame", { gameId: GAME_ID, currency: CURRENCY }, accessToken);
+  if (launch.status !== 200) {
+    throw new Error(`launchGame failed: ${JSON.stringify(launch.data)}`);
+  }
+  const { sessionToken } = launch.data;
+  const startBalance = BigInt(launch.data.balance);
+  const roundId = randomUUID();
+  const base = { sessionToken, userId, currency: CURRENCY, roundId };
+
+  console.log(
+    `Firing ${CONCURRENCY} parallel debits of ${AMOUNT} at balance ${startBalance} ...`
+  );
+
+  const debits = await Promise.all(
+    Array.from({ length: CONCURRENCY }, () =>
+      post("/debit", { ...base, transactionId: randomUUID(), amount: AMOUNT })
+    )
+  );
+
+  const duplicateTransactionId = randomUUID();
+  const duplicates = await Promise.all(
+    Array.from({ length: DUPLICATES }, () =>
+      post("/debit", { ...base, transactionId: duplicateTransactionId, amount: AMOUNT })
+    )
+  );
+
+  const balance = await post("/getBalance", {
+    sessionToken,
+    userId,
+    currency: CURRENCY,
+  });
+  const finalBalance = BigInt(balance.data.balance);
+
+  const accepted = debits.filter((r) => r.status === 200).length;
+  const duplicateAccepted = duplicates.some((r) => r.status === 200) ? 1 : 0;
+  const serverErrors = [...debits, ...duplicates].filter((r) => r.status >= 500);
+  const expectedAccepted = Math.min(CONCURRENCY, Number(startBalance / BigInt(AMOUNT)));
+  const expectedBalance =
+    startBalance - BigInt(AMOUNT) * BigInt(accepted + duplicateAccepted);
+
+  const failures: string[] = [];
+  if (accepted !== expectedAccepted) {
+    failures.push(`expected ${expectedAccepted} accepted debits, got ${accepted}`);
+  }
+  if (finalBalance !== expectedBalance) {
+    failures.push(`expected final balance ${expectedBalance}, got ${finalBalance}`);
+  }
+  if (finalBalance < BigInt(0)) {
+    failures.push(`wallet overspent: ${finalBalance}`);
+  }
+  if (serverErrors.length > 0) {
+    failures.push(`${serverErrors.length} requests returned 5xx`);
+  }
+  const duplicateBalances = new Set(
+    duplicates.filter((r) => r.status === 200).map((r) => r.data.balance)
+  );
+  if (duplicateBalances.size > 1) {
+    failures.push("duplicate transactionId returned different cached responses");
+  }
+
+  console.log({ accepted, duplicateAccepted, startBalance, finalBalance });
+
+  if (failures.length > 0) {
+    console.error("FAILED:\n  - " + failures.join("\n  - "));
+    process.exit(1);
+  }
+  console.log("OK: no overspend, no double-charge, no 5xx");
+}
+
+main().catch((err) => {
+  console.error("Error:", err);
+  process.exit(1);
+});
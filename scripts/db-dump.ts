@@ -11,43 +11,106 @@ const serialize = (_key: string, value: unknown) =>
 
 async function main() {
   const [
+    casinoBrands,
     casinoUsers,
+    casinoRefreshTokens,
     casinoWallets,
     casinoGameProviders,
+    casinoGameProviderKeys,
     casinoGames,
     casinoGameSessions,
     casinoTransactions,
+    casinoRounds,
+    casinoBonusGrants,
+    casinoUserLimits,
+    casinoUserExclusions,
+    casinoFreeSpinCampaigns,
+    casinoJackpotWins,
+    casinoReconciliationDiscrepancies,
+    casinoLedgerAccounts,
+    casinoLedgerEntries,
+    casinoReportDays,
+    casinoReportPlayers,
+    casinoReportState,
     providerGames,
     providerCasinos,
+    providerCasinoKeys,
     providerCasinoUsers,
+    providerGameSessions,
     providerGameRounds,
     providerBets,
+    providerCallbackOutbox,
+    providerFreeSpinCampaigns,
+    providerJackpotPools,
+    providerJackpotWins,
   ] = await Promise.all([
+    prisma.casinoBrand.findMany({ orderBy: { id: "asc" } }),
     prisma.casinoUser.findMany({ orderBy: { id: "asc" } }),
+    prisma.casinoRefreshToken.findMany({ orderBy: { id: "asc" } }),
     prisma.casinoWallet.findMany({ orderBy: { id: "asc" } }),
     prisma.casinoGameProvider.findMany({ orderBy: { id: "asc" } }),
+    prisma.casinoGameProviderKey.findMany({ orderBy: { id: "asc" } }),
     prisma.casinoGame.findMany({ orderBy: { id: "asc" } }),
     prisma.casinoGameSession.findMany({ orderBy: { id: "asc" } }),
     prisma.casinoTransaction.findMany({ orderBy: { id: "asc" } }),
+    prisma.casinoRound.findMany({ orderBy: { id: "asc" } }),
+    prisma.casinoBonusGrant.findMany({ orderBy: { id: "asc" } }),
+    prisma.casinoUserLimit.findMany({ orderBy: { id: "asc" } }),
+    prisma.casinoUserExclusion.findMany({ orderBy: { id: "asc" } }),
+    prisma.casinoFreeSpinCampaign.findMany({ orderBy: { id: "asc" } }),
+    prisma.casinoJackpotWin.findMany({ orderBy: { id: "asc" } }),
+    prisma.casinoReconciliationDiscrepancy.findMany({ orderBy: { id: "asc" } }),
+    prisma.casinoLedgerAccount.findMany({ orderBy: { id: "asc" } }),
+    prisma.casinoLedgerEntry.findMany({ orderBy: { id: "asc" } }),
+    prisma.casinoReportDay.findMany({ orderBy: { id: "asc" } }),
+    prisma.casinoReportPlayer.findMany({ orderBy: { id: "asc" } }),
+    prisma.casinoReportState.findMany({ orderBy: { id: "asc" } }),
     prisma.providerGame.findMany({ orderBy: { id: "asc" } }),
     prisma.providerCasino.findMany({ orderBy: { id: "asc" } }),
+    prisma.providerCasinoKey.findMany({ orderBy: { id: "asc" } }),
     prisma.providerCasinoUser.findMany({ orderBy: { id: "asc" } }),
+    prisma.providerGameSession.findMany({ orderBy: { id: "asc" } }),
     prisma.providerGameRound.findMany({ orderBy: { id: "asc" } }),
     prisma.providerBet.findMany({ orderBy: { id: "asc" } }),
+    prisma.providerCallbackOutbox.findMany({ orderBy: { id: "asc" } }),
+    prisma.providerFreeSpinCampaign.findMany({ orderBy: { id: "asc" } }),
+    prisma.providerJackpotPool.findMany({ orderBy: { id: "asc" } }),
+    prisma.providerJackpotWin.findMany({ orderBy: { id: "asc" } }),
   ]);
 
   const dump = {
+    casino_brands: casinoBrands,
     casino_users: casinoUsers,
+    casino_refresh_tokens: casinoRefreshTokens,
     casino_wallets: casinoWallets,
     casino_game_providers: casinoGameProviders,
+    casino_game_provider_keys: casinoGameProviderKeys,
     casino_games: casinoGames,
     casino_game_sessions: casinoGameSessions,
     casino_transactions: casinoTransactions,
+    casino_rounds: casinoRounds,
+    casino_bonus_grants: casinoBonusGrants,
+    casino_user_limits: casinoUserLimits,
+    casino_user_exclusions: casinoUserExclusions,
+    casino_free_spin_campaigns: casinoFreeSpinCampaigns,
+    casino_jackpot_wins: casinoJackpotWins,
+    casino_reconciliation_discrepancies: casinoReconciliationDiscrepancies,
+    casino_ledger_accounts: casinoLedgerAccounts,
+    casino_ledger_entries: casinoLedgerEntries,
+    casino_report_days: casinoReportDays,
+    casino_report_players: casinoReportPlayers,
+    casino_report_state: casinoReportState,
     provider_games: providerGames,
     provider_casinos: providerCasinos,
+    provider_casino_keys: providerCasinoKeys,
     provider_casino_users: providerCasinoUsers,
+    provider_game_sessions: providerGameSessions,
     provider_game_rounds: providerGameRounds,
     provider_bets: providerBets,
+    provider_callback_outbox: providerCallbackOutbox,
+    provider_free_spin_campaigns: providerFreeSpinCampaigns,
+    provider_jackpot_pools: providerJackpotPools,
+    provider_jackpot_wins: providerJackpotWins,
   };
 
   console.log(JSON.stringify(dump, serialize, 2));
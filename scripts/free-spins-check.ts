@@ -0,0 +1,178 @@
+/**
+ * Checks that a free-round payout still lands after its session closes, as
+ * long as the round started while the session was live: the outbox may
+ * deliver a free-spin win long after the player left. Also checks that a
+ * free round played at the provider can be verified, though it has no debit.
+ * Usage: pnpm test:freeSpins
+ *
+ * Needs the seed's player1 and a running casino and provider. Creates a
+ * three-round campaign for the player, plays one of its rounds at the
+ * provider and pays another through a late callback.
+ * Env: BASE_URL, ADMIN_API_KEY, CASINO_SECRET, DEMO_PLAYER_PASSWORD,
+ *      BRAND_CODE (default JAQPOT), PROVIDER_CODE (default JAQPOT),
+ *      GAME_ID (default 1), CURRENCY (default USD)
+ */
+
+import "dotenv/config";
+import { randomUUID } from "crypto";
+import { signRequest } from "../src/lib/hmac";
+
+const BASE_URL = process.env.BASE_URL || "http://localhost:3000";
+const ADMIN_API_KEY = process.env.ADMIN_API_KEY || "";
+const CASINO_SECRET = process.env.CASINO_SECRET || "casino_secret_key_change_in_production";
+const PLAYER_PASSWORD =
+  process.env.DEMO_PLAYER_PASSWORD || "player_password_change_in_production";
+const BRAND_CODE = process.env.BRAND_CODE || "JAQPOT";
+const PROVIDER_CODE = process.env.PROVIDER_CODE || "JAQPOT";
+const GAME_ID = Number(process.env.GAME_ID) || 1;
+const CURRENCY = process.env.CURRENCY || "USD";
+
+const BET = 100;
+const WIN = 250;
+
+interface Result {
+  status: number;
+  data: Record<string, any>;
+}
+
+async function post(path: string, body: Record<string, unknown>, headers: Record<string, string>) {
+  const res = await fetch(`${BASE_URL}/casino${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  });
+  return { status: res.status, data: await res.json() } as Result;
+}
+
+const asPlayer = (path: string, accessToken: string, body: Record<string, unknown>) =>
+  post(path, body, { Authorization: `Bearer ${accessToken}` });
+
+const asAdmin = (path: string, body: Record<string, unknown>) =>
+  post(path, body, { "x-admin-key": ADMIN_API_KEY, "x-brand-code": BRAND_CODE });
+
+/** A player call to the provider, authorised by the provider session. */
+function atProvider(path: string, body: Record<string, unknown>) {
+  return fetch(`${BASE_URL}/provider${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  }).then(async (res) => ({ status: res.status, data: await res.json() }) as Result);
+}
+
+/** A wallet callback signed as the provider. */
+function asProvider(path: string, body: Record<string, unknown>) {
+  const url = `${BASE_URL}/casino${path}`;
+  const payload = JSON.stringify(body);
+  return fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...signRequest({ method: "POST", url }, payload, CASINO_SECRET, "x-casino-signature"),
+      "x-provider-code": PROVIDER_CODE,
+    },
+    body: payload,
+  }).then(async (res) => ({ status: res.status, data: await res.json() }) as Result);
+}
+
+async function main() {
+  if (!ADMIN_API_KEY) throw new Error("ADMIN_API_KEY is required");
+
+  const failures: string[] = [];
+  const check = (name: string, ok: boolean, detail: unknown) => {
+    console.log(`${ok ? "ok  " : "FAIL"} ${name}`);
+    if (!ok) failures.push(`${name}: ${JSON.stringify(detail)}`);
+  };
+
+  const login = await post("/auth/login", { username: "player1", password: PLAYER_PASSWORD }, { "x-brand-code": BRAND_CODE });
+  if (login.status !== 200) throw new Error(`login failed: ${JSON.stringify(login.data)}`);
+  const { userId, accessToken } = login.data as { userId: number; accessToken: string };
+
+  const campaign = await asAdmin("/admin/freeSpins", {
+    userId,
+    gameId: GAME_ID,
+    currency: CURRENCY,
+    rounds: 3,
+    betAmount: BET,
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+  });
+  if (campaign.status !== 201) {
+    throw new Error(`campaign failed: ${JSON.stringify(campaign.data)}`);
+  }
+  const { campaignId } = campaign.data as { campaignId: string };
+
+  const launch = await asPlayer("/launchGame", accessToken, { gameId: GAME_ID, currency: CURRENCY });
+  if (launch.status !== 200) throw new Error(`launch failed: ${JSON.stringify(launch.data)}`);
+  const session = { sessionToken: launch.data.sessionToken, userId, currency: CURRENCY };
+  const { providerSessionId } = launch.data as { providerSessionId: string };
+
+  // ── A free round played at the provider verifies at the campaign's bet ──
+  const played = await atProvider("/play", { providerSessionId, campaignId });
+  check(
+    "free round plays at the campaign's bet and settles",
+    played.status === 200 && played.data.bet === String(BET) && played.data.settlement === "settled",
+    played
+  );
+  const rotated = await atProvider("/rotateSeed", { providerSessionId });
+  if (rotated.status !== 200) throw new Error(`rotate failed: ${JSON.stringify(rotated.data)}`);
+  const verified = await atProvider("/verifyRound", { roundId: played.data.roundId });
+  check(
+    "free round without a debit verifies against its outcome",
+    verified.status === 200 && verified.data.verified === true && verified.data.bet === String(BET),
+    verified
+  );
+
+  // ── A free round starts, then the player closes the session ──
+  const roundStartedAt = new Date().toISOString();
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  const closed = await asPlayer("/closeSession", accessToken, { sessionToken: session.sessionToken });
+  if (closed.status !== 200) throw new Error(`close failed: ${JSON.stringify(closed.data)}`);
+
+  const freeRoundCredit = (extra: Record<string, unknown>) =>
+    asProvider("/credit", {
+      ...session,
+      transactionId: randomUUID(),
+      roundId: randomUUID(),
+      amount: WIN,
+      campaignId,
+      ...extra,
+    });
+
+  // ── The payout arrives after the close ──
+  const late = await freeRoundCredit({ roundStartedAt });
+  check("free-round payout for a round started while live lands after the close", late.status === 200, late);
+
+  const startedAfterClose = await freeRoundCredit({ roundStartedAt: new Date().toISOString() });
+  check(
+    "free-round payout for a round started after the close is refused",
+    startedAfterClose.status === 403 && startedAfterClose.data.code === "SESSION_CLOSED",
+    startedAfterClose
+  );
+
+  const undated = await freeRoundCredit({});
+  check(
+    "free-round payout without roundStartedAt needs a live session",
+    undated.status === 403 && undated.data.code === "SESSION_CLOSED",
+    undated
+  );
+
+  const campaigns = await fetch(`${BASE_URL}/casino/admin/users/${userId}/freeSpins`, {
+    headers: { "x-admin-key": ADMIN_API_KEY, "x-brand-code": BRAND_CODE },
+  }).then((res) => res.json() as Promise<{ campaigns: Array<Record<string, any>> }>);
+  const stored = campaigns.campaigns.find((row) => row.campaignId === campaignId);
+  check(
+    "only the played round and the accepted payout count against the campaign",
+    stored?.remainingRounds === 1 && stored?.totalWinnings === String(WIN + Number(played.data.payout)),
+    stored
+  );
+
+  if (failures.length > 0) {
+    console.error("FAILED:\n  - " + failures.join("\n  - "));
+    process.exit(1);
+  }
+  console.log("OK: free rounds verify, and their payouts settle after the session closes");
+}
+
+main().catch((err) => {
+  console.error("Error:", err);
+  process.exit(1);
+});
@@ -0,0 +1,163 @@
+/**
+ * Checks the history endpoints against a running server: cursor pages stay
+ * stable while new transactions are written, round drill-downs chain their
+ * balances, and statements add up in both JSON and CSV.
+ * Usage: pnpm test:history
+ *
+ * Needs the seed's player1 and a running server. Leaves the balance as it
+ * found it: every stake placed is rolled back at the end.
+ * Env: BASE_URL, ADMIN_API_KEY, CASINO_SECRET, DEMO_PLAYER_PASSWORD,
+ *      BRAND_CODE (default JAQPOT), PROVIDER_CODE (default JAQPOT),
+ *      GAME_ID (default 1), CURRENCY (default USD)
+ */
+
+import "dotenv/config";
+import { randomUUID } from "crypto";
+import { signRequest } from "../src/lib/hmac";
+
+const BASE_URL = process.env.BASE_URL || "http://localhost:3000";
+const ADMIN_API_KEY = process.env.ADMIN_API_KEY || "";
+const CASINO_SECRET = process.env.CASINO_SECRET || "casino_secret_key_change_in_production";
+const PLAYER_PASSWORD =
+  process.env.DEMO_PLAYER_PASSWORD || "player_password_change_in_production";
+const BRAND_CODE = process.env.BRAND_CODE || "JAQPOT";
+const PROVIDER_CODE = process.env.PROVIDER_CODE || "JAQPOT";
+const GAME_ID = Number(process.env.GAME_ID) || 1;
+const CURRENCY = process.env.CURRENCY || "USD";
+
+const STAKE = 100;
+const PAGE_SIZE = 3;
+
+interface Result {
+  status: number;
+  data: Record<string, any>;
+}
+
+async function post(path: string, body: Record<string, unknown>, headers: Record<string, string>) {
+  const res = await fetch(`${BASE_URL}/casino${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  });
+  return { status: res.status, data: await res.json() } as Result;
+}
+
+const asPlayer = (path: string, accessToken: string, body: Record<string, unknown>) =>
+  post(path, body, { Authorization: `Bearer ${accessToken}` });
+
+/** A wallet callback signed as the provider. */
+function asProvider(path: string, body: Record<string, unknown>) {
+  const url = `${BASE_URL}/casino${path}`;
+  const payload = JSON.stringify(body);
+  return fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...signRequest({ method: "POST", url }, payload, CASINO_SECRET, "x-casino-signature"),
+      "x-provider-code": PROVIDER_CODE,
+    },
+    body: payload,
+  }).then(async (res) => ({ status: res.status, data: await res.json() }) as Result);
+}
+
+async function main() {
+  if (!ADMIN_API_KEY) throw new Error("ADMIN_API_KEY is required");
+
+  const failures: string[] = [];
+  const check = (name: string, ok: boolean, detail: unknown) => {
+    console.log(`${ok ? "ok  " : "FAIL"} ${name}`);
+    if (!ok) failures.push(`${name}: ${JSON.stringify(detail)}`);
+  };
+
+  const login = await post("/auth/login", { username: "player1", password: PLAYER_PASSWORD }, { "x-brand-code": BRAND_CODE });
+  if (login.status !== 200) throw new Error(`login failed: ${JSON.stringify(login.data)}`);
+  const { userId, accessToken } = login.data as { userId: number; accessToken: string };
+
+  const launch = await asPlayer("/launchGame", accessToken, { gameId: GAME_ID, currency: CURRENCY });
+  if (launch.status !== 200) throw new Error(`launch failed: ${JSON.stringify(launch.data)}`);
+  const session = { sessionToken: launch.data.sessionToken, userId, currency: CURRENCY };
+  const startedAt = new Date().toISOString();
+
+  // ── Play one round of several stakes ──
+  const roundId = randomUUID();
+  const debits: string[] = [];
+  const stake = async () => {
+    const transactionId = randomUUID();
+    const res = await asProvider("/debit", { ...session, transactionId, roundId, amount: STAKE });
+    if (res.status !== 200) throw new Error(`debit failed: ${JSON.stringify(res.data)}`);
+    debits.push(transactionId);
+  };
+  for (let i = 0; i < PAGE_SIZE * 2; i++) await stake();
+
+  // ── Pages stay stable while new rows arrive ──
+  const before = await asPlayer("/getTransactions", accessToken, { roundId, limit: 100 });
+  const expected = (before.data.transactions ?? []).map((row: { transactionId: string }) => row.transactionId);
+
+  const paged: string[] = [];
+  let cursor: number | null = null;
+  do {
+    const res = await asPlayer("/getTransactions", accessToken, { roundId, limit: PAGE_SIZE, ...(cursor && { cursor }) });
+    if (res.status !== 200) throw new Error(`history page failed: ${JSON.stringify(res.data)}`);
+    paged.push(...res.data.transactions.map((row: { transactionId: string }) => row.transactionId));
+    cursor = res.data.nextCursor;
+    await stake(); // a new row between pages
+  } while (cursor);
+  check("paging while writing returns each earlier row exactly once", JSON.stringify(paged) === JSON.stringify(expected), {
+    expected,
+    paged,
+  });
+
+  // ── Filters ──
+  const credits = await asPlayer("/getTransactions", accessToken, { roundId, type: "credit" });
+  check("type filter", credits.status === 200 && credits.data.transactions.length === 0, credits.data);
+  const sessions = await asPlayer("/getSessions", accessToken, { status: "active", gameId: GAME_ID, limit: 5 });
+  const listed = (sessions.data.sessions ?? []).find((row: { sessionId: number }) => row.sessionId === launch.data.sessionId);
+  check("session listed with its stakes", listed?.totalBet === String(STAKE * debits.length), listed ?? sessions.data);
+
+  // ── Round drill-down ──
+  const round = await asPlayer("/getRound", accessToken, { providerCode: PROVIDER_CODE, roundId });
+  const rows = round.data.transactions ?? [];
+  const chained = rows.every(
+    (row: { balanceBefore: string }, i: number) => i === 0 || row.balanceBefore === rows[i - 1].balanceAfter
+  );
+  check("round lists every stake", rows.length === debits.length, round.data);
+  check("each movement starts from the previous balance", chained, rows);
+
+  // ── Rollback every stake, then check the statement ──
+  for (const originalTransactionId of debits) {
+    await asProvider("/rollback", { ...session, transactionId: randomUUID(), originalTransactionId, roundId });
+  }
+  const period = { from: startedAt, to: new Date(Date.now() + 1000).toISOString(), currency: CURRENCY };
+  const statement = await asPlayer("/getStatement", accessToken, period);
+  const wallet = statement.data.wallets?.[0];
+  check(
+    "statement nets to zero after rolling back every stake",
+    wallet?.totalBet === wallet?.totalRollback && wallet?.openingBalance === wallet?.closingBalance,
+    wallet ?? statement.data
+  );
+
+  const csv = await fetch(
+    `${BASE_URL}/casino/admin/users/${userId}/statement?${new URLSearchParams({ ...period, format: "csv" })}`,
+    { headers: { "x-admin-key": ADMIN_API_KEY, "x-brand-code": BRAND_CODE } }
+  );
+  const lines = (await csv.text()).trim().split("\r\n");
+  check(
+    "admin CSV statement has a row per transaction",
+    csv.headers.get("content-type")?.startsWith("text/csv") === true &&
+      lines.length === 1 + (statement.data.transactions?.length ?? -1),
+    { status: csv.status, lines: lines.length }
+  );
+
+  await asPlayer("/closeSession", accessToken, { sessionToken: session.sessionToken });
+
+  if (failures.length > 0) {
+    console.error("FAILED:\n  - " + failures.join("\n  - "));
+    process.exit(1);
+  }
+  console.log("OK: history pages, round drill-down and statements are consistent");
+}
+
+main().catch((err) => {
+  console.error("Error:", err);
+  process.exit(1);
+});
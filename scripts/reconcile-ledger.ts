@@ -0,0 +1,64 @@
+/**
+ * Compares every casino wallet's stored balance with the sum of its ledger
+ * entries and lists journals whose entries do not sum to zero. Exits 1 when
+ * anything disagrees.
+ *
+ * Wallets that predate the ledger have no entries yet; `--open-missing`
+ * posts an opening journal (house → wallet) for each of those first.
+ *
+ * Usage: pnpm ledger:reconcile [--open-missing]
+ */
+
+import "dotenv/config";
+import { prisma } from "../src/db";
+import { postOpeningBalance, reconcileLedger } from "../src/casino/casino.ledger";
+
+async function openMissingWallets() {
+  const wallets = await prisma.casinoWallet.findMany({
+    where: { ledgerAccounts: { none: {} } },
+    orderBy: { id: "asc" },
+  });
+
+  for (const wallet of wallets) {
+    await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM casino_wallets WHERE id = ${wallet.id} FOR UPDATE`;
+      const locked = await tx.casinoWallet.findUniqueOrThrow({ where: { id: wallet.id } });
+      await postOpeningBalance(tx, locked, locked.playableBalance);
+    });
+    console.log(`Opened ledger for wallet ${wallet.id} (${wallet.currencyCode} ${wallet.playableBalance})`);
+  }
+}
+
+async function main() {
+  if (process.argv.includes("--open-missing")) {
+    await openMissingWallets();
+  }
+
+  const report = await reconcileLedger(prisma);
+
+  console.log(`Checked ${report.walletsChecked} wallets`);
+  for (const wallet of report.mismatchedWallets) {
+    console.log(
+      `  wallet ${wallet.walletId} (${wallet.currency}): stored ${wallet.storedBalance}, ` +
+        `ledger ${wallet.ledgerBalance}, difference ${wallet.difference}`
+    );
+  }
+  for (const journal of report.unbalancedJournals) {
+    console.log(`  journal ${journal.journalId} does not balance: entries sum to ${journal.total}`);
+  }
+
+  if (report.mismatchedWallets.length > 0 || report.unbalancedJournals.length > 0) {
+    console.log(
+      `${report.mismatchedWallets.length} wallet(s) and ${report.unbalancedJournals.length} journal(s) out of balance`
+    );
+    process.exit(1);
+  }
+  console.log("Ledger matches every wallet");
+}
+
+main()
+  .catch((e) => {
+    console.error("Error:", e);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
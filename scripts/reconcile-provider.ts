@@ -0,0 +1,69 @@
+/**
+ * Reconciles the casino's transactions for one provider against the
+ * provider's signed round report and stores what disagrees. Exits 1 when
+ * the run finds any discrepancy. Meant to run on a schedule (e.g. hourly
+ * over the previous day, so late payouts are matched on a later run).
+ *
+ * Usage: pnpm provider:reconcile <providerCode> [--from <iso>] [--to <iso>]
+ *        (defaults to the last 24 hours)
+ */
+
+import "dotenv/config";
+import { prisma } from "../src/db";
+import { reconcileProvider } from "../src/casino/casino.reconciliation";
+
+function option(name: string) {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+async function main() {
+  const providerCode = process.argv[2];
+  if (!providerCode || providerCode.startsWith("--")) {
+    console.error("Usage: pnpm provider:reconcile <providerCode> [--from <iso>] [--to <iso>]");
+    process.exit(1);
+  }
+
+  const to = new Date(option("--to") ?? Date.now());
+  const from = new Date(option("--from") ?? to.getTime() - 24 * 60 * 60 * 1000);
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from >= to) {
+    console.error("--from and --to must be ISO timestamps with from before to");
+    process.exit(1);
+  }
+
+  // Integration codes are unique across brands, so the code alone names the brand.
+  const provider = await prisma.casinoGameProvider.findUnique({ where: { code: providerCode } });
+  if (!provider) {
+    console.error(`Unknown provider: ${providerCode}`);
+    process.exit(1);
+  }
+
+  const report = await reconcileProvider(provider.brandId, providerCode, { from, to });
+
+  console.log(
+    `Checked ${report.roundsChecked} rounds (${report.providerBets} provider bets, ` +
+      `${report.casinoTransactions} casino transactions) from ${from.toISOString()} to ${to.toISOString()}`
+  );
+  for (const d of report.discrepancies) {
+    console.log(
+      `  ${d.kind} ${d.transactionType} ${d.transactionId} (round ${d.roundId}): ` +
+        `casino ${d.casinoAmount ?? "-"}, provider ${d.providerAmount ?? "-"} [${d.status}]`
+    );
+  }
+  if (report.cleared > 0) {
+    console.log(`${report.cleared} earlier discrepancy(ies) no longer found and resolved`);
+  }
+
+  if (report.discrepancies.length > 0) {
+    console.log(`${report.discrepancies.length} discrepancy(ies) found`);
+    process.exit(1);
+  }
+  console.log("Casino and provider agree");
+}
+
+main()
+  .catch((e) => {
+    console.error("Error:", e);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
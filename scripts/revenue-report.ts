@@ -0,0 +1,99 @@
+/**
+ * Prints a brand's revenue report (bets, wins, GGR, NGR, RTP, active
+ * players) for a range of UTC days, after folding in any transactions the
+ * report tables have not seen yet.
+ *
+ * Usage: pnpm report:revenue <brandCode> [--from YYYY-MM-DD] [--to YYYY-MM-DD]
+ *        [--group-by day,game,provider] [--currency USD] [--provider <code>]
+ *        [--no-refresh] [--rebuild] [--csv]
+ *        (defaults to the last 7 days grouped by day; JSON unless --csv)
+ */
+
+import "dotenv/config";
+import { prisma } from "../src/db";
+import { toCsv } from "../src/lib/csv";
+import { rebuildReports, refreshReports, revenueReport } from "../src/casino/casino.reporting";
+import { revenueReportSchema } from "../src/casino/casino.schemas";
+
+const USAGE =
+  "Usage: pnpm report:revenue <brandCode> [--from YYYY-MM-DD] [--to YYYY-MM-DD] " +
+  "[--group-by day,game,provider] [--currency USD] [--provider <code>] [--no-refresh] [--rebuild] [--csv]";
+
+function option(name: string) {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+const flag = (name: string) => process.argv.includes(name);
+
+async function main() {
+  const brandCode = process.argv[2];
+  if (!brandCode || brandCode.startsWith("--")) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const to = option("--to") ?? new Date().toISOString().slice(0, 10);
+  const from = option("--from") ?? new Date(Date.parse(to) - 6 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const parsed = revenueReportSchema.safeParse({
+    from,
+    to,
+    groupBy: option("--group-by") ?? "day",
+    currency: option("--currency"),
+    providerCode: option("--provider"),
+  });
+  if (!parsed.success) {
+    console.error(parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("\n"));
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const brand = await prisma.casinoBrand.findUnique({ where: { code: brandCode } });
+  if (!brand) {
+    console.error(`Unknown brand: ${brandCode}`);
+    process.exit(1);
+  }
+
+  if (flag("--rebuild")) {
+    const rebuilt = await rebuildReports();
+    console.error(`Rebuilt reports from ${rebuilt.folded} transaction(s)`);
+  } else if (!flag("--no-refresh")) {
+    await refreshReports();
+  }
+
+  const report = await revenueReport(brand.id, parsed.data);
+
+  if (!flag("--csv")) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+  type Row = (typeof report.rows)[number];
+  process.stdout.write(
+    toCsv<Row>(
+      [
+        ...(report.groupBy.includes("day") ? [{ header: "day", value: (row: Row) => row.day }] : []),
+        ...(report.groupBy.includes("game") ? [{ header: "game_id", value: (row: Row) => row.gameId }] : []),
+        ...(report.groupBy.includes("game") || report.groupBy.includes("provider")
+          ? [{ header: "provider_code", value: (row: Row) => row.providerCode }]
+          : []),
+        { header: "currency", value: (row) => row.currency },
+        { header: "bet_count", value: (row) => row.betCount },
+        { header: "bets", value: (row) => row.bets },
+        { header: "wins", value: (row) => row.wins },
+        { header: "rollbacks", value: (row) => row.rollbacks },
+        { header: "ggr", value: (row) => row.ggr },
+        { header: "ngr", value: (row) => row.ngr },
+        { header: "rtp", value: (row) => row.rtp },
+        { header: "active_players", value: (row) => row.activePlayers },
+      ],
+      report.rows
+    )
+  );
+}
+
+main()
+  .catch((e) => {
+    console.error("Error:", e);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
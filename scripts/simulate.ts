@@ -1,18 +1,43 @@
 /**
  * Script to run a full /casino/simulateRound end-to-end.
  * Usage: pnpm simulate
+ *
+ * Env: BASE_URL, BRAND_CODE (default JAQPOT), PLAYER_USERNAME (default player1),
+ *      DEMO_PLAYER_PASSWORD
  */
 
+import "dotenv/config";
+
 const BASE_URL = process.env.BASE_URL || "http://localhost:3000";
+const BRAND_CODE = process.env.BRAND_CODE || "JAQPOT";
+const PLAYER_USERNAME = process.env.PLAYER_USERNAME || "player1";
+const PLAYER_PASSWORD =
+  process.env.DEMO_PLAYER_PASSWORD || "player_password_change_in_production";
+
+async function login(): Promise<string> {
+  const res = await fetch(`${BASE_URL}/casino/auth/login`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "x-brand-code": BRAND_CODE },
+    body: JSON.stringify({ username: PLAYER_USERNAME, password: PLAYER_PASSWORD }),
+  });
+  const data = await res.json();
+  if (res.status !== 200) {
+    throw new Error(`Login failed: ${JSON.stringify(data)}`);
+  }
+  return data.accessToken;
+}
 
 async function main() {
+  const accessToken = await login();
   console.log("Running /casino/simulateRound ...\n");
 
   const res = await fetch(`${BASE_URL}/casino/simulateRound`, {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${accessToken}`,
+    },
     body: JSON.stringify({
-      userId: 1,
       gameId: 1,
       currency: "USD",
     }),
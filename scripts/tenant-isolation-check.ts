@@ -0,0 +1,242 @@
+/**
+ * Checks that two brands on one deployment cannot see or touch each other's
+ * players, sessions, transactions, games or provider integrations, through
+ * any of the casino's doors: player tokens, provider callbacks and admin
+ * routes.
+ * Usage: pnpm test:tenants
+ *
+ * Needs the seed's two brands (JAQPOT with player1, LUCKY with its own
+ * player1) and a running server. Leaves balances as it found them.
+ * Env: BASE_URL, ADMIN_API_KEY, CASINO_SECRET, LUCKY_CASINO_SECRET,
+ *      DEMO_PLAYER_PASSWORD, GAME_ID (default 1, a JAQPOT game),
+ *      LUCKY_GAME_ID (default 4, a LUCKY game), CURRENCY (default USD)
+ */
+
+import "dotenv/config";
+import { randomUUID } from "crypto";
+import { signRequest } from "../src/lib/hmac";
+
+const BASE_URL = process.env.BASE_URL || "http://localhost:3000";
+const ADMIN_API_KEY = process.env.ADMIN_API_KEY || "";
+const PLAYER_PASSWORD =
+  process.env.DEMO_PLAYER_PASSWORD || "player_password_change_in_production";
+const GAME_ID = Number(process.env.GAME_ID) || 1;
+const LUCKY_GAME_ID = Number(process.env.LUCKY_GAME_ID) || 4;
+const CURRENCY = process.env.CURRENCY || "USD";
+
+/** Each brand's provider integration: the code it calls back with and its signing secret. */
+const INTEGRATIONS = {
+  JAQPOT: {
+    code: "JAQPOT",
+    secret: process.env.CASINO_SECRET || "casino_secret_key_change_in_production",
+  },
+  LUCKY: {
+    code: "LUCKY",
+    secret: process.env.LUCKY_CASINO_SECRET || "lucky_casino_secret_key_change_in_production",
+  },
+};
+type BrandCode = keyof typeof INTEGRATIONS;
+
+interface Result {
+  status: number;
+  data: Record<string, any>;
+}
+
+async function call(method: string, path: string, headers: Record<string, string>, body?: unknown) {
+  const res = await fetch(`${BASE_URL}/casino${path}`, {
+    method,
+    headers: { "Content-Type": "application/json", ...headers },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: res.status, data: await res.json() } as Result;
+}
+
+const asPlayer = (path: string, accessToken: string, body: Record<string, unknown>) =>
+  call("POST", path, { Authorization: `Bearer ${accessToken}` }, body);
+
+const asAdmin = (brand: string | null, method: string, path: string) =>
+  call(method, `/admin${path}`, { "x-admin-key": ADMIN_API_KEY, ...(brand && { "x-brand-code": brand }) });
+
+/** A wallet callback signed by the given brand's provider integration. */
+function asProvider(brand: BrandCode, path: string, body: Record<string, unknown>) {
+  const url = `${BASE_URL}/casino${path}`;
+  const payload = JSON.stringify(body);
+  const { code, secret } = INTEGRATIONS[brand];
+  return fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...signRequest({ method: "POST", url }, payload, secret, "x-casino-signature"),
+      "x-provider-code": code,
+    },
+    body: payload,
+  }).then(async (res) => ({ status: res.status, data: await res.json() }) as Result);
+}
+
+async function login(brand: BrandCode, username: string) {
+  const res = await call("POST", "/auth/login", { "x-brand-code": brand }, { username, password: PLAYER_PASSWORD });
+  if (res.status !== 200) {
+    throw new Error(`login failed for ${username} on ${brand}: ${JSON.stringify(res.data)}`);
+  }
+  return res.data as { userId: number; accessToken: string; refreshToken: string };
+}
+
+async function main() {
+  if (!ADMIN_API_KEY) throw new Error("ADMIN_API_KEY is required");
+
+  const failures: string[] = [];
+  const expect = (name: string, res: Result, status: number, code?: string) => {
+    const ok = res.status === status && (code === undefined || res.data.code === code);
+    console.log(`${ok ? "ok  " : "FAIL"} ${name}: ${res.status} ${res.data.code ?? ""}`);
+    if (!ok) failures.push(`${name}: expected ${status} ${code ?? ""}, got ${res.status} ${JSON.stringify(res.data)}`);
+    return res;
+  };
+  const check = (name: string, ok: boolean, detail: unknown) => {
+    console.log(`${ok ? "ok  " : "FAIL"} ${name}`);
+    if (!ok) failures.push(`${name}: ${JSON.stringify(detail)}`);
+  };
+
+  // ── Players ──
+  const jaqpot = await login("JAQPOT", "player1");
+  const lucky = await login("LUCKY", "player1");
+  check("same username, different players", jaqpot.userId !== lucky.userId, { jaqpot: jaqpot.userId, lucky: lucky.userId });
+  expect(
+    "JAQPOT-only player logging in to LUCKY",
+    await call("POST", "/auth/login", { "x-brand-code": "LUCKY" }, { username: "player2", password: PLAYER_PASSWORD }),
+    401,
+    "INVALID_CREDENTIALS"
+  );
+  expect(
+    "JAQPOT refresh token presented to LUCKY",
+    await call("POST", "/auth/refresh", { "x-brand-code": "LUCKY" }, { refreshToken: jaqpot.refreshToken }),
+    401,
+    "INVALID_TOKEN"
+  );
+  expect(
+    "LUCKY logout of a JAQPOT refresh token leaves it alone",
+    await call("POST", "/auth/logout", { "x-brand-code": "LUCKY" }, { refreshToken: jaqpot.refreshToken }),
+    200
+  );
+  const refreshed = expect(
+    "JAQPOT refresh token still works on JAQPOT",
+    await call("POST", "/auth/refresh", { "x-brand-code": "JAQPOT" }, { refreshToken: jaqpot.refreshToken }),
+    200
+  );
+  const jaqpotToken = refreshed.data.accessToken ?? jaqpot.accessToken;
+
+  // ── Games and sessions ──
+  expect(
+    "LUCKY player launching a JAQPOT game",
+    await asPlayer("/launchGame", lucky.accessToken, { gameId: GAME_ID, currency: CURRENCY }),
+    404,
+    "GAME_NOT_FOUND"
+  );
+  const jaqpotLaunch = expect(
+    "JAQPOT player launches",
+    await asPlayer("/launchGame", jaqpotToken, { gameId: GAME_ID, currency: CURRENCY }),
+    200
+  );
+  const luckyLaunch = expect(
+    "LUCKY player launches",
+    await asPlayer("/launchGame", lucky.accessToken, { gameId: LUCKY_GAME_ID, currency: CURRENCY }),
+    200
+  );
+  if (jaqpotLaunch.status !== 200 || luckyLaunch.status !== 200) {
+    throw new Error("cannot continue without a session on each brand");
+  }
+  const jaqpotSession = { sessionToken: jaqpotLaunch.data.sessionToken, userId: jaqpot.userId, currency: CURRENCY };
+  const luckySession = { sessionToken: luckyLaunch.data.sessionToken, userId: lucky.userId, currency: CURRENCY };
+
+  // ── Transactions ──
+  const jaqpotRound = randomUUID();
+  const jaqpotDebit = randomUUID();
+  const stake = 1000;
+  const debited = expect(
+    "JAQPOT provider debits its player",
+    await asProvider("JAQPOT", "/debit", { ...jaqpotSession, transactionId: jaqpotDebit, roundId: jaqpotRound, amount: stake }),
+    200
+  );
+
+  expect("LUCKY provider reading a JAQPOT session", await asProvider("LUCKY", "/getBalance", jaqpotSession), 404, "SESSION_NOT_FOUND");
+  expect(
+    "LUCKY provider debiting a JAQPOT session",
+    await asProvider("LUCKY", "/debit", { ...jaqpotSession, transactionId: randomUUID(), roundId: randomUUID(), amount: stake }),
+    404,
+    "SESSION_NOT_FOUND"
+  );
+  expect("JAQPOT provider reading a LUCKY session", await asProvider("JAQPOT", "/getBalance", luckySession), 404, "SESSION_NOT_FOUND");
+  expect(
+    "LUCKY provider replaying a JAQPOT transactionId",
+    await asProvider("LUCKY", "/debit", { ...luckySession, transactionId: jaqpotDebit, roundId: randomUUID(), amount: stake }),
+    409,
+    "DUPLICATE_TXN"
+  );
+
+  const crossRollback = expect(
+    "LUCKY provider rolling back a JAQPOT debit",
+    await asProvider("LUCKY", "/rollback", {
+      ...luckySession,
+      transactionId: randomUUID(),
+      originalTransactionId: jaqpotDebit,
+      roundId: randomUUID(),
+    }),
+    200
+  );
+  check("cross-brand rollback is only a tombstone", crossRollback.data.tombstone === true, crossRollback.data);
+  const jaqpotBalance = await asProvider("JAQPOT", "/getBalance", jaqpotSession);
+  check("JAQPOT balance untouched by LUCKY", jaqpotBalance.data.balance === debited.data.balance, {
+    afterDebit: debited.data.balance,
+    now: jaqpotBalance.data.balance,
+  });
+
+  expect(
+    "LUCKY player closing a JAQPOT session",
+    await asPlayer("/closeSession", lucky.accessToken, { sessionToken: jaqpotSession.sessionToken }),
+    404,
+    "SESSION_NOT_FOUND"
+  );
+
+  // ── Admin ──
+  expect("admin without a brand", await asAdmin(null, "GET", "/games"), 400, "BRAND_REQUIRED");
+  expect("admin with an unknown brand", await asAdmin("NOPE", "GET", "/games"), 404, "BRAND_NOT_FOUND");
+  expect("LUCKY admin reading a JAQPOT player's wallets", await asAdmin("LUCKY", "GET", `/users/${jaqpot.userId}/wallets`), 404, "USER_NOT_FOUND");
+  expect("LUCKY admin reading JAQPOT provider keys", await asAdmin("LUCKY", "GET", "/providers/JAQPOT/keys"), 404, "PROVIDER_NOT_FOUND");
+  expect(
+    "LUCKY admin reading a JAQPOT round",
+    await asAdmin("LUCKY", "GET", `/providers/JAQPOT/rounds/${jaqpotRound}`),
+    404,
+    "PROVIDER_NOT_FOUND"
+  );
+  expect(
+    "LUCKY admin reading a JAQPOT round through its own provider",
+    await asAdmin("LUCKY", "GET", `/providers/LUCKY/rounds/${jaqpotRound}`),
+    404,
+    "ROUND_NOT_FOUND"
+  );
+  expect("JAQPOT admin reads its own round", await asAdmin("JAQPOT", "GET", `/providers/JAQPOT/rounds/${jaqpotRound}`), 200);
+
+  const luckyGames = expect("LUCKY admin lists games", await asAdmin("LUCKY", "GET", "/games"), 200);
+  const foreign = (luckyGames.data.games ?? []).filter((game: { providerCode: string }) => game.providerCode !== "LUCKY");
+  check("LUCKY game list holds only LUCKY games", foreign.length === 0, foreign);
+
+  // ── Clean up: return the stake and close both sessions ──
+  await asProvider("JAQPOT", "/rollback", {
+    ...jaqpotSession,
+    transactionId: randomUUID(),
+    originalTransactionId: jaqpotDebit,
+    roundId: jaqpotRound,
+  });
+  await asPlayer("/closeSession", jaqpotToken, { sessionToken: jaqpotSession.sessionToken });
+  await asPlayer("/closeSession", lucky.accessToken, { sessionToken: luckySession.sessionToken });
+
+  if (failures.length > 0) {
+    console.error("FAILED:\n  - " + failures.join("\n  - "));
+    process.exit(1);
+  }
+  console.log("OK: neither brand can see or touch the other's data");
+}
+
+main().catch((err) => {
+  console.error("Error:", err);
+  process.exit(1);
+});
@@ -1,13 +1,25 @@
 import express from "express";
 import casinoRoutes from "./casino/casino.routes";
+import docsRoutes from "./docs/docs.routes";
+import { errorHandler } from "./lib/errors";
 import providerRoutes from "./provider/provider.routes";
 
 const app: express.Express = express();
 
-app.use(express.json());
+// Keep the raw bytes: HMAC signatures are verified against exactly what was sent.
+app.use(
+  express.json({
+    verify: (req, _res, buf) => {
+      req.rawBody = buf;
+    },
+  })
+);
 
 app.use("/casino", casinoRoutes);
 app.use("/provider", providerRoutes);
+app.use("/docs", docsRoutes);
 
+// Must be registered last so it sees errors from every route above.
+app.use(errorHandler);
 
 export default app;
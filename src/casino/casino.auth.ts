@@ -0,0 +1,205 @@
+import crypto from "crypto";
+import { Request, Response, NextFunction } from "express";
+import { prisma } from "../db";
+import { AppError, ForbiddenError, NotFoundError, UnauthorizedError } from "../lib/errors";
+import { signJwt, verifyJwt } from "../lib/jwt";
+import { hashPassword, passwordMatches, UNMATCHABLE_PASSWORD_HASH } from "../lib/passwords";
+import type { LoginInput, RefreshTokenInput, SetPasswordInput } from "./casino.schemas";
+
+/**
+ * Player authentication for the client routes (/casino/launchGame, …).
+ *
+ *   access token   HS256 JWT, `sub` = casino user ID, `brand` = the player's
+ *                  brand ID, short-lived, sent as
+ *                  `Authorization: Bearer <token>`; checked without a
+ *                  database read
+ *   refresh token  opaque, stored as a SHA-256 hash; each use revokes it
+ *                  and issues a new one. Presenting a revoked token again
+ *                  means it was copied, so every token of that player is
+ *                  revoked and they must log in again.
+ */
+
+const DEFAULT_ACCESS_TOKEN_TTL_SECONDS = 900;
+const DEFAULT_REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 3600;
+
+function accessTokenTtlSeconds(): number {
+  const configured = Number(process.env.PLAYER_ACCESS_TOKEN_TTL_SECONDS);
+  return configured > 0 ? configured : DEFAULT_ACCESS_TOKEN_TTL_SECONDS;
+}
+
+function refreshTokenTtlSeconds(): number {
+  const configured = Number(process.env.PLAYER_REFRESH_TOKEN_TTL_SECONDS);
+  return configured > 0 ? configured : DEFAULT_REFRESH_TOKEN_TTL_SECONDS;
+}
+
+function tokenSecret(): string {
+  const secret = process.env.PLAYER_TOKEN_SECRET;
+  if (!secret) {
+    console.error("PLAYER_TOKEN_SECRET not configured");
+    throw new AppError(500, "MISCONFIGURED", "Server misconfiguration");
+  }
+  return secret;
+}
+
+function hashRefreshToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// ─── Tokens ──────────────────────────────────────────────────────
+
+async function issueTokens(user: { id: number; brandId: number }) {
+  const userId = user.id;
+  const now = Math.floor(Date.now() / 1000);
+  const expiresIn = accessTokenTtlSeconds();
+  const accessToken = signJwt(
+    { sub: String(userId), brand: user.brandId, typ: "access", iat: now, exp: now + expiresIn },
+    tokenSecret()
+  );
+
+  const refreshToken = crypto.randomBytes(32).toString("base64url");
+  const stored = await prisma.casinoRefreshToken.create({
+    data: {
+      casinoUserId: userId,
+      tokenHash: hashRefreshToken(refreshToken),
+      expiresAt: new Date((now + refreshTokenTtlSeconds()) * 1000),
+    },
+  });
+
+  return {
+    response: {
+      userId,
+      tokenType: "Bearer",
+      accessToken,
+      expiresIn,
+      refreshToken,
+      refreshExpiresAt: stored.expiresAt,
+    },
+    refreshTokenId: stored.id,
+  };
+}
+
+export async function login(brandId: number, input: LoginInput) {
+  const user = await prisma.casinoUser.findUnique({
+    where: { brandId_username: { brandId, username: input.username } },
+  });
+  const matches = await passwordMatches(input.password, user?.passwordHash ?? UNMATCHABLE_PASSWORD_HASH);
+  if (!user || !user.passwordHash || !matches) {
+    console.warn("Player login failed", { brandId, username: input.username });
+    throw new UnauthorizedError("INVALID_CREDENTIALS", "Invalid username or password");
+  }
+
+  const { response } = await issueTokens(user);
+  console.info("Player logged in", { brandId, userId: user.id });
+  return response;
+}
+
+export async function refresh(brandId: number, input: RefreshTokenInput) {
+  const stored = await prisma.casinoRefreshToken.findUnique({
+    where: { tokenHash: hashRefreshToken(input.refreshToken) },
+    include: { casinoUser: true },
+  });
+  if (!stored || stored.casinoUser.brandId !== brandId || stored.expiresAt <= new Date()) {
+    throw new UnauthorizedError("INVALID_TOKEN", "Invalid or expired refresh token");
+  }
+
+  // Revoke first, conditionally, so two refreshes racing on one token cannot both succeed.
+  const revoked = await prisma.casinoRefreshToken.updateMany({
+    where: { id: stored.id, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  if (revoked.count === 0) {
+    await prisma.casinoRefreshToken.updateMany({
+      where: { casinoUserId: stored.casinoUserId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    console.warn("Revoked refresh token reused; all player tokens revoked", {
+      userId: stored.casinoUserId,
+      refreshTokenId: stored.id,
+    });
+    throw new UnauthorizedError("INVALID_TOKEN", "Invalid or expired refresh token");
+  }
+
+  const { response, refreshTokenId } = await issueTokens(stored.casinoUser);
+  await prisma.casinoRefreshToken.update({
+    where: { id: stored.id },
+    data: { replacedById: refreshTokenId },
+  });
+  return response;
+}
+
+/** Revokes the refresh token; already revoked or unknown tokens are not an error. */
+export async function logout(brandId: number, input: RefreshTokenInput) {
+  await prisma.casinoRefreshToken.updateMany({
+    where: { tokenHash: hashRefreshToken(input.refreshToken), casinoUser: { brandId }, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return { status: "logged_out" };
+}
+
+/** Sets a player's password and revokes their refresh tokens. */
+export async function setPassword(brandId: number, userId: number, input: SetPasswordInput) {
+  const user = await prisma.casinoUser.findFirst({ where: { id: userId, brandId } });
+  if (!user) throw new NotFoundError("USER_NOT_FOUND", "User not found");
+
+  await prisma.casinoUser.update({
+    where: { id: user.id },
+    data: { passwordHash: await hashPassword(input.password) },
+  });
+  const revoked = await prisma.casinoRefreshToken.updateMany({
+    where: { casinoUserId: user.id, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  console.info("Player password set", { userId: user.id, revokedTokens: revoked.count });
+  return { userId: user.id, username: user.username, revokedTokens: revoked.count };
+}
+
+// ─── Middleware ──────────────────────────────────────────────────
+
+/**
+ * Requires a valid access token and sets `res.locals.player = { userId }`
+ * and `res.locals.brandId`. Client routes take the user and brand from
+ * here, never from the body; a body that still names a `userId` must name
+ * the same player.
+ */
+export function authenticatePlayer(req: Request, res: Response, next: NextFunction): void {
+  const [scheme, token] = (req.header("authorization") ?? "").split(" ");
+  if (scheme !== "Bearer" || !token) {
+    next(new UnauthorizedError("UNAUTHORIZED", "Missing bearer token"));
+    return;
+  }
+
+  let secret: string;
+  try {
+    secret = tokenSecret();
+  } catch (err) {
+    next(err);
+    return;
+  }
+
+  const result = verifyJwt(token, secret);
+  const claims = "claims" in result && result.claims.typ === "access" ? result.claims : null;
+  const userId = claims ? Number(claims.sub) : NaN;
+  const brandId = claims?.brand;
+  if (!Number.isInteger(userId) || userId <= 0 || typeof brandId !== "number") {
+    const reason = "failure" in result ? result.failure : "not an access token";
+    console.warn("Invalid player token", { path: req.path, ip: req.ip, reason });
+    next(
+      reason === "expired"
+        ? new UnauthorizedError("TOKEN_EXPIRED", "Access token has expired")
+        : new UnauthorizedError("INVALID_TOKEN", "Invalid access token")
+    );
+    return;
+  }
+
+  const claimed = (req.body as { userId?: unknown } | undefined)?.userId;
+  if (claimed !== undefined && claimed !== userId) {
+    console.warn("Player acting as another user", { path: req.path, userId, claimedUserId: claimed });
+    next(new ForbiddenError("PLAYER_MISMATCH", "userId does not match the authenticated player"));
+    return;
+  }
+
+  res.locals.player = { userId };
+  res.locals.brandId = brandId;
+  next();
+}
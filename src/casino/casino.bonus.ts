@@ -0,0 +1,122 @@
+import { Prisma } from "@prisma/client";
+
+/**
+ * Cash/bonus split of a casino wallet. `playableBalance` is everything that
+ * can be staked and `redeemableBalance` is its cash part; the bonus part is
+ * the difference. Debits draw from both parts in the configured order,
+ * credits pay back in proportion to the round's stakes, and rollbacks return
+ * exactly what the original debit took.
+ */
+
+type BonusClient = Prisma.TransactionClient;
+
+export type DebitOrder = "cash_first" | "bonus_first";
+
+export interface Split {
+  cash: bigint;
+  bonus: bigint;
+}
+
+const ZERO = BigInt(0);
+
+function minBig(a: bigint, b: bigint) {
+  return a < b ? a : b;
+}
+
+// ─── Portions ────────────────────────────────────────────────────
+
+export function walletPortions(wallet: { playableBalance: bigint; redeemableBalance: bigint }): Split {
+  const cash = minBig(wallet.redeemableBalance, wallet.playableBalance);
+  return { cash, bonus: wallet.playableBalance - cash };
+}
+
+export function debitOrder(): DebitOrder {
+  return process.env.BONUS_DEBIT_ORDER === "bonus_first" ? "bonus_first" : "cash_first";
+}
+
+/** Which portion a stake comes out of. The caller has already checked the total. */
+export function splitStake(portions: Split, amount: bigint, order: DebitOrder = debitOrder()): Split {
+  if (order === "bonus_first") {
+    const bonus = minBig(portions.bonus, amount);
+    return { cash: amount - bonus, bonus };
+  }
+  const cash = minBig(portions.cash, amount);
+  return { cash, bonus: amount - cash };
+}
+
+/**
+ * Routes a win back in proportion to the cash and bonus stakes still standing
+ * in the round (rolled-back debits excluded). A round with no recorded split,
+ * e.g. a debit from before the split existed, pays cash. Rounding favours cash.
+ */
+export async function splitWinnings(
+  client: BonusClient,
+  walletId: number,
+  roundId: string,
+  amount: bigint
+): Promise<Split> {
+  if (amount === ZERO) return { cash: ZERO, bonus: ZERO };
+
+  const rolledBack = await client.casinoTransaction.findMany({
+    where: { casinoWalletId: walletId, externalRoundId: roundId, transactionType: "rollback" },
+    select: { relatedExternalTransactionId: true },
+  });
+  const stakes = await client.casinoTransaction.aggregate({
+    where: {
+      casinoWalletId: walletId,
+      externalRoundId: roundId,
+      transactionType: "debit",
+      externalTransactionId: {
+        notIn: rolledBack.flatMap((r) => r.relatedExternalTransactionId ?? []),
+      },
+    },
+    _sum: { cashAmount: true, bonusAmount: true },
+  });
+
+  const cashStake = stakes._sum.cashAmount ?? ZERO;
+  const bonusStake = stakes._sum.bonusAmount ?? ZERO;
+  const totalStake = cashStake + bonusStake;
+  if (totalStake === ZERO) return { cash: amount, bonus: ZERO };
+
+  const bonus = (amount * bonusStake) / totalStake;
+  return { cash: amount - bonus, bonus };
+}
+
+/** A rollback returns exactly what the debit took; a debit without a recorded split refunds cash. */
+export function stakeRefund(debit: { amount: bigint; cashAmount: bigint; bonusAmount: bigint }): Split {
+  if (debit.cashAmount + debit.bonusAmount !== debit.amount) {
+    return { cash: debit.amount, bonus: ZERO };
+  }
+  return { cash: debit.cashAmount, bonus: debit.bonusAmount };
+}
+
+// ─── Wagering ────────────────────────────────────────────────────
+
+/** Every stake, cash or bonus, counts towards the wallet's active grant. */
+export async function recordWagering(client: BonusClient, walletId: number, stake: bigint) {
+  await client.casinoBonusGrant.updateMany({
+    where: { casinoWalletId: walletId, status: "active" },
+    data: { wageredAmount: { increment: stake } },
+  });
+}
+
+/**
+ * Undoes `recordWagering` for a rolled-back stake, but only on a grant that
+ * was already active when the stake was placed.
+ */
+export async function reverseWagering(
+  client: BonusClient,
+  walletId: number,
+  stake: bigint,
+  stakedAt: Date
+) {
+  await client.casinoBonusGrant.updateMany({
+    where: {
+      casinoWalletId: walletId,
+      status: "active",
+      createdAt: { lte: stakedAt },
+      wageredAmount: { gte: stake },
+    },
+    data: { wageredAmount: { decrement: stake } },
+  });
+}
@@ -0,0 +1,35 @@
+import { Request, RequestHandler, Response, NextFunction } from "express";
+import { prisma } from "../db";
+import { asyncHandler, BadRequestError, NotFoundError } from "../lib/errors";
+
+/**
+ * Every casino request acts for one brand (tenant), and every casino query
+ * is scoped to it. Where the brand comes from depends on the caller:
+ *
+ *   admin, login   `x-brand-code` header, resolved here
+ *   player routes  the `brand` claim of the access token (authenticatePlayer)
+ *   callbacks      the brand owning the calling provider integration
+ *                  (verifyCasinoSignature)
+ *
+ * Each of them sets `res.locals.brandId`. A record of another brand is
+ * reported as not found, exactly like one that does not exist.
+ */
+
+/** Resolves `x-brand-code` to an active brand and sets `res.locals.brandId`. */
+export const resolveBrand: RequestHandler = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const brandCode = req.header("x-brand-code");
+  if (!brandCode) {
+    next(new BadRequestError("BRAND_REQUIRED", "Missing x-brand-code header"));
+    return;
+  }
+
+  const brand = await prisma.casinoBrand.findUnique({ where: { code: brandCode } });
+  if (!brand || !brand.isActive) {
+    console.warn("Unknown or inactive brand", { path: req.path, ip: req.ip, brandCode });
+    next(new NotFoundError("BRAND_NOT_FOUND", "Brand not found or inactive"));
+    return;
+  }
+
+  res.locals.brandId = brand.id;
+  next();
+});
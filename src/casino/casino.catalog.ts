@@ -0,0 +1,260 @@
+import { prisma } from "../db";
+import { BadRequestError, ConflictError, NotFoundError, UpstreamError } from "../lib/errors";
+import * as providerClient from "./casino.providerClient";
+import type { CreateGameInput, UpdateGameInput } from "./casino.schemas";
+
+/**
+ * The casino's game list. Each `CasinoGame` maps a provider's game
+ * (`providerGameId`) to a casino game ID with its own bet limits and on/off
+ * switch. Admins manage games directly; `syncProviderGames` pulls the
+ * provider's `/provider/games` feed, adding games the casino does not have
+ * yet and taking over bet limits the provider has changed.
+ *
+ * Activation stays a casino decision: a sync never switches a game on or
+ * off, and a game missing from the feed is only reported.
+ *
+ * Games belong to a brand through their provider integration, so each
+ * brand manages and syncs its own list.
+ */
+
+const DEFAULT_SYNC_INTERVAL_MS = 300_000;
+
+interface FeedGame {
+  gameId: string;
+  minBet: string;
+  maxBet: string;
+}
+
+type GameRow = {
+  id: number;
+  providerGameId: string;
+  isActive: boolean;
+  minBet: bigint;
+  maxBet: bigint;
+  createdAt: Date;
+};
+
+function serializeGame(game: GameRow, providerCode: string) {
+  return {
+    gameId: game.id,
+    providerCode,
+    providerGameId: game.providerGameId,
+    isActive: game.isActive,
+    minBet: game.minBet.toString(),
+    maxBet: game.maxBet.toString(),
+    createdAt: game.createdAt,
+  };
+}
+
+async function findProvider(brandId: number, providerCode: string) {
+  const provider = await prisma.casinoGameProvider.findUnique({ where: { code: providerCode } });
+  if (!provider || provider.brandId !== brandId) {
+    throw new NotFoundError("PROVIDER_NOT_FOUND", "Provider not found");
+  }
+  return provider;
+}
+
+async function findGame(brandId: number, gameId: number) {
+  const game = await prisma.casinoGame.findFirst({
+    where: { id: gameId, casinoGameProvider: { brandId } },
+    include: { casinoGameProvider: true },
+  });
+  if (!game) throw new NotFoundError("GAME_NOT_FOUND", "Game not found");
+  return game;
+}
+
+// ─── Admin ───────────────────────────────────────────────────────
+
+export async function listGames(brandId: number) {
+  const games = await prisma.casinoGame.findMany({
+    where: { casinoGameProvider: { brandId } },
+    include: { casinoGameProvider: true },
+    orderBy: { id: "asc" },
+  });
+  return { games: games.map((game) => serializeGame(game, game.casinoGameProvider.code)) };
+}
+
+export async function createGame(brandId: number, input: CreateGameInput) {
+  const provider = await findProvider(brandId, input.providerCode);
+  const existing = await prisma.casinoGame.findUnique({
+    where: {
+      casinoGameProviderId_providerGameId: {
+        casinoGameProviderId: provider.id,
+        providerGameId: input.providerGameId,
+      },
+    },
+  });
+  if (existing) {
+    throw new ConflictError("GAME_EXISTS", "Game already exists for this provider", {
+      gameId: existing.id,
+    });
+  }
+
+  const game = await prisma.casinoGame.create({
+    data: {
+      casinoGameProviderId: provider.id,
+      providerGameId: input.providerGameId,
+      isActive: input.isActive,
+      minBet: BigInt(input.minBet),
+      maxBet: BigInt(input.maxBet),
+    },
+  });
+
+  console.info("Game created", { gameId: game.id, providerCode: provider.code, providerGameId: game.providerGameId });
+  return serializeGame(game, provider.code);
+}
+
+/** Limits are checked against each other after the update, so one of them may be given alone. */
+export async function updateGame(brandId: number, gameId: number, input: UpdateGameInput) {
+  const game = await findGame(brandId, gameId);
+  const minBet = input.minBet !== undefined ? BigInt(input.minBet) : game.minBet;
+  const maxBet = input.maxBet !== undefined ? BigInt(input.maxBet) : game.maxBet;
+  if (minBet > maxBet) {
+    throw new BadRequestError("VALIDATION_ERROR", "minBet must not exceed maxBet", {
+      fields: [{ field: "minBet", message: `Must not exceed maxBet (${maxBet})` }],
+    });
+  }
+
+  const updated = await prisma.casinoGame.update({
+    where: { id: game.id },
+    data: { minBet, maxBet },
+  });
+
+  console.info("Game bet limits updated", { gameId, minBet: minBet.toString(), maxBet: maxBet.toString() });
+  return serializeGame(updated, game.casinoGameProvider.code);
+}
+
+/** A deactivated game cannot be launched; sessions already open are left to run out. */
+export async function setGameActive(brandId: number, gameId: number, isActive: boolean) {
+  const game = await findGame(brandId, gameId);
+  const updated = await prisma.casinoGame.update({
+    where: { id: game.id },
+    data: { isActive },
+  });
+
+  console.info(isActive ? "Game activated" : "Game deactivated", { gameId });
+  return serializeGame(updated, game.casinoGameProvider.code);
+}
+
+// ─── Provider sync ───────────────────────────────────────────────
+
+async function fetchGamesFeed(provider: {
+  code: string;
+  apiEndpoint: string;
+  secretKey: string;
+}): Promise<FeedGame[]> {
+  const response = await providerClient.callProvider(provider, "/provider/games", {
+    casinoCode: provider.code,
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.text();
+    console.error("Provider game feed failed", { status: response.status, body: errorBody });
+    throw new UpstreamError("Provider game feed failed", { providerCode: provider.code });
+  }
+
+  const feed = (await response.json()) as { games: FeedGame[] };
+  return feed.games;
+}
+
+async function syncProvider(provider: {
+  id: number;
+  code: string;
+  apiEndpoint: string;
+  secretKey: string;
+}) {
+  const feed = await fetchGamesFeed(provider);
+  const existing = new Map(
+    (await prisma.casinoGame.findMany({ where: { casinoGameProviderId: provider.id } })).map((game) => [
+      game.providerGameId,
+      game,
+    ])
+  );
+
+  const created: GameRow[] = [];
+  const updated: GameRow[] = [];
+  let unchanged = 0;
+  for (const listed of feed) {
+    const minBet = BigInt(listed.minBet);
+    const maxBet = BigInt(listed.maxBet);
+    const game = existing.get(listed.gameId);
+    if (game && game.minBet === minBet && game.maxBet === maxBet) {
+      unchanged += 1;
+      continue;
+    }
+
+    // Upsert, so a sync racing an admin create or another sync cannot fail on the unique key.
+    const saved = await prisma.casinoGame.upsert({
+      where: {
+        casinoGameProviderId_providerGameId: {
+          casinoGameProviderId: provider.id,
+          providerGameId: listed.gameId,
+        },
+      },
+      create: { casinoGameProviderId: provider.id, providerGameId: listed.gameId, minBet, maxBet },
+      update: { minBet, maxBet },
+    });
+    (game ? updated : created).push(saved);
+  }
+
+  const listedIds = new Set(feed.map((listed) => listed.gameId));
+  const notListed = [...existing.keys()].filter((providerGameId) => !listedIds.has(providerGameId));
+
+  console.info("Provider games synced", {
+    providerCode: provider.code,
+    created: created.length,
+    updated: updated.length,
+    unchanged,
+    notListed: notListed.length,
+  });
+  return {
+    providerCode: provider.code,
+    created: created.map((game) => serializeGame(game, provider.code)),
+    updated: updated.map((game) => serializeGame(game, provider.code)),
+    unchanged,
+    notListed,
+  };
+}
+
+export async function syncProviderGames(brandId: number, providerCode: string) {
+  return syncProvider(await findProvider(brandId, providerCode));
+}
+
+/**
+ * Syncs every enabled provider of every active brand; one provider failing
+ * does not stop the others.
+ */
+export async function syncAllProviders() {
+  const providers = await prisma.casinoGameProvider.findMany({
+    where: { isDisabled: false, brand: { isActive: true } },
+    orderBy: { id: "asc" },
+  });
+  for (const provider of providers) {
+    await syncProvider(provider).catch((err) =>
+      console.error("Provider game sync failed", { providerCode: provider.code, error: err })
+    );
+  }
+}
+
+/**
+ * Syncs all providers every CATALOG_SYNC_INTERVAL_MS until the returned stop
+ * function is called. `0` turns the periodic sync off.
+ */
+export function startCatalogSyncWorker(): () => void {
+  const configured = Number(process.env.CATALOG_SYNC_INTERVAL_MS ?? DEFAULT_SYNC_INTERVAL_MS);
+  if (configured === 0) return () => {};
+  const intervalMs = configured > 0 ? configured : DEFAULT_SYNC_INTERVAL_MS;
+  let running = false;
+
+  const timer = setInterval(() => {
+    if (running) return;
+    running = true;
+    syncAllProviders()
+      .catch((err) => console.error("Catalog sync worker error", err))
+      .finally(() => {
+        running = false;
+      });
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+}
@@ -1,86 +1,305 @@
 import { Request, Response } from "express";
+import * as casinoAuth from "./casino.auth";
+import * as casinoCatalog from "./casino.catalog";
+import * as casinoHistory from "./casino.history";
+import * as providerClient from "./casino.providerClient";
+import * as casinoReconciliation from "./casino.reconciliation";
+import * as casinoReporting from "./casino.reporting";
+import * as casinoRounds from "./casino.rounds";
 import * as casinoService from "./casino.service";
+import type {
+  RevenueReportInput,
+  SessionHistoryInput,
+  StatementInput,
+  TransactionHistoryInput,
+} from "./casino.schemas";
+
+/** The brand the request acts for (see casino.brand.ts). */
+function brandId(res: Response): number {
+  return res.locals.brandId as number;
+}
+
+/** The player in the access token (see authenticatePlayer). */
+function playerId(res: Response): number {
+  return res.locals.player.userId as number;
+}
+
+/** The body of a client route with `userId` taken from the access token. */
+function playerInput(req: Request, res: Response) {
+  return { ...req.body, userId: playerId(res) };
+}
+
+/** Statements answer JSON, or CSV as a download when asked with `format: "csv"`. */
+function sendStatement(res: Response, statement: Awaited<ReturnType<typeof casinoHistory.getStatement>>, format?: string) {
+  if (format !== "csv") return res.json(statement);
+  const period = `${statement.from.toISOString().slice(0, 10)}_${statement.to.toISOString().slice(0, 10)}`;
+  return res
+    .type("text/csv")
+    .attachment(`statement-${statement.userId}-${period}.csv`)
+    .send(casinoHistory.statementCsv(statement));
+}
+
+export async function login(req: Request, res: Response) {
+  const result = await casinoAuth.login(brandId(res), req.body);
+  return res.json(result);
+}
+
+export async function refreshToken(req: Request, res: Response) {
+  const result = await casinoAuth.refresh(brandId(res), req.body);
+  return res.json(result);
+}
+
+export async function logout(req: Request, res: Response) {
+  const result = await casinoAuth.logout(brandId(res), req.body);
+  return res.json(result);
+}
+
+export async function setPassword(req: Request, res: Response) {
+  const result = await casinoAuth.setPassword(brandId(res), Number(req.params.userId), req.body);
+  return res.json(result);
+}
 
 export async function launchGame(req: Request, res: Response) {
-  try {
-    const result = await casinoService.launchGame(req.body);
-    return res.json(result);
-  } catch (err: any) {
-    if (err.status) {
-      return res.status(err.status).json({ error: err.error, details: err.details });
-    }
-    if (err instanceof Error && err.message === "INSUFFICIENT_FUNDS") {
-      return res.status(400).json({ error: "Insufficient funds" });
-    }
-    console.error("casino launchGame error", err);
-    return res.status(500).json({ error: "Internal server error" });
-  }
+  const result = await casinoService.launchGame(brandId(res), playerInput(req, res));
+  return res.json(result);
+}
+
+export async function closeSession(req: Request, res: Response) {
+  const result = await casinoService.closeSession(brandId(res), playerInput(req, res));
+  return res.json(result);
+}
+
+export async function openWallet(req: Request, res: Response) {
+  const result = await casinoService.openWallet(brandId(res), req.body);
+  return res.status(201).json(result);
+}
+
+export async function listWallets(req: Request, res: Response) {
+  const result = await casinoService.listWallets(brandId(res), Number(req.params.userId));
+  return res.json(result);
+}
+
+// The admin history routes take their filters from the query string,
+// parsed by validate().
+
+export async function listUserTransactions(req: Request, res: Response) {
+  const result = await casinoHistory.listTransactions(
+    brandId(res),
+    Number(req.params.userId),
+    req.query as TransactionHistoryInput
+  );
+  return res.json(result);
+}
+
+export async function listUserSessions(req: Request, res: Response) {
+  const result = await casinoHistory.listSessions(
+    brandId(res),
+    Number(req.params.userId),
+    req.query as SessionHistoryInput
+  );
+  return res.json(result);
+}
+
+export async function getUserStatement(req: Request, res: Response) {
+  const input = req.query as StatementInput;
+  const statement = await casinoHistory.getStatement(brandId(res), Number(req.params.userId), input);
+  return sendStatement(res, statement, input.format);
+}
+
+export async function grantBonus(req: Request, res: Response) {
+  const result = await casinoService.grantBonus(brandId(res), req.body);
+  return res.status(201).json(result);
+}
+
+export async function listBonuses(req: Request, res: Response) {
+  const result = await casinoService.listBonuses(brandId(res), Number(req.params.userId));
+  return res.json(result);
+}
+
+export async function convertBonus(req: Request, res: Response) {
+  const result = await casinoService.convertBonus(brandId(res), playerInput(req, res));
+  return res.json(result);
+}
+
+export async function createFreeSpins(req: Request, res: Response) {
+  const result = await casinoService.createFreeSpins(brandId(res), req.body);
+  return res.status(201).json(result);
+}
+
+export async function listFreeSpins(req: Request, res: Response) {
+  const result = await casinoService.listFreeSpins(brandId(res), Number(req.params.userId));
+  return res.json(result);
+}
+
+export async function setLimit(req: Request, res: Response) {
+  const result = await casinoService.setLimit(brandId(res), playerInput(req, res));
+  return res.json(result);
+}
+
+export async function getLimits(req: Request, res: Response) {
+  const result = await casinoService.getLimits(brandId(res), playerInput(req, res));
+  return res.json(result);
+}
+
+export async function getTransactions(req: Request, res: Response) {
+  const result = await casinoHistory.listTransactions(brandId(res), playerId(res), req.body);
+  return res.json(result);
+}
+
+export async function getSessions(req: Request, res: Response) {
+  const result = await casinoHistory.listSessions(brandId(res), playerId(res), req.body);
+  return res.json(result);
+}
+
+export async function getPlayerRound(req: Request, res: Response) {
+  const result = await casinoRounds.getPlayerRound(brandId(res), playerInput(req, res));
+  return res.json(result);
+}
+
+export async function getStatement(req: Request, res: Response) {
+  const statement = await casinoHistory.getStatement(brandId(res), playerId(res), req.body);
+  return sendStatement(res, statement, req.body.format);
+}
+
+export async function selfExclude(req: Request, res: Response) {
+  const result = await casinoService.selfExclude(brandId(res), playerInput(req, res));
+  return res.status(201).json(result);
+}
+
+export async function addProviderKey(req: Request, res: Response) {
+  const result = await casinoService.addProviderKey(
+    brandId(res),
+    req.params.providerCode,
+    req.body
+  );
+  return res.status(201).json(result);
+}
+
+export async function listProviderKeys(req: Request, res: Response) {
+  const result = await casinoService.listProviderKeys(brandId(res), req.params.providerCode);
+  return res.json(result);
+}
+
+export async function retireProviderKey(req: Request, res: Response) {
+  const result = await casinoService.retireProviderKey(
+    brandId(res),
+    req.params.providerCode,
+    Number(req.params.keyId),
+    req.body
+  );
+  return res.json(result);
+}
+
+export async function setProviderOutboundSecret(req: Request, res: Response) {
+  const result = await casinoService.setProviderOutboundSecret(
+    brandId(res),
+    req.params.providerCode,
+    req.body
+  );
+  return res.json(result);
+}
+
+export async function providerStatus(_req: Request, res: Response) {
+  const result = await providerClient.providerStatus(brandId(res));
+  return res.json(result);
+}
+
+export async function listGames(_req: Request, res: Response) {
+  const result = await casinoCatalog.listGames(brandId(res));
+  return res.json(result);
+}
+
+export async function createGame(req: Request, res: Response) {
+  const result = await casinoCatalog.createGame(brandId(res), req.body);
+  return res.status(201).json(result);
+}
+
+export async function updateGame(req: Request, res: Response) {
+  const result = await casinoCatalog.updateGame(brandId(res), Number(req.params.gameId), req.body);
+  return res.json(result);
+}
+
+export async function activateGame(req: Request, res: Response) {
+  const result = await casinoCatalog.setGameActive(brandId(res), Number(req.params.gameId), true);
+  return res.json(result);
+}
+
+export async function deactivateGame(req: Request, res: Response) {
+  const result = await casinoCatalog.setGameActive(brandId(res), Number(req.params.gameId), false);
+  return res.json(result);
+}
+
+export async function syncProviderGames(req: Request, res: Response) {
+  const result = await casinoCatalog.syncProviderGames(brandId(res), req.params.providerCode);
+  return res.json(result);
+}
+
+export async function getRound(req: Request, res: Response) {
+  const result = await casinoRounds.getRound(
+    brandId(res),
+    req.params.providerCode,
+    req.params.roundId
+  );
+  return res.json(result);
+}
+
+export async function reconcileProvider(req: Request, res: Response) {
+  const result = await casinoReconciliation.reconcileProvider(
+    brandId(res),
+    req.params.providerCode,
+    { from: new Date(req.body.from), to: new Date(req.body.to) }
+  );
+  return res.json(result);
+}
+
+export async function listDiscrepancies(req: Request, res: Response) {
+  const result = await casinoReconciliation.listDiscrepancies(
+    brandId(res),
+    req.params.providerCode
+  );
+  return res.json(result);
+}
+
+export async function resolveDiscrepancy(req: Request, res: Response) {
+  const result = await casinoReconciliation.resolveDiscrepancy(
+    brandId(res),
+    Number(req.params.discrepancyId),
+    req.body.resolution
+  );
+  return res.json(result);
 }
 
 export async function getBalance(req: Request, res: Response) {
-  try {
-    const result = await casinoService.getBalance(req.body);
-    return res.json(result);
-  } catch (err: any) {
-    if (err.status) {
-      return res.status(err.status).json({ error: err.error, details: err.details });
-    }
-    console.error("casino getBalance error", err);
-    return res.status(500).json({ error: "Internal server error" });
-  }
+  const result = await casinoService.getBalance(brandId(res), req.body);
+  return res.json(result);
 }
 
 export async function debit(req: Request, res: Response) {
-  try {
-    const result = await casinoService.debit(req.body);
-    return res.json(result);
-  } catch (err: any) {
-    if (err.status) {
-      return res.status(err.status).json({ error: err.error, details: err.details });
-    }
-    if (err instanceof Error && err.message === "INSUFFICIENT_FUNDS") {
-      return res.status(400).json({ error: "Insufficient funds" });
-    }
-    console.error("casino debit error", err);
-    return res.status(500).json({ error: "Internal server error" });
-  }
+  const result = await casinoService.debit(brandId(res), req.body);
+  return res.json(result);
 }
 
 export async function credit(req: Request, res: Response) {
-  try {
-    const result = await casinoService.credit(req.body);
-    return res.json(result);
-  } catch (err: any) {
-    if (err.status) {
-      return res.status(err.status).json({ error: err.error, details: err.details });
-    }
-    console.error("casino credit error", err);
-    return res.status(500).json({ error: "Internal server error" });
-  }
+  const result = await casinoService.credit(brandId(res), req.body);
+  return res.json(result);
 }
 
 export async function rollback(req: Request, res: Response) {
-  try {
-    const result = await casinoService.rollback(req.body);
-    return res.json(result);
-  } catch (err: any) {
-    if (err.status) {
-      return res.status(err.status).json({ error: err.error, details: err.details });
-    }
-    console.error("casino rollback error", err);
-    return res.status(500).json({ error: "Internal server error" });
-  }
+  const result = await casinoService.rollback(brandId(res), req.body);
+  return res.json(result);
 }
 
 export async function simulateRound(req: Request, res: Response) {
-  try {
-    const result = await casinoService.simulateRound(req.body);
-    return res.json(result);
-  } catch (err: any) {
-    if (err.status) {
-      return res.status(err.status).json({ error: err.error, details: err.details });
-    }
-    console.error("casino simulateRound error", err);
-    return res.status(500).json({ error: "Internal server error" });
-  }
+  const result = await casinoService.simulateRound(brandId(res), playerInput(req, res));
+  return res.json(result);
+}
+
+export async function revenueReport(req: Request, res: Response) {
+  const result = await casinoReporting.revenueReport(brandId(res), req.query as unknown as RevenueReportInput);
+  return res.json(result);
+}
+
+export async function refreshReports(_req: Request, res: Response) {
+  const result = await casinoReporting.refreshReports();
+  return res.json(result);
 }
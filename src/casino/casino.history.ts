@@ -0,0 +1,272 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../db";
+import { toCsv } from "../lib/csv";
+import { NotFoundError } from "../lib/errors";
+import type { SessionHistoryInput, StatementInput, TransactionHistoryInput } from "./casino.schemas";
+
+/**
+ * A player's history, read for the player (client routes) and for support
+ * (admin routes): transactions and sessions page by page, and statements for
+ * a period as JSON or CSV.
+ *
+ * Pages run newest first. `nextCursor` is the ID of the page's last row and
+ * the next page continues below it. IDs only grow, so rows written while a
+ * player pages through are newer than the first page and never shift the
+ * pages that follow.
+ */
+
+const DEFAULT_PAGE_SIZE = 50;
+
+async function findUser(brandId: number, userId: number) {
+  const user = await prisma.casinoUser.findFirst({ where: { id: userId, brandId } });
+  if (!user) throw new NotFoundError("USER_NOT_FOUND", "User not found");
+  return user;
+}
+
+function page<Row extends { id: number }>(rows: Row[], limit: number) {
+  const items = rows.slice(0, limit);
+  return { items, nextCursor: rows.length > limit ? items[items.length - 1].id : null };
+}
+
+// ─── Transactions ────────────────────────────────────────────────
+
+/** The balance a movement started from: a debit took `amount` off, a credit or rollback added it. */
+export function balanceBefore(transaction: { transactionType: string; amount: bigint; balanceAfter: bigint }) {
+  return transaction.transactionType === "debit"
+    ? transaction.balanceAfter + transaction.amount
+    : transaction.balanceAfter - transaction.amount;
+}
+
+const TRANSACTION_INCLUDE = {
+  casinoWallet: { select: { currencyCode: true } },
+  casinoGameSession: {
+    select: { casinoGameId: true, casinoGame: { select: { casinoGameProvider: { select: { code: true } } } } },
+  },
+} as const;
+
+type HistoryTransaction = Prisma.CasinoTransactionGetPayload<{ include: typeof TRANSACTION_INCLUDE }>;
+
+function serializeTransaction(transaction: HistoryTransaction) {
+  return {
+    transactionId: transaction.externalTransactionId,
+    type: transaction.transactionType,
+    amount: transaction.amount.toString(),
+    cashAmount: transaction.cashAmount.toString(),
+    bonusAmount: transaction.bonusAmount.toString(),
+    balanceBefore: balanceBefore(transaction).toString(),
+    balanceAfter: transaction.balanceAfter.toString(),
+    currency: transaction.casinoWallet.currencyCode,
+    gameId: transaction.casinoGameSession.casinoGameId,
+    providerCode: transaction.casinoGameSession.casinoGame.casinoGameProvider.code,
+    sessionId: transaction.casinoGameSessionId,
+    roundId: transaction.externalRoundId,
+    relatedTransactionId: transaction.relatedExternalTransactionId,
+    campaignId: transaction.freeSpinCampaignId,
+    createdAt: transaction.createdAt,
+  };
+}
+
+export async function listTransactions(brandId: number, userId: number, input: TransactionHistoryInput) {
+  await findUser(brandId, userId);
+  const limit = input.limit ?? DEFAULT_PAGE_SIZE;
+
+  const rows = await prisma.casinoTransaction.findMany({
+    where: {
+      casinoWallet: { casinoUserId: userId, currencyCode: input.currency },
+      createdAt: { gte: input.from, lt: input.to },
+      transactionType: input.type,
+      externalRoundId: input.roundId,
+      ...(input.gameId && { casinoGameSession: { casinoGameId: input.gameId } }),
+      ...(input.cursor && { id: { lt: input.cursor } }),
+    },
+    include: TRANSACTION_INCLUDE,
+    orderBy: { id: "desc" },
+    take: limit + 1,
+  });
+  const { items, nextCursor } = page(rows, limit);
+
+  return { userId, transactions: items.map(serializeTransaction), nextCursor };
+}
+
+// ─── Sessions ────────────────────────────────────────────────────
+
+function sessionStatus(session: { isActive: boolean; expiresAt: Date }, now: Date) {
+  if (!session.isActive) return "closed";
+  return session.expiresAt <= now ? "expired" : "active";
+}
+
+function sessionStatusFilter(status: SessionHistoryInput["status"], now: Date): Prisma.CasinoGameSessionWhereInput {
+  switch (status) {
+    case "active":
+      return { isActive: true, expiresAt: { gt: now } };
+    case "expired":
+      return { isActive: true, expiresAt: { lte: now } };
+    case "closed":
+      return { isActive: false };
+    default:
+      return {};
+  }
+}
+
+export async function listSessions(brandId: number, userId: number, input: SessionHistoryInput) {
+  await findUser(brandId, userId);
+  const limit = input.limit ?? DEFAULT_PAGE_SIZE;
+  const now = new Date();
+
+  const rows = await prisma.casinoGameSession.findMany({
+    where: {
+      casinoUserId: userId,
+      casinoGameId: input.gameId,
+      createdAt: { gte: input.from, lt: input.to },
+      ...(input.currency && { casinoWallet: { currencyCode: input.currency } }),
+      ...sessionStatusFilter(input.status, now),
+      ...(input.cursor && { id: { lt: input.cursor } }),
+    },
+    include: {
+      casinoWallet: { select: { currencyCode: true } },
+      casinoGame: { select: { casinoGameProvider: { select: { code: true } } } },
+    },
+    orderBy: { id: "desc" },
+    take: limit + 1,
+  });
+  const { items, nextCursor } = page(rows, limit);
+
+  const sessionIds = items.map((session) => session.id);
+  const [totals, rounds] = await Promise.all([
+    prisma.casinoTransaction.groupBy({
+      by: ["casinoGameSessionId", "transactionType"],
+      where: { casinoGameSessionId: { in: sessionIds } },
+      _sum: { amount: true },
+    }),
+    prisma.casinoRound.groupBy({
+      by: ["casinoGameSessionId"],
+      where: { casinoGameSessionId: { in: sessionIds } },
+      _count: { _all: true },
+    }),
+  ]);
+  const total = (sessionId: number, type: string) =>
+    (
+      totals.find((row) => row.casinoGameSessionId === sessionId && row.transactionType === type)?._sum.amount ??
+      BigInt(0)
+    ).toString();
+
+  return {
+    userId,
+    sessions: items.map((session) => ({
+      sessionId: session.id,
+      gameId: session.casinoGameId,
+      providerCode: session.casinoGame.casinoGameProvider.code,
+      currency: session.casinoWallet.currencyCode,
+      status: sessionStatus(session, now),
+      roundCount: rounds.find((row) => row.casinoGameSessionId === session.id)?._count._all ?? 0,
+      totalBet: total(session.id, "debit"),
+      totalWin: total(session.id, "credit"),
+      totalRollback: total(session.id, "rollback"),
+      createdAt: session.createdAt,
+      expiresAt: session.expiresAt,
+      closedAt: session.closedAt,
+    })),
+    nextCursor,
+  };
+}
+
+// ─── Statements ──────────────────────────────────────────────────
+
+/** A wallet's balance at `at`, from its ledger account (see casino.ledger.ts). */
+async function ledgerBalanceAt(walletId: number, at: Date) {
+  const sum = await prisma.casinoLedgerEntry.aggregate({
+    where: { casinoLedgerAccount: { casinoWalletId: walletId }, createdAt: { lt: at } },
+    _sum: { amount: true },
+  });
+  return sum._sum.amount ?? BigInt(0);
+}
+
+/**
+ * Every transaction in [from, to), oldest first, with opening and closing
+ * balances per wallet. Balances come from the ledger, so movements that are
+ * not game transactions (bonus grants, opening deposits) are accounted for
+ * in `otherMovements`.
+ */
+export async function getStatement(brandId: number, userId: number, input: StatementInput) {
+  await findUser(brandId, userId);
+  const from = new Date(input.from);
+  const to = new Date(input.to);
+
+  const wallets = await prisma.casinoWallet.findMany({
+    where: { casinoUserId: userId, currencyCode: input.currency },
+    orderBy: { id: "asc" },
+  });
+  if (input.currency && wallets.length === 0) {
+    throw new NotFoundError("WALLET_NOT_FOUND", "Wallet not found for the requested currency");
+  }
+
+  const transactions = await prisma.casinoTransaction.findMany({
+    where: { casinoWalletId: { in: wallets.map((wallet) => wallet.id) }, createdAt: { gte: from, lt: to } },
+    include: TRANSACTION_INCLUDE,
+    orderBy: { id: "asc" },
+  });
+
+  const walletSummaries = await Promise.all(
+    wallets.map(async (wallet) => {
+      const [openingBalance, closingBalance] = await Promise.all([
+        ledgerBalanceAt(wallet.id, from),
+        ledgerBalanceAt(wallet.id, to),
+      ]);
+      const sum = (type: string) =>
+        transactions
+          .filter((transaction) => transaction.casinoWalletId === wallet.id && transaction.transactionType === type)
+          .reduce((total, transaction) => total + transaction.amount, BigInt(0));
+      const totalBet = sum("debit");
+      const totalWin = sum("credit");
+      const totalRollback = sum("rollback");
+      const otherMovements = closingBalance - openingBalance - (totalWin + totalRollback - totalBet);
+
+      return {
+        currency: wallet.currencyCode,
+        openingBalance: openingBalance.toString(),
+        totalBet: totalBet.toString(),
+        totalWin: totalWin.toString(),
+        totalRollback: totalRollback.toString(),
+        otherMovements: otherMovements.toString(),
+        closingBalance: closingBalance.toString(),
+      };
+    })
+  );
+
+  console.info("Statement generated", { userId, from: input.from, to: input.to, rows: transactions.length });
+
+  return {
+    userId,
+    from,
+    to,
+    wallets: walletSummaries,
+    transactions: transactions.map(serializeTransaction),
+  };
+}
+
+type Statement = Awaited<ReturnType<typeof getStatement>>;
+type StatementRow = Statement["transactions"][number];
+
+/** The statement's transactions as CSV, one row each; amounts in minor units. */
+export function statementCsv(statement: Statement): string {
+  return toCsv<StatementRow>(
+    [
+      { header: "created_at", value: (row) => row.createdAt },
+      { header: "transaction_id", value: (row) => row.transactionId },
+      { header: "type", value: (row) => row.type },
+      { header: "currency", value: (row) => row.currency },
+      { header: "amount", value: (row) => row.amount },
+      { header: "cash_amount", value: (row) => row.cashAmount },
+      { header: "bonus_amount", value: (row) => row.bonusAmount },
+      { header: "balance_before", value: (row) => row.balanceBefore },
+      { header: "balance_after", value: (row) => row.balanceAfter },
+      { header: "game_id", value: (row) => row.gameId },
+      { header: "provider_code", value: (row) => row.providerCode },
+      { header: "session_id", value: (row) => row.sessionId },
+      { header: "round_id", value: (row) => row.roundId },
+      { header: "related_transaction_id", value: (row) => row.relatedTransactionId },
+      { header: "campaign_id", value: (row) => row.campaignId },
+    ],
+    statement.transactions
+  );
+}
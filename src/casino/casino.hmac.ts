@@ -1,27 +1,53 @@
-import { Request, Response, NextFunction } from "express";
-import { verifySignature } from "../lib/hmac";
+import { Request, RequestHandler, Response, NextFunction } from "express";
+import { prisma } from "../db";
+import { asyncHandler, UnauthorizedError } from "../lib/errors";
+import { verifyRequestSignature } from "../lib/hmac";
 
-export function verifyCasinoSignature(
-  req: Request,
-  res: Response,
-  next: NextFunction
-): void {
-  const secret = process.env.CASINO_SECRET;
-  if (!secret) {
-    console.error("CASINO_SECRET not configured");
-    res.status(500).json({ error: "Server misconfiguration" });
+/**
+ * Provider callbacks identify the caller with `x-provider-code` and are
+ * verified against that provider's currently valid inbound keys. The
+ * callback then acts for the brand that owns the integration.
+ */
+export const verifyCasinoSignature: RequestHandler = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const providerCode = req.header("x-provider-code");
+  if (!providerCode) {
+    console.warn("Missing provider code", { path: req.path, ip: req.ip });
+    next(new UnauthorizedError("UNAUTHORIZED", "Missing x-provider-code header"));
     return;
   }
 
-  const signature = req.header("x-casino-signature");
-  if (!verifySignature(signature, req.body, secret)) {
+  const now = new Date();
+  const provider = await prisma.casinoGameProvider.findUnique({
+    where: { code: providerCode },
+    include: {
+      casinoGameProviderKeys: {
+        where: {
+          validFrom: { lte: now },
+          OR: [{ validUntil: null }, { validUntil: { gt: now } }],
+        },
+      },
+    },
+  });
+
+  const secrets = provider?.casinoGameProviderKeys.map((key) => key.secret) ?? [];
+  const failureReason = !provider
+    ? "unknown provider"
+    : secrets.length === 0
+      ? "no valid keys"
+      : verifyRequestSignature(req, "x-casino-signature", secrets, `casino:${provider.code}`);
+
+  if (!provider || failureReason) {
     console.warn("Invalid casino signature", {
       path: req.path,
       ip: req.ip,
+      providerCode,
+      reason: failureReason,
     });
-    res.status(401).json({ error: "Invalid signature" });
+    next(new UnauthorizedError("INVALID_SIGNATURE", "Invalid signature"));
     return;
   }
 
+  res.locals.casinoGameProvider = { id: provider.id, code: provider.code };
+  res.locals.brandId = provider.brandId;
   next();
-}
+});
@@ -0,0 +1,239 @@
+import { randomUUID } from "crypto";
+import { Prisma } from "@prisma/client";
+import { AppError } from "../lib/errors";
+
+/**
+ * Double-entry ledger for casino wallets. Every balance change posts one
+ * journal whose entries sum to zero: money leaving a wallet lands in the
+ * game's account and vice versa. A wallet's balance is therefore always the
+ * sum of its account's entries, which is what `reconcileLedger` checks.
+ *
+ * Entries are only ever inserted; nothing in the codebase updates or deletes
+ * them.
+ */
+
+type LedgerClient = Prisma.TransactionClient;
+
+export type LedgerEntryType = "opening" | "debit" | "credit" | "rollback" | "bonus_grant";
+
+// ─── Accounts ────────────────────────────────────────────────────
+
+// Accounts are created on first use. The upsert is a single
+// INSERT … ON CONFLICT, so concurrent first posts cannot collide.
+async function findOrCreateAccount(
+  client: LedgerClient,
+  code: string,
+  data: { accountType: string; currencyCode: string; casinoWalletId?: number }
+) {
+  return client.casinoLedgerAccount.upsert({
+    where: { code },
+    create: { code, ...data },
+    update: {},
+  });
+}
+
+function walletAccount(client: LedgerClient, wallet: { id: number; currencyCode: string }) {
+  return findOrCreateAccount(client, `wallet:${wallet.id}`, {
+    accountType: "wallet",
+    currencyCode: wallet.currencyCode,
+    casinoWalletId: wallet.id,
+  });
+}
+
+function gameAccount(client: LedgerClient, casinoGameId: number, currencyCode: string) {
+  return findOrCreateAccount(client, `game:${casinoGameId}:${currencyCode}`, {
+    accountType: "game",
+    currencyCode,
+  });
+}
+
+function houseAccount(client: LedgerClient, currencyCode: string) {
+  return findOrCreateAccount(client, `house:${currencyCode}`, {
+    accountType: "house",
+    currencyCode,
+  });
+}
+
+function bonusAccount(client: LedgerClient, currencyCode: string) {
+  return findOrCreateAccount(client, `bonus:${currencyCode}`, {
+    accountType: "bonus",
+    currencyCode,
+  });
+}
+
+// ─── Posting ─────────────────────────────────────────────────────
+
+async function postJournal(
+  client: LedgerClient,
+  entryType: LedgerEntryType,
+  casinoTransactionId: number | null,
+  entries: Array<{ accountId: number; amount: bigint }>
+) {
+  const total = entries.reduce((sum, entry) => sum + entry.amount, BigInt(0));
+  if (total !== BigInt(0)) {
+    throw new Error(`Unbalanced ${entryType} journal: entries sum to ${total}`);
+  }
+
+  const journalId = randomUUID();
+  await client.casinoLedgerEntry.createMany({
+    data: entries.map((entry) => ({
+      journalId,
+      casinoLedgerAccountId: entry.accountId,
+      casinoTransactionId,
+      entryType,
+      amount: entry.amount,
+    })),
+  });
+  return journalId;
+}
+
+/**
+ * Posts a wallet movement against the game it happened in: a debit moves
+ * money from the wallet to the game, a credit or rollback moves it back.
+ * Zero-amount movements (a settled loss, a tombstone) post nothing.
+ */
+export async function postWalletMovement(
+  client: LedgerClient,
+  movement: {
+    wallet: { id: number; currencyCode: string };
+    casinoGameId: number;
+    casinoTransactionId: number;
+    entryType: "debit" | "credit" | "rollback";
+    amount: bigint;
+  }
+) {
+  if (movement.amount === BigInt(0)) return null;
+
+  const wallet = await walletAccount(client, movement.wallet);
+  const game = await gameAccount(client, movement.casinoGameId, movement.wallet.currencyCode);
+  const walletDelta = movement.entryType === "debit" ? -movement.amount : movement.amount;
+
+  return postJournal(client, movement.entryType, movement.casinoTransactionId, [
+    { accountId: wallet.id, amount: walletDelta },
+    { accountId: game.id, amount: -walletDelta },
+  ]);
+}
+
+/** Funds a wallet from the house account, e.g. the balance it was created with. */
+export async function postOpeningBalance(
+  client: LedgerClient,
+  wallet: { id: number; currencyCode: string },
+  amount: bigint
+) {
+  if (amount === BigInt(0)) return null;
+
+  const account = await walletAccount(client, wallet);
+  const house = await houseAccount(client, wallet.currencyCode);
+  return postJournal(client, "opening", null, [
+    { accountId: account.id, amount },
+    { accountId: house.id, amount: -amount },
+  ]);
+}
+
+/** Funds a bonus grant from the casino's bonus account. */
+export async function postBonusGrant(
+  client: LedgerClient,
+  wallet: { id: number; currencyCode: string },
+  amount: bigint
+) {
+  const account = await walletAccount(client, wallet);
+  const bonus = await bonusAccount(client, wallet.currencyCode);
+  return postJournal(client, "bonus_grant", null, [
+    { accountId: account.id, amount },
+    { accountId: bonus.id, amount: -amount },
+  ]);
+}
+
+// ─── Balances ────────────────────────────────────────────────────
+
+export async function ledgerBalance(client: LedgerClient, walletId: number): Promise<bigint> {
+  const result = await client.casinoLedgerEntry.aggregate({
+    where: { casinoLedgerAccount: { code: `wallet:${walletId}` } },
+    _sum: { amount: true },
+  });
+  return result._sum.amount ?? BigInt(0);
+}
+
+/**
+ * Runs inside the wallet transaction after posting: if the stored balance no
+ * longer equals the ledger, the whole movement is rolled back instead of
+ * widening the gap.
+ */
+export async function assertWalletMatchesLedger(
+  client: LedgerClient,
+  walletId: number,
+  storedBalance: bigint
+) {
+  const derived = await ledgerBalance(client, walletId);
+  if (derived !== storedBalance) {
+    console.error("Wallet balance differs from ledger", {
+      walletId,
+      stored: storedBalance.toString(),
+      ledger: derived.toString(),
+    });
+    throw new AppError(500, "LEDGER_MISMATCH", "Wallet balance does not match the ledger", {
+      walletId,
+    });
+  }
+}
+
+// ─── Reconciliation ──────────────────────────────────────────────
+
+export interface LedgerDiscrepancy {
+  walletId: number;
+  currency: string;
+  storedBalance: string;
+  ledgerBalance: string;
+  difference: string;
+}
+
+/**
+ * Compares every wallet with the sum of its ledger entries and checks that
+ * every journal balances. Read-only.
+ */
+export async function reconcileLedger(client: LedgerClient) {
+  const wallets = await client.casinoWallet.findMany({ orderBy: { id: "asc" } });
+  const sums = await client.casinoLedgerEntry.groupBy({
+    by: ["casinoLedgerAccountId"],
+    _sum: { amount: true },
+  });
+  const accounts = await client.casinoLedgerAccount.findMany({
+    where: { accountType: "wallet" },
+  });
+
+  const sumByAccount = new Map(
+    sums.map((sum) => [sum.casinoLedgerAccountId, sum._sum.amount ?? BigInt(0)])
+  );
+  const accountByWallet = new Map(accounts.map((account) => [account.casinoWalletId, account.id]));
+
+  const mismatchedWallets: LedgerDiscrepancy[] = [];
+  for (const wallet of wallets) {
+    const accountId = accountByWallet.get(wallet.id);
+    const derived = (accountId !== undefined && sumByAccount.get(accountId)) || BigInt(0);
+    if (derived !== wallet.playableBalance) {
+      mismatchedWallets.push({
+        walletId: wallet.id,
+        currency: wallet.currencyCode,
+        storedBalance: wallet.playableBalance.toString(),
+        ledgerBalance: derived.toString(),
+        difference: (wallet.playableBalance - derived).toString(),
+      });
+    }
+  }
+
+  const unbalancedJournals = await client.$queryRaw<Array<{ journal_id: string; total: bigint }>>`
+    SELECT journal_id, SUM(amount) AS total
+    FROM casino_ledger_entries
+    GROUP BY journal_id
+    HAVING SUM(amount) <> 0
+  `;
+
+  return {
+    walletsChecked: wallets.length,
+    mismatchedWallets,
+    unbalancedJournals: unbalancedJournals.map((j) => ({
+      journalId: j.journal_id,
+      total: j.total.toString(),
+    })),
+  };
+}
@@ -0,0 +1,146 @@
+import { Prisma } from "@prisma/client";
+import { ForbiddenError } from "../lib/errors";
+
+/**
+ * Responsible-gaming checks. Loss and wager limits are per user, currency and
+ * calendar period (UTC day, ISO week starting Monday, month); a stake is
+ * refused if it could take the period over its limit. Session duration caps
+ * how long a single game session can keep placing bets.
+ */
+
+type LimitsClient = Prisma.TransactionClient;
+
+export type LimitType = "loss" | "wager" | "session_duration";
+export type LimitPeriod = "day" | "week" | "month";
+
+const DEFAULT_LIMIT_INCREASE_DELAY_HOURS = 24;
+
+export function limitIncreaseDelayMs(): number {
+  const configured = Number(process.env.RG_LIMIT_INCREASE_DELAY_HOURS);
+  const hours = configured > 0 ? configured : DEFAULT_LIMIT_INCREASE_DELAY_HOURS;
+  return hours * 60 * 60 * 1000;
+}
+
+export function limitKey(limitType: LimitType, period?: LimitPeriod, currencyCode?: string) {
+  return limitType === "session_duration" ? limitType : `${limitType}:${period}:${currencyCode}`;
+}
+
+/** The value in force at `now`, after any pending change that has matured. null = no limit. */
+export function effectiveLimit(
+  limit: { amount: bigint; pendingAmount: bigint | null; pendingEffectiveAt: Date | null },
+  now = new Date()
+): bigint | null {
+  if (limit.pendingEffectiveAt && limit.pendingEffectiveAt <= now) return limit.pendingAmount;
+  return limit.amount;
+}
+
+export function periodStart(period: LimitPeriod, now = new Date()): Date {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  if (period === "week") {
+    const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+    start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+  } else if (period === "month") {
+    start.setUTCDate(1);
+  }
+  return start;
+}
+
+// ─── Exclusions ──────────────────────────────────────────────────
+
+export async function activeExclusion(client: LimitsClient, userId: number, now = new Date()) {
+  return client.casinoUserExclusion.findFirst({
+    where: {
+      casinoUserId: userId,
+      startsAt: { lte: now },
+      OR: [{ endsAt: null }, { endsAt: { gt: now } }],
+    },
+    orderBy: { endsAt: { sort: "desc", nulls: "first" } },
+  });
+}
+
+export async function assertNotExcluded(client: LimitsClient, userId: number) {
+  const exclusion = await activeExclusion(client, userId);
+  if (exclusion) {
+    throw new ForbiddenError("SELF_EXCLUDED", "Player is excluded from play", {
+      exclusionType: exclusion.exclusionType,
+      until: exclusion.endsAt,
+    });
+  }
+}
+
+// ─── Limits ──────────────────────────────────────────────────────
+
+// Net amounts on the wallet since `since`: everything staked (less refunds)
+// and what was lost (stakes less refunds and winnings).
+async function periodTotals(client: LimitsClient, walletId: number, since: Date) {
+  const sums = await client.casinoTransaction.groupBy({
+    by: ["transactionType"],
+    where: { casinoWalletId: walletId, createdAt: { gte: since } },
+    _sum: { amount: true },
+  });
+  const total = (type: string) =>
+    sums.find((sum) => sum.transactionType === type)?._sum.amount ?? BigInt(0);
+
+  const wagered = total("debit") - total("rollback");
+  return { wagered, lost: wagered - total("credit") };
+}
+
+/**
+ * Runs inside the debit's wallet transaction, after the wallet lock, so
+ * concurrent stakes on the wallet are counted one after the other.
+ */
+export async function assertWithinLimits(
+  client: LimitsClient,
+  check: {
+    userId: number;
+    walletId: number;
+    currencyCode: string;
+    stake: bigint;
+    sessionStartedAt: Date;
+  }
+) {
+  const now = new Date();
+  const limits = await client.casinoUserLimit.findMany({
+    where: {
+      casinoUserId: check.userId,
+      OR: [{ currencyCode: check.currencyCode }, { limitType: "session_duration" }],
+    },
+  });
+
+  const totalsByPeriod = new Map<LimitPeriod, Awaited<ReturnType<typeof periodTotals>>>();
+  for (const limit of limits) {
+    const amount = effectiveLimit(limit, now);
+    if (amount === null) continue;
+
+    if (limit.limitType === "session_duration") {
+      const minutesPlayed = Math.floor((now.getTime() - check.sessionStartedAt.getTime()) / 60_000);
+      if (BigInt(minutesPlayed) >= amount) {
+        throw new ForbiddenError("RESPONSIBLE_GAMING_LIMIT", "Session time limit reached", {
+          limitType: limit.limitType,
+          limit: amount.toString(),
+          used: minutesPlayed.toString(),
+        });
+      }
+      continue;
+    }
+
+    const period = limit.period as LimitPeriod;
+    let totals = totalsByPeriod.get(period);
+    if (!totals) {
+      totals = await periodTotals(client, check.walletId, periodStart(period, now));
+      totalsByPeriod.set(period, totals);
+    }
+
+    // Assume the stake is lost: that is the most it can add to either total.
+    const used = limit.limitType === "loss" ? totals.lost : totals.wagered;
+    if (used + check.stake > amount) {
+      throw new ForbiddenError("RESPONSIBLE_GAMING_LIMIT", `${period} ${limit.limitType} limit reached`, {
+        limitType: limit.limitType,
+        period,
+        currency: check.currencyCode,
+        limit: amount.toString(),
+        used: used.toString(),
+      });
+    }
+  }
+}
@@ -0,0 +1,687 @@
+import {
+  keyWindowSchema,
+  keyResponseSchema,
+  newKeyResponseSchema,
+  outboundSecretSchema,
+  retireKeySchema,
+} from "../lib/keys";
+import { RouteSpec } from "../lib/openapi";
+import {
+  balanceResponseSchema,
+  bonusResponseSchema,
+  closeSessionResponseSchema,
+  closeSessionSchema,
+  convertBonusResponseSchema,
+  convertBonusSchema,
+  createFreeSpinsSchema,
+  createGameSchema,
+  creditSchema,
+  debitSchema,
+  discrepanciesResponseSchema,
+  discrepancyParamsSchema,
+  discrepancyResponseSchema,
+  exclusionResponseSchema,
+  freeSpinsResponseSchema,
+  gameParamsSchema,
+  gameResponseSchema,
+  gamesResponseSchema,
+  gameSyncResponseSchema,
+  getBalanceSchema,
+  getLimitsResponseSchema,
+  getLimitsSchema,
+  getRoundSchema,
+  grantBonusSchema,
+  launchGameResponseSchema,
+  launchGameSchema,
+  limitResponseSchema,
+  loginSchema,
+  logoutResponseSchema,
+  openWalletSchema,
+  providerGamesParamsSchema,
+  providerKeyParamsSchema,
+  providerKeysParamsSchema,
+  providerKeysResponseSchema,
+  providerOutboundSecretResponseSchema,
+  providerReconciliationParamsSchema,
+  providerRoundParamsSchema,
+  providerStatusResponseSchema,
+  reconcileProviderSchema,
+  reconciliationReportResponseSchema,
+  refreshTokenSchema,
+  reportRefreshResponseSchema,
+  resolveDiscrepancySchema,
+  revenueReportResponseSchema,
+  revenueReportSchema,
+  rollbackSchema,
+  roundResponseSchema,
+  selfExcludeSchema,
+  sessionHistoryResponseSchema,
+  sessionHistorySchema,
+  setLimitSchema,
+  setPasswordResponseSchema,
+  setPasswordSchema,
+  simulateRoundResponseSchema,
+  simulateRoundSchema,
+  statementResponseSchema,
+  statementSchema,
+  tokenResponseSchema,
+  transactionHistoryResponseSchema,
+  transactionHistorySchema,
+  updateGameSchema,
+  userBonusesParamsSchema,
+  userBonusesResponseSchema,
+  userFreeSpinsParamsSchema,
+  userFreeSpinsResponseSchema,
+  userHistoryParamsSchema,
+  userPasswordParamsSchema,
+  userWalletsParamsSchema,
+  userWalletsResponseSchema,
+  walletResponseSchema,
+  walletTransactionResponseSchema,
+} from "./casino.schemas";
+
+const HISTORY_PAGING =
+  "Pages hold up to `limit` rows (default 50); pass `nextCursor` back as `cursor` until it is " +
+  "null. Rows written meanwhile are newer than the first page and never shift later pages.";
+
+const STATEMENT_DESCRIPTION =
+  "Every transaction in `[from, to)` (at most 366 days), oldest first, with opening and closing " +
+  "balances per wallet. With `format: csv` the transactions are returned as a `text/csv` download.";
+
+// One entry per route in casino.routes.ts; `pnpm check:openapi` fails on a missing one.
+export const casinoRouteSpecs: RouteSpec[] = [
+  // ─── Player auth ─────────────────────────────────────────────
+  {
+    method: "post",
+    path: "/casino/auth/login",
+    tag: "Casino: player auth",
+    summary: "Log a player in with username and password",
+    description:
+      "Returns a short-lived access token for `Authorization: Bearer` on the client routes, " +
+      "and a refresh token for `/casino/auth/refresh`.",
+    auth: "none",
+    brand: true,
+    body: loginSchema,
+    response: tokenResponseSchema,
+    errors: { 401: ["INVALID_CREDENTIALS"] },
+  },
+  {
+    method: "post",
+    path: "/casino/auth/refresh",
+    tag: "Casino: player auth",
+    summary: "Exchange a refresh token for a new access and refresh token",
+    description:
+      "The refresh token is single-use. Presenting one that was already used revokes every " +
+      "refresh token of that player.",
+    auth: "none",
+    brand: true,
+    body: refreshTokenSchema,
+    response: tokenResponseSchema,
+    errors: { 401: ["INVALID_TOKEN"] },
+  },
+  {
+    method: "post",
+    path: "/casino/auth/logout",
+    tag: "Casino: player auth",
+    summary: "Revoke a refresh token",
+    description: "Access tokens already issued stay valid until they expire.",
+    auth: "none",
+    brand: true,
+    body: refreshTokenSchema,
+    response: logoutResponseSchema,
+  },
+
+  // ─── Client ──────────────────────────────────────────────────
+  {
+    method: "post",
+    path: "/casino/launchGame",
+    tag: "Casino: client",
+    summary: "Open a game session and launch it at the provider",
+    auth: "player",
+    body: launchGameSchema,
+    response: launchGameResponseSchema,
+    errors: {
+      400: ["PROVIDER_DISABLED"],
+      403: ["SELF_EXCLUDED"],
+      404: ["USER_NOT_FOUND", "WALLET_NOT_FOUND", "GAME_NOT_FOUND"],
+      502: ["UPSTREAM_ERROR"],
+      503: ["PROVIDER_UNAVAILABLE"],
+    },
+  },
+  {
+    method: "post",
+    path: "/casino/simulateRound",
+    tag: "Casino: client",
+    summary: "Launch a session and run the scripted provider simulation",
+    auth: "player",
+    body: simulateRoundSchema,
+    response: simulateRoundResponseSchema,
+    errors: {
+      400: ["PROVIDER_DISABLED"],
+      403: ["SELF_EXCLUDED"],
+      404: ["USER_NOT_FOUND", "WALLET_NOT_FOUND", "GAME_NOT_FOUND"],
+      502: ["UPSTREAM_ERROR"],
+      503: ["PROVIDER_UNAVAILABLE"],
+    },
+  },
+  {
+    method: "post",
+    path: "/casino/closeSession",
+    tag: "Casino: client",
+    summary: "Close a game session and notify the provider",
+    auth: "player",
+    body: closeSessionSchema,
+    response: closeSessionResponseSchema,
+    errors: { 404: ["SESSION_NOT_FOUND"] },
+  },
+  {
+    method: "post",
+    path: "/casino/convertBonus",
+    tag: "Casino: client",
+    summary: "Convert the bonus portion to cash once wagering is met",
+    auth: "player",
+    body: convertBonusSchema,
+    response: convertBonusResponseSchema,
+    errors: {
+      404: ["USER_NOT_FOUND", "WALLET_NOT_FOUND", "BONUS_NOT_FOUND"],
+      409: ["WAGERING_NOT_MET"],
+    },
+  },
+  {
+    method: "post",
+    path: "/casino/setLimit",
+    tag: "Casino: client",
+    summary: "Set, lower, raise or remove a responsible-gaming limit",
+    description:
+      "Lowering or adding a limit applies at once. Raising or removing one (`amount: null`) is " +
+      "returned under `pending` and applies after `RG_LIMIT_INCREASE_DELAY_HOURS`.",
+    auth: "player",
+    body: setLimitSchema,
+    response: limitResponseSchema,
+    errors: { 404: ["USER_NOT_FOUND"] },
+  },
+  {
+    method: "post",
+    path: "/casino/getLimits",
+    tag: "Casino: client",
+    summary: "A player's limits and any exclusion in force",
+    auth: "player",
+    body: getLimitsSchema,
+    response: getLimitsResponseSchema,
+    errors: { 404: ["USER_NOT_FOUND"] },
+  },
+  {
+    method: "post",
+    path: "/casino/getTransactions",
+    tag: "Casino: client",
+    summary: "The player's transactions, newest first, filtered by period, game, type, round or currency",
+    description: HISTORY_PAGING,
+    auth: "player",
+    body: transactionHistorySchema,
+    response: transactionHistoryResponseSchema,
+    errors: { 404: ["USER_NOT_FOUND"] },
+  },
+  {
+    method: "post",
+    path: "/casino/getSessions",
+    tag: "Casino: client",
+    summary: "The player's game sessions with their totals, newest first",
+    description: HISTORY_PAGING,
+    auth: "player",
+    body: sessionHistorySchema,
+    response: sessionHistoryResponseSchema,
+    errors: { 404: ["USER_NOT_FOUND"] },
+  },
+  {
+    method: "post",
+    path: "/casino/getRound",
+    tag: "Casino: client",
+    summary: "One of the player's rounds with each debit, credit and rollback and its balances",
+    auth: "player",
+    body: getRoundSchema,
+    response: roundResponseSchema,
+    errors: { 404: ["ROUND_NOT_FOUND"] },
+  },
+  {
+    method: "post",
+    path: "/casino/getStatement",
+    tag: "Casino: client",
+    summary: "The player's statement for a period, as JSON or CSV",
+    description: STATEMENT_DESCRIPTION,
+    auth: "player",
+    body: statementSchema,
+    response: statementResponseSchema,
+    csv: true,
+    errors: { 404: ["USER_NOT_FOUND", "WALLET_NOT_FOUND"] },
+  },
+  {
+    method: "post",
+    path: "/casino/selfExclude",
+    tag: "Casino: client",
+    summary: "Start a self-exclusion or cool-off period",
+    description: "Cannot be lifted early. Omitting `durationDays` on a self-exclusion makes it indefinite.",
+    auth: "player",
+    body: selfExcludeSchema,
+    response: exclusionResponseSchema,
+    successStatus: 201,
+    errors: { 404: ["USER_NOT_FOUND"] },
+  },
+
+  // ─── Admin ───────────────────────────────────────────────────
+  {
+    method: "post",
+    path: "/casino/admin/wallets",
+    tag: "Casino: admin",
+    summary: "Open a wallet in a new currency for a user",
+    auth: "admin",
+    brand: true,
+    body: openWalletSchema,
+    response: walletResponseSchema,
+    successStatus: 201,
+    errors: { 404: ["USER_NOT_FOUND"], 409: ["WALLET_EXISTS"] },
+  },
+  {
+    method: "get",
+    path: "/casino/admin/users/:userId/wallets",
+    tag: "Casino: admin",
+    summary: "List a user's wallets",
+    auth: "admin",
+    brand: true,
+    params: userWalletsParamsSchema,
+    response: userWalletsResponseSchema,
+    errors: { 404: ["USER_NOT_FOUND"] },
+  },
+  {
+    method: "get",
+    path: "/casino/admin/users/:userId/transactions",
+    tag: "Casino: admin",
+    summary: "A user's transactions, newest first, filtered by period, game, type, round or currency",
+    description: HISTORY_PAGING,
+    auth: "admin",
+    brand: true,
+    params: userHistoryParamsSchema,
+    query: transactionHistorySchema,
+    response: transactionHistoryResponseSchema,
+    errors: { 404: ["USER_NOT_FOUND"] },
+  },
+  {
+    method: "get",
+    path: "/casino/admin/users/:userId/sessions",
+    tag: "Casino: admin",
+    summary: "A user's game sessions with their totals, newest first",
+    description: HISTORY_PAGING,
+    auth: "admin",
+    brand: true,
+    params: userHistoryParamsSchema,
+    query: sessionHistorySchema,
+    response: sessionHistoryResponseSchema,
+    errors: { 404: ["USER_NOT_FOUND"] },
+  },
+  {
+    method: "get",
+    path: "/casino/admin/users/:userId/statement",
+    tag: "Casino: admin",
+    summary: "A user's statement for a period, as JSON or CSV",
+    description: STATEMENT_DESCRIPTION,
+    auth: "admin",
+    brand: true,
+    params: userHistoryParamsSchema,
+    query: statementSchema,
+    response: statementResponseSchema,
+    csv: true,
+    errors: { 404: ["USER_NOT_FOUND", "WALLET_NOT_FOUND"] },
+  },
+  {
+    method: "post",
+    path: "/casino/admin/users/:userId/password",
+    tag: "Casino: admin",
+    summary: "Set a player's password and revoke their refresh tokens",
+    auth: "admin",
+    brand: true,
+    params: userPasswordParamsSchema,
+    body: setPasswordSchema,
+    response: setPasswordResponseSchema,
+    errors: { 404: ["USER_NOT_FOUND"] },
+  },
+  {
+    method: "post",
+    path: "/casino/admin/bonuses",
+    tag: "Casino: admin",
+    summary: "Grant bonus funds with a wagering requirement",
+    description: "The requirement is `amount × wageringMultiplier` in stakes.",
+    auth: "admin",
+    brand: true,
+    body: grantBonusSchema,
+    response: bonusResponseSchema,
+    successStatus: 201,
+    errors: {
+      404: ["USER_NOT_FOUND", "WALLET_NOT_FOUND"],
+      409: ["BONUS_ACTIVE"],
+      500: ["LEDGER_MISMATCH"],
+    },
+  },
+  {
+    method: "get",
+    path: "/casino/admin/users/:userId/bonuses",
+    tag: "Casino: admin",
+    summary: "List a user's bonus grants and wagering progress",
+    auth: "admin",
+    brand: true,
+    params: userBonusesParamsSchema,
+    response: userBonusesResponseSchema,
+    errors: { 404: ["USER_NOT_FOUND"] },
+  },
+  {
+    method: "post",
+    path: "/casino/admin/freeSpins",
+    tag: "Casino: admin",
+    summary: "Create a free-spin campaign and register it with the provider",
+    description: "If the provider refuses the campaign it is kept as `cancelled` and 502 is returned.",
+    auth: "admin",
+    brand: true,
+    body: createFreeSpinsSchema,
+    response: freeSpinsResponseSchema,
+    successStatus: 201,
+    errors: {
+      400: ["PROVIDER_DISABLED", "BET_LIMIT"],
+      404: ["USER_NOT_FOUND", "WALLET_NOT_FOUND", "GAME_NOT_FOUND"],
+      502: ["UPSTREAM_ERROR"],
+      503: ["PROVIDER_UNAVAILABLE"],
+    },
+  },
+  {
+    method: "get",
+    path: "/casino/admin/users/:userId/freeSpins",
+    tag: "Casino: admin",
+    summary: "List a user's free-spin campaigns with rounds left and winnings",
+    auth: "admin",
+    brand: true,
+    params: userFreeSpinsParamsSchema,
+    response: userFreeSpinsResponseSchema,
+    errors: { 404: ["USER_NOT_FOUND"] },
+  },
+  {
+    method: "post",
+    path: "/casino/admin/providers/:providerCode/keys",
+    tag: "Casino: admin",
+    summary: "Add an inbound signing key for a provider",
+    description: "The secret is returned once and never listed again.",
+    auth: "admin",
+    brand: true,
+    params: providerKeysParamsSchema,
+    body: keyWindowSchema,
+    response: newKeyResponseSchema,
+    successStatus: 201,
+    errors: { 404: ["PROVIDER_NOT_FOUND"] },
+  },
+  {
+    method: "get",
+    path: "/casino/admin/providers/:providerCode/keys",
+    tag: "Casino: admin",
+    summary: "List a provider's inbound signing keys",
+    auth: "admin",
+    brand: true,
+    params: providerKeysParamsSchema,
+    response: providerKeysResponseSchema,
+    errors: { 404: ["PROVIDER_NOT_FOUND"] },
+  },
+  {
+    method: "post",
+    path: "/casino/admin/providers/:providerCode/keys/:keyId/retire",
+    tag: "Casino: admin",
+    summary: "Retire a provider signing key now or at a given time",
+    auth: "admin",
+    brand: true,
+    params: providerKeyParamsSchema,
+    body: retireKeySchema,
+    response: keyResponseSchema,
+    errors: { 404: ["PROVIDER_NOT_FOUND", "KEY_NOT_FOUND"] },
+  },
+  {
+    method: "post",
+    path: "/casino/admin/providers/:providerCode/outboundSecret",
+    tag: "Casino: admin",
+    summary: "Replace the secret calls to a provider are signed with",
+    description:
+      "Use a key the provider already accepts (`/provider/admin/casinos/:casinoCode/keys`). The secret is not returned.",
+    auth: "admin",
+    brand: true,
+    params: providerKeysParamsSchema,
+    body: outboundSecretSchema,
+    response: providerOutboundSecretResponseSchema,
+    errors: { 404: ["PROVIDER_NOT_FOUND"] },
+  },
+  {
+    method: "get",
+    path: "/casino/admin/providers/status",
+    tag: "Casino: admin",
+    summary: "Show each provider's circuit breaker state",
+    description:
+      "Breakers are kept per server process. `isDisabled` is the manual switch and is independent of the breaker.",
+    auth: "admin",
+    brand: true,
+    response: providerStatusResponseSchema,
+  },
+  {
+    method: "get",
+    path: "/casino/admin/games",
+    tag: "Casino: admin",
+    summary: "List every game, active or not, with its provider and bet limits",
+    auth: "admin",
+    brand: true,
+    response: gamesResponseSchema,
+  },
+  {
+    method: "post",
+    path: "/casino/admin/games",
+    tag: "Casino: admin",
+    summary: "Map a provider's game to a new casino game",
+    auth: "admin",
+    brand: true,
+    body: createGameSchema,
+    response: gameResponseSchema,
+    successStatus: 201,
+    errors: { 404: ["PROVIDER_NOT_FOUND"], 409: ["GAME_EXISTS"] },
+  },
+  {
+    method: "patch",
+    path: "/casino/admin/games/:gameId",
+    tag: "Casino: admin",
+    summary: "Change a game's bet limits",
+    description: "Only the limits given change; the result must still have `minBet` ≤ `maxBet`.",
+    auth: "admin",
+    brand: true,
+    params: gameParamsSchema,
+    body: updateGameSchema,
+    response: gameResponseSchema,
+    errors: { 404: ["GAME_NOT_FOUND"] },
+  },
+  {
+    method: "post",
+    path: "/casino/admin/games/:gameId/activate",
+    tag: "Casino: admin",
+    summary: "Make a game launchable",
+    auth: "admin",
+    brand: true,
+    params: gameParamsSchema,
+    response: gameResponseSchema,
+    errors: { 404: ["GAME_NOT_FOUND"] },
+  },
+  {
+    method: "post",
+    path: "/casino/admin/games/:gameId/deactivate",
+    tag: "Casino: admin",
+    summary: "Stop new launches of a game",
+    auth: "admin",
+    brand: true,
+    params: gameParamsSchema,
+    response: gameResponseSchema,
+    errors: { 404: ["GAME_NOT_FOUND"] },
+  },
+  {
+    method: "post",
+    path: "/casino/admin/providers/:providerCode/syncGames",
+    tag: "Casino: admin",
+    summary: "Sync games and bet limits from the provider's catalog feed",
+    description:
+      "Creates a game for each listed provider game the casino does not have and takes over " +
+      "changed bet limits. Activation is never changed; unlisted games are reported in `notListed`.",
+    auth: "admin",
+    brand: true,
+    params: providerGamesParamsSchema,
+    response: gameSyncResponseSchema,
+    errors: { 404: ["PROVIDER_NOT_FOUND"], 502: ["UPSTREAM_ERROR"], 503: ["PROVIDER_UNAVAILABLE"] },
+  },
+  {
+    method: "get",
+    path: "/casino/admin/providers/:providerCode/rounds/:roundId",
+    tag: "Casino: admin",
+    summary: "Look up a round by the provider's round ID, with its totals and transactions",
+    auth: "admin",
+    brand: true,
+    params: providerRoundParamsSchema,
+    response: roundResponseSchema,
+    errors: { 404: ["ROUND_NOT_FOUND"] },
+  },
+  {
+    method: "post",
+    path: "/casino/admin/providers/:providerCode/reconcile",
+    tag: "Casino: admin",
+    summary: "Reconcile transactions against the provider's round report",
+    description:
+      "Compares rounds the provider started in `[from, to)` and casino transactions created in " +
+      "that window. Discrepancies are stored; open ones this run no longer finds are resolved.",
+    auth: "admin",
+    brand: true,
+    params: providerReconciliationParamsSchema,
+    body: reconcileProviderSchema,
+    response: reconciliationReportResponseSchema,
+    errors: { 404: ["PROVIDER_NOT_FOUND"], 502: ["UPSTREAM_ERROR"], 503: ["PROVIDER_UNAVAILABLE"] },
+  },
+  {
+    method: "get",
+    path: "/casino/admin/providers/:providerCode/discrepancies",
+    tag: "Casino: admin",
+    summary: "List a provider's open reconciliation discrepancies",
+    auth: "admin",
+    brand: true,
+    params: providerReconciliationParamsSchema,
+    response: discrepanciesResponseSchema,
+    errors: { 404: ["PROVIDER_NOT_FOUND"] },
+  },
+  {
+    method: "post",
+    path: "/casino/admin/discrepancies/:discrepancyId/resolve",
+    tag: "Casino: admin",
+    summary: "Mark a discrepancy resolved with a note on what was done",
+    auth: "admin",
+    brand: true,
+    params: discrepancyParamsSchema,
+    body: resolveDiscrepancySchema,
+    response: discrepancyResponseSchema,
+    errors: { 404: ["DISCREPANCY_NOT_FOUND"], 409: ["DISCREPANCY_RESOLVED"] },
+  },
+  {
+    method: "get",
+    path: "/casino/admin/reports/revenue",
+    tag: "Casino: admin",
+    summary: "Bets, wins, rollbacks, GGR, NGR, RTP and active players per currency",
+    description:
+      "Read from the pre-aggregated report tables for the UTC days `from` to `to`, both included. " +
+      "`groupBy` takes any of `day`, `game` and `provider`, comma-separated. Figures include " +
+      "transactions up to `lastTransactionAt`.",
+    auth: "admin",
+    brand: true,
+    query: revenueReportSchema,
+    response: revenueReportResponseSchema,
+    errors: { 404: ["PROVIDER_NOT_FOUND"] },
+  },
+  {
+    method: "post",
+    path: "/casino/admin/reports/refresh",
+    tag: "Casino: admin",
+    summary: "Fold new transactions into the report tables now",
+    description:
+      "The same refresh the server runs every REPORT_REFRESH_INTERVAL_MS, for every brand. " +
+      "Transactions younger than a minute wait for a later refresh.",
+    auth: "admin",
+    brand: true,
+    response: reportRefreshResponseSchema,
+  },
+
+  // ─── Wallet callbacks ────────────────────────────────────────
+  {
+    method: "post",
+    path: "/casino/getBalance",
+    tag: "Casino: wallet callbacks",
+    summary: "Current balance of the session wallet",
+    auth: "casinoCallback",
+    body: getBalanceSchema,
+    response: balanceResponseSchema,
+    errors: {
+      400: ["CURRENCY_MISMATCH"],
+      403: ["SESSION_CLOSED", "SESSION_EXPIRED"],
+      404: ["SESSION_NOT_FOUND"],
+    },
+  },
+  {
+    method: "post",
+    path: "/casino/debit",
+    tag: "Casino: wallet callbacks",
+    summary: "Take a stake",
+    description:
+      "Idempotent on `transactionId`: a replay returns the first response unchanged. Opens the " +
+      "round on its first stake; a round that already has a payout takes no more stakes.",
+    auth: "casinoCallback",
+    body: debitSchema,
+    response: walletTransactionResponseSchema,
+    errors: {
+      400: ["CURRENCY_MISMATCH", "BET_LIMIT", "INSUFFICIENT_FUNDS"],
+      403: ["SESSION_CLOSED", "SESSION_EXPIRED", "SELF_EXCLUDED", "RESPONSIBLE_GAMING_LIMIT"],
+      404: ["SESSION_NOT_FOUND", "WALLET_NOT_FOUND"],
+      409: ["DUPLICATE_TXN", "ALREADY_ROLLED_BACK", "ROUND_CLOSED", "ROUND_MISMATCH"],
+      500: ["LEDGER_MISMATCH"],
+    },
+  },
+  {
+    method: "post",
+    path: "/casino/credit",
+    tag: "Casino: wallet callbacks",
+    summary: "Pay out a win (zero for a settled loss)",
+    description:
+      "Idempotent on `transactionId`. Allowed on a closed or expired session only for a round " +
+      "that already has a debit on it, or a free round whose `roundStartedAt` falls while the " +
+      "session was live. The round needs a debit first, unless it is a free round, " +
+      "and is closed by its first credit. With `campaignId` the credit pays out a free round and " +
+      "counts one round off that campaign. With `jackpot` it pays a jackpot win, which is also " +
+      "recorded separately.",
+    auth: "casinoCallback",
+    body: creditSchema,
+    response: walletTransactionResponseSchema,
+    errors: {
+      400: ["CURRENCY_MISMATCH"],
+      403: ["SESSION_CLOSED", "SESSION_EXPIRED"],
+      404: ["SESSION_NOT_FOUND", "WALLET_NOT_FOUND", "CAMPAIGN_NOT_FOUND"],
+      409: ["DUPLICATE_TXN", "CAMPAIGN_EXHAUSTED", "CREDIT_WITHOUT_DEBIT", "ROUND_MISMATCH"],
+      500: ["LEDGER_MISMATCH"],
+    },
+  },
+  {
+    method: "post",
+    path: "/casino/rollback",
+    tag: "Casino: wallet callbacks",
+    summary: "Refund a stake",
+    description:
+      "Idempotent on `transactionId`. An unknown `originalTransactionId` records a tombstone " +
+      "(`tombstone: true`) and leaves the balance unchanged.",
+    auth: "casinoCallback",
+    body: rollbackSchema,
+    response: walletTransactionResponseSchema,
+    errors: {
+      400: ["CURRENCY_MISMATCH", "ROLLBACK_NOT_ALLOWED"],
+      404: ["SESSION_NOT_FOUND", "WALLET_NOT_FOUND"],
+      409: ["DUPLICATE_TXN", "ROUND_MISMATCH"],
+      500: ["LEDGER_MISMATCH"],
+    },
+  },
+];
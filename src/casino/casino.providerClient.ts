@@ -0,0 +1,142 @@
+import { prisma } from "../db";
+import { CircuitBreaker } from "../lib/circuitBreaker";
+import { ProviderUnavailableError, UpstreamError } from "../lib/errors";
+import { signRequest } from "../lib/hmac";
+
+/**
+ * Every casino → provider call goes through `callProvider`: it signs the
+ * request, gives up after PROVIDER_TIMEOUT_MS, and keeps one circuit breaker
+ * per provider. A timeout, network error or 5xx counts as a failure; any
+ * other answer, a 4xx included, shows the provider is up.
+ *
+ * After PROVIDER_BREAKER_FAILURES failures in a row the breaker opens and
+ * calls fail at once with 503 PROVIDER_UNAVAILABLE. After
+ * PROVIDER_BREAKER_OPEN_MS one call is let through as a probe and decides
+ * whether the breaker closes again.
+ */
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_BREAKER_FAILURES = 5;
+const DEFAULT_BREAKER_OPEN_MS = 30_000;
+
+interface ProviderEndpoint {
+  code: string;
+  apiEndpoint: string;
+  secretKey: string;
+}
+
+function positiveEnv(name: string, fallback: number): number {
+  const configured = Number(process.env[name]);
+  return configured > 0 ? configured : fallback;
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+function breakerFor(providerCode: string): CircuitBreaker {
+  let breaker = breakers.get(providerCode);
+  if (!breaker) {
+    breaker = new CircuitBreaker({
+      failureThreshold: positiveEnv("PROVIDER_BREAKER_FAILURES", DEFAULT_BREAKER_FAILURES),
+      openMs: positiveEnv("PROVIDER_BREAKER_OPEN_MS", DEFAULT_BREAKER_OPEN_MS),
+    });
+    breakers.set(providerCode, breaker);
+  }
+  return breaker;
+}
+
+function unavailable(providerCode: string, breaker: CircuitBreaker) {
+  const { state, retryAt } = breaker.snapshot();
+  return new ProviderUnavailableError({ providerCode, breaker: state, retryAt });
+}
+
+/**
+ * Fails fast while the provider's breaker is open and not yet due a probe,
+ * so callers can refuse before doing work of their own.
+ */
+export function assertProviderAvailable(providerCode: string) {
+  const breaker = breakerFor(providerCode);
+  const { state, retryAt } = breaker.snapshot();
+  if (state === "open" && retryAt !== null && retryAt > new Date()) {
+    throw unavailable(providerCode, breaker);
+  }
+}
+
+/**
+ * POSTs a signed request to the provider and returns its response, whatever
+ * the status. Throws ProviderUnavailableError while the breaker is open, and
+ * UpstreamError when no response arrives in time.
+ */
+export async function callProvider(
+  provider: ProviderEndpoint,
+  path: string,
+  body: Record<string, unknown>,
+  options: { timeoutMs?: number } = {}
+): Promise<Response> {
+  const breaker = breakerFor(provider.code);
+  if (!breaker.tryAcquire()) {
+    console.warn("Provider call refused: circuit open", { providerCode: provider.code, path });
+    throw unavailable(provider.code, breaker);
+  }
+  const wasClosed = breaker.snapshot().state === "closed";
+
+  const timeoutMs = options.timeoutMs ?? positiveEnv("PROVIDER_TIMEOUT_MS", DEFAULT_TIMEOUT_MS);
+  const url = `${provider.apiEndpoint}${path}`;
+  const payload = JSON.stringify(body);
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...signRequest({ method: "POST", url }, payload, provider.secretKey, "x-provider-signature"),
+        "x-casino-code": provider.code,
+      },
+      body: payload,
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (err) {
+    const error =
+      err instanceof Error && err.name === "TimeoutError"
+        ? `no response within ${timeoutMs}ms`
+        : err instanceof Error
+          ? err.message
+          : String(err);
+    recordFailure(provider.code, breaker, path, error);
+    throw new UpstreamError("Provider request failed", { providerCode: provider.code, path, error });
+  }
+
+  if (response.status >= 500) {
+    recordFailure(provider.code, breaker, path, `HTTP ${response.status}`);
+  } else {
+    breaker.recordSuccess();
+    if (!wasClosed) console.info("Provider circuit closed", { providerCode: provider.code });
+  }
+  return response;
+}
+
+function recordFailure(providerCode: string, breaker: CircuitBreaker, path: string, error: string) {
+  if (breaker.recordFailure(`${path}: ${error}`)) {
+    const { consecutiveFailures, retryAt } = breaker.snapshot();
+    console.error("Provider circuit opened", { providerCode, consecutiveFailures, retryAt, error });
+  } else {
+    console.warn("Provider call failed", { providerCode, path, error });
+  }
+}
+
+// ─── Status (admin) ──────────────────────────────────────────────
+
+/** The brand's providers with their breaker state in this process. */
+export async function providerStatus(brandId: number) {
+  const providers = await prisma.casinoGameProvider.findMany({
+    where: { brandId },
+    orderBy: { id: "asc" },
+  });
+  return {
+    providers: providers.map((provider) => ({
+      providerCode: provider.code,
+      name: provider.name,
+      isDisabled: provider.isDisabled,
+      breaker: breakerFor(provider.code).snapshot(),
+    })),
+  };
+}
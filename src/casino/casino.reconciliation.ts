@@ -0,0 +1,378 @@
+import { Prisma } from "@prisma/client";
+import { isDeepStrictEqual } from "util";
+import { prisma } from "../db";
+import { ConflictError, NotFoundError, UpstreamError } from "../lib/errors";
+import * as providerClient from "./casino.providerClient";
+
+/**
+ * Matches the casino's transactions for one provider against the provider's
+ * round report (`/provider/rounds`), by `externalTransactionId` =
+ * `transactionId`:
+ *
+ *   missing          the provider has an accepted bet the casino never recorded
+ *   amount_mismatch  both have it, with a different amount or type
+ *   orphaned         the casino has a transaction the provider does not, or
+ *                    one the provider records as rejected
+ *
+ * Bets still pending or unknown on the provider are in flight (the outbox is
+ * retrying them) and are skipped on both sides.
+ */
+
+export type DiscrepancyKind = "missing" | "amount_mismatch" | "orphaned";
+
+interface ReportedBet {
+  transactionId: string;
+  betType: string;
+  amount: string;
+  status: string;
+  createdAt: string;
+}
+
+interface ReportedRound {
+  roundId: string;
+  bets: ReportedBet[];
+}
+
+interface Finding {
+  kind: DiscrepancyKind;
+  transactionId: string;
+  roundId: string | null;
+  transactionType: string;
+  casinoAmount: bigint | null;
+  providerAmount: bigint | null;
+  occurredAt: Date;
+  details?: Prisma.InputJsonObject;
+}
+
+type ProviderRef = { id: number; code: string; apiEndpoint: string; secretKey: string };
+
+const REPORT_PAGE_SIZE = 500;
+const ROUND_ID_BATCH = 500;
+
+// Resolution given to an open discrepancy that a later run no longer finds.
+const NO_LONGER_FOUND = "No longer found by reconciliation";
+
+async function findProvider(brandId: number, providerCode: string) {
+  const provider = await prisma.casinoGameProvider.findUnique({ where: { code: providerCode } });
+  if (!provider || provider.brandId !== brandId) {
+    throw new NotFoundError("PROVIDER_NOT_FOUND", "Provider not found");
+  }
+  return provider;
+}
+
+// ─── Provider report ─────────────────────────────────────────────
+
+async function fetchRoundReport(
+  provider: ProviderRef,
+  selection: { from: string; to: string } | { roundIds: string[] }
+): Promise<ReportedRound[]> {
+  const rounds: ReportedRound[] = [];
+  let cursor: number | null = null;
+
+  do {
+    const response = await providerClient.callProvider(provider, "/provider/rounds", {
+      casinoCode: provider.code,
+      ...selection,
+      limit: REPORT_PAGE_SIZE,
+      ...(cursor ? { cursor } : {}),
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      console.error("Provider round report failed", { status: response.status, body: errorBody });
+      throw new UpstreamError("Provider round report failed", { providerCode: provider.code });
+    }
+
+    const page = (await response.json()) as { rounds: ReportedRound[]; nextCursor: number | null };
+    rounds.push(...page.rounds);
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return rounds;
+}
+
+// ─── Matching ────────────────────────────────────────────────────
+
+function isTombstone(transaction: { responseCache: unknown }) {
+  return (transaction.responseCache as { tombstone?: boolean } | null)?.tombstone === true;
+}
+
+function compare(
+  rounds: ReportedRound[],
+  casinoTransactions: Array<{
+    externalTransactionId: string;
+    externalRoundId: string | null;
+    relatedExternalTransactionId: string | null;
+    transactionType: string;
+    amount: bigint;
+    createdAt: Date;
+    responseCache: unknown;
+  }>
+): Finding[] {
+  const byTransactionId = new Map(casinoTransactions.map((t) => [t.externalTransactionId, t]));
+  // Stakes the casino never saw: their compensating rollback left a tombstone.
+  const tombstoned = new Set(
+    casinoTransactions.filter(isTombstone).flatMap((t) => t.relatedExternalTransactionId ?? [])
+  );
+  const seen = new Set<string>();
+  const findings: Finding[] = [];
+
+  for (const round of rounds) {
+    for (const bet of round.bets) {
+      seen.add(bet.transactionId);
+      if (bet.status === "pending" || bet.status === "unknown") continue;
+
+      const transaction = byTransactionId.get(bet.transactionId);
+      const providerAmount = BigInt(bet.amount);
+      const base = { transactionId: bet.transactionId, roundId: round.roundId };
+
+      if (bet.status === "rejected") {
+        if (transaction) {
+          findings.push({
+            ...base,
+            kind: "orphaned",
+            transactionType: transaction.transactionType,
+            casinoAmount: transaction.amount,
+            providerAmount,
+            occurredAt: transaction.createdAt,
+            details: { providerStatus: bet.status },
+          });
+        }
+        continue;
+      }
+
+      if (!transaction) {
+        if (tombstoned.has(bet.transactionId)) continue;
+        findings.push({
+          ...base,
+          kind: "missing",
+          transactionType: bet.betType,
+          casinoAmount: null,
+          providerAmount,
+          occurredAt: new Date(bet.createdAt),
+          details: { providerStatus: bet.status },
+        });
+        continue;
+      }
+
+      // A tombstone records zero against the provider's full stake.
+      if (isTombstone(transaction)) continue;
+      if (transaction.transactionType !== bet.betType || transaction.amount !== providerAmount) {
+        findings.push({
+          ...base,
+          kind: "amount_mismatch",
+          transactionType: bet.betType,
+          casinoAmount: transaction.amount,
+          providerAmount,
+          occurredAt: transaction.createdAt,
+          details:
+            transaction.transactionType !== bet.betType
+              ? { casinoType: transaction.transactionType, providerType: bet.betType }
+              : undefined,
+        });
+      }
+    }
+  }
+
+  for (const transaction of casinoTransactions) {
+    if (seen.has(transaction.externalTransactionId)) continue;
+    findings.push({
+      kind: "orphaned",
+      transactionId: transaction.externalTransactionId,
+      roundId: transaction.externalRoundId,
+      transactionType: transaction.transactionType,
+      casinoAmount: transaction.amount,
+      providerAmount: null,
+      occurredAt: transaction.createdAt,
+    });
+  }
+
+  return findings;
+}
+
+// ─── Runs ────────────────────────────────────────────────────────
+
+function serializeDiscrepancy(discrepancy: {
+  id: number;
+  kind: string;
+  transactionId: string;
+  roundId: string | null;
+  transactionType: string;
+  casinoAmount: bigint | null;
+  providerAmount: bigint | null;
+  details: unknown;
+  occurredAt: Date;
+  status: string;
+  resolution: string | null;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  resolvedAt: Date | null;
+}) {
+  return {
+    id: discrepancy.id,
+    kind: discrepancy.kind,
+    transactionId: discrepancy.transactionId,
+    roundId: discrepancy.roundId,
+    transactionType: discrepancy.transactionType,
+    casinoAmount: discrepancy.casinoAmount?.toString() ?? null,
+    providerAmount: discrepancy.providerAmount?.toString() ?? null,
+    details: discrepancy.details ?? null,
+    occurredAt: discrepancy.occurredAt,
+    status: discrepancy.status,
+    resolution: discrepancy.resolution,
+    firstSeenAt: discrepancy.firstSeenAt,
+    lastSeenAt: discrepancy.lastSeenAt,
+    resolvedAt: discrepancy.resolvedAt,
+  };
+}
+
+/**
+ * Reconciles rounds the provider started in [from, to) and casino
+ * transactions created in that window. A casino transaction on a round that
+ * started earlier is looked up by round ID, so the window edge does not make
+ * it look orphaned.
+ */
+export async function reconcileProvider(
+  brandId: number,
+  providerCode: string,
+  window: { from: Date; to: Date }
+) {
+  const provider = await findProvider(brandId, providerCode);
+  const byProvider = { casinoGameSession: { casinoGame: { casinoGameProviderId: provider.id } } };
+
+  const rounds = await fetchRoundReport(provider, {
+    from: window.from.toISOString(),
+    to: window.to.toISOString(),
+  });
+  const inWindow = await prisma.casinoTransaction.findMany({
+    where: { ...byProvider, createdAt: { gte: window.from, lt: window.to } },
+  });
+
+  const reported = new Set(rounds.map((round) => round.roundId));
+  const earlierRounds = [
+    ...new Set(inWindow.flatMap((t) => t.externalRoundId ?? []).filter((id) => !reported.has(id))),
+  ];
+  for (let i = 0; i < earlierRounds.length; i += ROUND_ID_BATCH) {
+    rounds.push(
+      ...(await fetchRoundReport(provider, { roundIds: earlierRounds.slice(i, i + ROUND_ID_BATCH) }))
+    );
+  }
+
+  const onRounds = await prisma.casinoTransaction.findMany({
+    where: { ...byProvider, externalRoundId: { in: rounds.map((round) => round.roundId) } },
+  });
+  const casinoTransactions = [
+    ...new Map([...inWindow, ...onRounds].map((t) => [t.id, t])).values(),
+  ];
+
+  const findings = compare(rounds, casinoTransactions);
+  const now = new Date();
+  const stored = [];
+  for (const finding of findings) {
+    const { details, ...fields } = finding;
+    const key = {
+      casinoGameProviderId_transactionId_kind: {
+        casinoGameProviderId: provider.id,
+        transactionId: finding.transactionId,
+        kind: finding.kind,
+      },
+    };
+    const existing = await prisma.casinoReconciliationDiscrepancy.findUnique({ where: key });
+    if (!existing) {
+      stored.push(
+        await prisma.casinoReconciliationDiscrepancy.create({
+          data: { casinoGameProviderId: provider.id, ...fields, details, firstSeenAt: now, lastSeenAt: now },
+        })
+      );
+      continue;
+    }
+
+    // Someone resolved exactly this finding (e.g. accepted the difference),
+    // so it stays resolved. It is open again if it now differs from what was
+    // resolved, or if it was only resolved because a run stopped finding it.
+    const keepResolution =
+      existing.status === "resolved" &&
+      existing.resolution !== NO_LONGER_FOUND &&
+      existing.casinoAmount === finding.casinoAmount &&
+      existing.providerAmount === finding.providerAmount &&
+      isDeepStrictEqual(existing.details, details ?? null);
+    stored.push(
+      await prisma.casinoReconciliationDiscrepancy.update({
+        where: key,
+        data: keepResolution
+          ? { lastSeenAt: now }
+          : {
+              casinoAmount: finding.casinoAmount,
+              providerAmount: finding.providerAmount,
+              details: details ?? Prisma.DbNull,
+              lastSeenAt: now,
+              status: "open",
+              resolution: null,
+              resolvedAt: null,
+            },
+      })
+    );
+  }
+
+  // Open discrepancies in this window that the run no longer finds, e.g. a
+  // payout the outbox has since delivered.
+  const cleared = await prisma.casinoReconciliationDiscrepancy.updateMany({
+    where: {
+      casinoGameProviderId: provider.id,
+      status: "open",
+      occurredAt: { gte: window.from, lt: window.to },
+      id: { notIn: stored.map((d) => d.id) },
+    },
+    data: { status: "resolved", resolution: NO_LONGER_FOUND, resolvedAt: now },
+  });
+
+  const report = {
+    providerCode: provider.code,
+    from: window.from,
+    to: window.to,
+    roundsChecked: rounds.length,
+    providerBets: rounds.reduce((sum, round) => sum + round.bets.length, 0),
+    casinoTransactions: casinoTransactions.length,
+    cleared: cleared.count,
+    discrepancies: stored.map(serializeDiscrepancy),
+  };
+  console.info("Provider reconciliation finished", {
+    providerCode: provider.code,
+    roundsChecked: report.roundsChecked,
+    discrepancies: stored.length,
+    cleared: cleared.count,
+  });
+  return report;
+}
+
+// ─── Manual resolution ───────────────────────────────────────────
+
+export async function listDiscrepancies(brandId: number, providerCode: string) {
+  const provider = await findProvider(brandId, providerCode);
+  const discrepancies = await prisma.casinoReconciliationDiscrepancy.findMany({
+    where: { casinoGameProviderId: provider.id, status: "open" },
+    orderBy: { occurredAt: "asc" },
+  });
+  return { providerCode: provider.code, discrepancies: discrepancies.map(serializeDiscrepancy) };
+}
+
+export async function resolveDiscrepancy(brandId: number, discrepancyId: number, resolution: string) {
+  const discrepancy = await prisma.casinoReconciliationDiscrepancy.findFirst({
+    where: { id: discrepancyId, casinoGameProvider: { brandId } },
+  });
+  if (!discrepancy) {
+    throw new NotFoundError("DISCREPANCY_NOT_FOUND", "Discrepancy not found");
+  }
+  if (discrepancy.status !== "open") {
+    throw new ConflictError("DISCREPANCY_RESOLVED", "Discrepancy is already resolved", {
+      resolvedAt: discrepancy.resolvedAt,
+    });
+  }
+
+  const resolved = await prisma.casinoReconciliationDiscrepancy.update({
+    where: { id: discrepancy.id },
+    data: { status: "resolved", resolution, resolvedAt: new Date() },
+  });
+  console.info("Discrepancy resolved", { discrepancyId, transactionId: discrepancy.transactionId });
+  return serializeDiscrepancy(resolved);
+}
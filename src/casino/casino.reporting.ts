@@ -0,0 +1,325 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../db";
+import { NotFoundError } from "../lib/errors";
+import type { RevenueReportInput } from "./casino.schemas";
+
+/**
+ * Operator revenue reporting. casino_transactions are folded, in ID order,
+ * into per UTC day, game and currency totals (`casino_report_days`) and the
+ * players who staked (`casino_report_players`). `casino_report_state` keeps
+ * the last transaction folded in, so each refresh only reads what is new.
+ *
+ *   GGR  bets − rollbacks − wins
+ *   NGR  GGR less the net stakes played with bonus funds
+ *   RTP  wins / (bets − rollbacks)
+ *
+ * Every movement counts on the day it happened: a rollback of yesterday's
+ * bet lowers today's figures. A refresh stops at transactions younger than
+ * a minute, so one still committing under a lower ID is never skipped.
+ */
+
+const REPORT_STATE_ID = 1;
+const REFRESH_BATCH_SIZE = 1000;
+const SETTLE_MS = 60_000;
+const DEFAULT_REFRESH_INTERVAL_MS = 60_000;
+
+// ─── Refresh ─────────────────────────────────────────────────────
+
+/** Midnight UTC of the day `at` falls on. */
+function utcDay(at: Date): Date {
+  return new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()));
+}
+
+interface DayTotals {
+  brandId: number;
+  casinoGameId: number;
+  casinoGameProviderId: number;
+  day: Date;
+  currencyCode: string;
+  betCount: number;
+  betAmount: bigint;
+  winAmount: bigint;
+  rollbackAmount: bigint;
+  bonusBetAmount: bigint;
+  bonusRollbackAmount: bigint;
+}
+
+/** Folds the next batch of settled transactions into the report tables, under the state row lock. */
+async function foldBatch(tx: Prisma.TransactionClient, settledBefore: Date) {
+  await tx.casinoReportState.upsert({ where: { id: REPORT_STATE_ID }, create: { id: REPORT_STATE_ID }, update: {} });
+  await tx.$queryRaw`SELECT id FROM casino_report_state WHERE id = ${REPORT_STATE_ID} FOR UPDATE`;
+  const state = await tx.casinoReportState.findUniqueOrThrow({ where: { id: REPORT_STATE_ID } });
+
+  const fetched = await tx.casinoTransaction.findMany({
+    where: { id: { gt: state.lastTransactionId } },
+    select: {
+      id: true,
+      transactionType: true,
+      amount: true,
+      bonusAmount: true,
+      createdAt: true,
+      casinoWallet: { select: { currencyCode: true, casinoUserId: true } },
+      casinoGameSession: {
+        select: {
+          casinoGame: {
+            select: { id: true, casinoGameProviderId: true, casinoGameProvider: { select: { brandId: true } } },
+          },
+        },
+      },
+    },
+    orderBy: { id: "asc" },
+    take: REFRESH_BATCH_SIZE,
+  });
+  // Stop at the first unsettled transaction, even if later IDs are older.
+  const unsettled = fetched.findIndex((transaction) => transaction.createdAt >= settledBefore);
+  const transactions = unsettled === -1 ? fetched : fetched.slice(0, unsettled);
+
+  const days = new Map<string, DayTotals>();
+  const players = new Map<string, Prisma.CasinoReportPlayerCreateManyInput>();
+  for (const transaction of transactions) {
+    const game = transaction.casinoGameSession.casinoGame;
+    const day = utcDay(transaction.createdAt);
+    const currencyCode = transaction.casinoWallet.currencyCode;
+    const key = `${day.toISOString()}|${game.id}|${currencyCode}`;
+    const dims = {
+      brandId: game.casinoGameProvider.brandId,
+      casinoGameId: game.id,
+      casinoGameProviderId: game.casinoGameProviderId,
+      day,
+      currencyCode,
+    };
+
+    let totals = days.get(key);
+    if (!totals) {
+      totals = {
+        ...dims,
+        betCount: 0,
+        betAmount: BigInt(0),
+        winAmount: BigInt(0),
+        rollbackAmount: BigInt(0),
+        bonusBetAmount: BigInt(0),
+        bonusRollbackAmount: BigInt(0),
+      };
+      days.set(key, totals);
+    }
+
+    if (transaction.transactionType === "debit") {
+      totals.betCount += 1;
+      totals.betAmount += transaction.amount;
+      totals.bonusBetAmount += transaction.bonusAmount;
+      const casinoUserId = transaction.casinoWallet.casinoUserId;
+      players.set(`${key}|${casinoUserId}`, { ...dims, casinoUserId });
+    } else if (transaction.transactionType === "credit") {
+      totals.winAmount += transaction.amount;
+    } else if (transaction.transactionType === "rollback") {
+      totals.rollbackAmount += transaction.amount;
+      totals.bonusRollbackAmount += transaction.bonusAmount;
+    }
+  }
+
+  for (const totals of days.values()) {
+    const { day, casinoGameId, currencyCode } = totals;
+    await tx.casinoReportDay.upsert({
+      where: { day_casinoGameId_currencyCode: { day, casinoGameId, currencyCode } },
+      create: totals,
+      update: {
+        betCount: { increment: totals.betCount },
+        betAmount: { increment: totals.betAmount },
+        winAmount: { increment: totals.winAmount },
+        rollbackAmount: { increment: totals.rollbackAmount },
+        bonusBetAmount: { increment: totals.bonusBetAmount },
+        bonusRollbackAmount: { increment: totals.bonusRollbackAmount },
+      },
+    });
+  }
+  if (players.size > 0) {
+    await tx.casinoReportPlayer.createMany({ data: [...players.values()], skipDuplicates: true });
+  }
+
+  const last = transactions[transactions.length - 1];
+  await tx.casinoReportState.update({
+    where: { id: REPORT_STATE_ID },
+    data: {
+      ...(last && { lastTransactionId: last.id, lastTransactionAt: last.createdAt }),
+      refreshedAt: new Date(),
+    },
+  });
+
+  return { folded: transactions.length, more: unsettled === -1 && fetched.length === REFRESH_BATCH_SIZE };
+}
+
+/** Folds every settled transaction not yet in the report tables. Safe to run concurrently. */
+export async function refreshReports() {
+  const settledBefore = new Date(Date.now() - SETTLE_MS);
+  let folded = 0;
+  for (;;) {
+    const batch = await prisma.$transaction((tx) => foldBatch(tx, settledBefore), { timeout: 60_000 });
+    folded += batch.folded;
+    if (!batch.more) break;
+  }
+
+  const state = await prisma.casinoReportState.findUniqueOrThrow({ where: { id: REPORT_STATE_ID } });
+  if (folded > 0) {
+    console.info("Reports refreshed", { folded, lastTransactionId: state.lastTransactionId });
+  }
+  return {
+    folded,
+    lastTransactionId: state.lastTransactionId,
+    lastTransactionAt: state.lastTransactionAt,
+    refreshedAt: state.refreshedAt,
+  };
+}
+
+/** Empties the report tables and folds every transaction again, e.g. after a definition changes. */
+export async function rebuildReports() {
+  await prisma.$transaction([
+    prisma.casinoReportPlayer.deleteMany(),
+    prisma.casinoReportDay.deleteMany(),
+    prisma.casinoReportState.deleteMany(),
+  ]);
+  console.warn("Report tables emptied for a rebuild");
+  return refreshReports();
+}
+
+/**
+ * Refreshes the reports every REPORT_REFRESH_INTERVAL_MS until the returned
+ * stop function is called. `0` turns the periodic refresh off.
+ */
+export function startReportRefreshWorker(): () => void {
+  const configured = Number(process.env.REPORT_REFRESH_INTERVAL_MS ?? DEFAULT_REFRESH_INTERVAL_MS);
+  if (configured === 0) return () => {};
+  const intervalMs = configured > 0 ? configured : DEFAULT_REFRESH_INTERVAL_MS;
+  let running = false;
+
+  const timer = setInterval(() => {
+    if (running) return;
+    running = true;
+    refreshReports()
+      .catch((err) => console.error("Report refresh worker error", err))
+      .finally(() => {
+        running = false;
+      });
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+}
+
+// ─── Queries ─────────────────────────────────────────────────────
+
+// Grouping by game also groups by its provider, which changes nothing but
+// lets each row name the provider.
+const DIMENSION_COLUMNS = {
+  day: ["day"],
+  game: ["game_id", "provider_id"],
+  provider: ["provider_id"],
+} as const;
+
+interface ReportKey {
+  day?: Date;
+  game_id?: number;
+  provider_id?: number;
+  currency_code: string;
+}
+
+interface TotalsRow extends ReportKey {
+  bet_count: number;
+  bet_amount: bigint;
+  win_amount: bigint;
+  rollback_amount: bigint;
+  bonus_bet_amount: bigint;
+  bonus_rollback_amount: bigint;
+}
+
+interface PlayersRow extends ReportKey {
+  active_players: number;
+}
+
+function rowKey(row: ReportKey) {
+  return [row.day?.toISOString(), row.game_id, row.provider_id, row.currency_code].join("|");
+}
+
+/** wins / net stake to four decimals; null without a net stake. */
+function returnToPlayer(wins: bigint, netStake: bigint): number | null {
+  if (netStake <= BigInt(0)) return null;
+  return Number((wins * BigInt(10_000)) / netStake) / 10_000;
+}
+
+/**
+ * Bets, wins, rollbacks, GGR, NGR, RTP and active players per currency, for
+ * the UTC days `from` to `to` (both included), grouped by any of day, game
+ * and provider.
+ */
+export async function revenueReport(brandId: number, input: RevenueReportInput) {
+  const providers = await prisma.casinoGameProvider.findMany({ where: { brandId } });
+  const providerCodes = new Map(providers.map((provider) => [provider.id, provider.code]));
+  const provider = input.providerCode && providers.find((candidate) => candidate.code === input.providerCode);
+  if (input.providerCode && !provider) {
+    throw new NotFoundError("PROVIDER_NOT_FOUND", "Provider not found");
+  }
+
+  const dimensions = [...new Set(input.groupBy)];
+  const columns = [...new Set([...dimensions.flatMap((dimension) => DIMENSION_COLUMNS[dimension]), "currency_code"])];
+  const group = Prisma.raw(columns.join(", "));
+  const where = Prisma.join(
+    [
+      Prisma.sql`brand_id = ${brandId}`,
+      Prisma.sql`day >= ${input.from}::date`,
+      Prisma.sql`day <= ${input.to}::date`,
+      ...(input.currency ? [Prisma.sql`currency_code = ${input.currency}`] : []),
+      ...(provider ? [Prisma.sql`provider_id = ${provider.id}`] : []),
+      ...(input.gameId ? [Prisma.sql`game_id = ${input.gameId}`] : []),
+    ],
+    " AND "
+  );
+
+  const [totals, players, state] = await Promise.all([
+    prisma.$queryRaw<TotalsRow[]>`
+      SELECT ${group},
+             SUM(bet_count)::int                AS bet_count,
+             SUM(bet_amount)::bigint            AS bet_amount,
+             SUM(win_amount)::bigint            AS win_amount,
+             SUM(rollback_amount)::bigint       AS rollback_amount,
+             SUM(bonus_bet_amount)::bigint      AS bonus_bet_amount,
+             SUM(bonus_rollback_amount)::bigint AS bonus_rollback_amount
+      FROM casino_report_days
+      WHERE ${where}
+      GROUP BY ${group}
+      ORDER BY ${group}
+    `,
+    prisma.$queryRaw<PlayersRow[]>`
+      SELECT ${group}, COUNT(DISTINCT user_id)::int AS active_players
+      FROM casino_report_players
+      WHERE ${where}
+      GROUP BY ${group}
+    `,
+    prisma.casinoReportState.findUnique({ where: { id: REPORT_STATE_ID } }),
+  ]);
+  const activePlayers = new Map(players.map((row) => [rowKey(row), row.active_players]));
+
+  return {
+    from: input.from,
+    to: input.to,
+    groupBy: dimensions,
+    lastTransactionAt: state?.lastTransactionAt ?? null,
+    refreshedAt: state?.refreshedAt ?? null,
+    rows: totals.map((row) => {
+      const netStake = row.bet_amount - row.rollback_amount;
+      const ggr = netStake - row.win_amount;
+      const bonusStake = row.bonus_bet_amount - row.bonus_rollback_amount;
+      return {
+        ...(row.day && { day: row.day.toISOString().slice(0, 10) }),
+        ...(row.game_id !== undefined && { gameId: row.game_id }),
+        ...(row.provider_id !== undefined && { providerCode: providerCodes.get(row.provider_id) ?? "" }),
+        currency: row.currency_code,
+        betCount: row.bet_count,
+        bets: row.bet_amount.toString(),
+        wins: row.win_amount.toString(),
+        rollbacks: row.rollback_amount.toString(),
+        ggr: ggr.toString(),
+        ngr: (ggr - bonusStake).toString(),
+        rtp: returnToPlayer(row.win_amount, netStake),
+        activePlayers: activePlayers.get(rowKey(row)) ?? 0,
+      };
+    }),
+  };
+}
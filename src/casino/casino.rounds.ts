@@ -0,0 +1,186 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../db";
+import { ConflictError, NotFoundError, RoundClosedError } from "../lib/errors";
+import { balanceBefore } from "./casino.history";
+import type { GetRoundInput } from "./casino.schemas";
+
+/**
+ * Casino-side rounds. A round is identified by the provider's round ID,
+ * unique per provider, and belongs to the session it was opened on:
+ *
+ *   debit    opens the round, or adds to an open one; refused once closed
+ *   credit   needs a prior debit on the round (a free-round credit opens it
+ *            instead) and closes it; later credits are still accepted, as a
+ *            retried payout or a jackpot must always land
+ *   rollback refused once the round has a payout
+ *
+ * Everything here runs inside the wallet transaction, after the wallet
+ * lock, so a round's totals change one movement at a time.
+ */
+
+type RoundsClient = Prisma.TransactionClient;
+
+interface RoundSession {
+  id: number;
+  casinoWalletId: number;
+  casinoGame: { casinoGameProviderId: number };
+}
+
+/** The round with this ID, which must be on the given session. */
+export async function findSessionRound(client: RoundsClient, session: RoundSession, roundId: string) {
+  const round = await client.casinoRound.findUnique({
+    where: {
+      casinoGameProviderId_externalRoundId: {
+        casinoGameProviderId: session.casinoGame.casinoGameProviderId,
+        externalRoundId: roundId,
+      },
+    },
+  });
+  if (round && round.casinoGameSessionId !== session.id) {
+    throw new ConflictError("ROUND_MISMATCH", "Round belongs to another session", { roundId });
+  }
+  return round;
+}
+
+// ─── Movements ───────────────────────────────────────────────────
+
+/** Opens the round on its first stake; refuses a stake on a closed round. */
+export async function roundForDebit(client: RoundsClient, session: RoundSession, roundId: string) {
+  const round = await findSessionRound(client, session, roundId);
+  if (round?.status === "closed") {
+    throw new RoundClosedError({ roundId });
+  }
+  return (
+    round ??
+    client.casinoRound.create({
+      data: {
+        casinoGameProviderId: session.casinoGame.casinoGameProviderId,
+        casinoGameSessionId: session.id,
+        casinoWalletId: session.casinoWalletId,
+        externalRoundId: roundId,
+      },
+    })
+  );
+}
+
+/**
+ * A payout needs a stake on the round first. A free round has none, so its
+ * credit opens the round itself. A `relatedTransactionId` must point at a
+ * transaction on the same round.
+ */
+export async function roundForCredit(
+  client: RoundsClient,
+  session: RoundSession,
+  credit: { roundId: string; relatedTransactionId?: string; freeRound: boolean }
+) {
+  const round = await findSessionRound(client, session, credit.roundId);
+  if (!round || round.debitCount === 0) {
+    if (!credit.freeRound) {
+      throw new ConflictError("CREDIT_WITHOUT_DEBIT", "Round has no debit to pay out", {
+        roundId: credit.roundId,
+      });
+    }
+    if (round) return round;
+    return client.casinoRound.create({
+      data: {
+        casinoGameProviderId: session.casinoGame.casinoGameProviderId,
+        casinoGameSessionId: session.id,
+        casinoWalletId: session.casinoWalletId,
+        externalRoundId: credit.roundId,
+      },
+    });
+  }
+
+  if (credit.relatedTransactionId) {
+    const related = await client.casinoTransaction.findUnique({
+      where: { externalTransactionId: credit.relatedTransactionId },
+    });
+    if (related && related.casinoRoundId !== round.id) {
+      throw new ConflictError("ROUND_MISMATCH", "Related transaction is on another round", {
+        roundId: credit.roundId,
+        relatedTransactionId: credit.relatedTransactionId,
+      });
+    }
+  }
+  return round;
+}
+
+/** Adds a movement to the round's totals; the first credit closes it. */
+export async function recordRoundMovement(
+  client: RoundsClient,
+  round: { id: number; status: string },
+  movement: { type: "debit" | "credit" | "rollback"; amount: bigint }
+) {
+  const data: Prisma.CasinoRoundUpdateInput =
+    movement.type === "debit"
+      ? { totalBet: { increment: movement.amount }, debitCount: { increment: 1 } }
+      : movement.type === "credit"
+        ? { totalWin: { increment: movement.amount }, creditCount: { increment: 1 } }
+        : { totalRollback: { increment: movement.amount } };
+  if (movement.type === "credit" && round.status === "open") {
+    data.status = "closed";
+    data.closedAt = new Date();
+  }
+  await client.casinoRound.update({ where: { id: round.id }, data });
+}
+
+// ─── Queries ─────────────────────────────────────────────────────
+
+const ROUND_INCLUDE = {
+  casinoGameSession: true,
+  casinoWallet: true,
+  casinoTransactions: { orderBy: { id: "asc" } },
+} as const;
+
+/** The round with each debit, credit and rollback and the balances around it. */
+async function findRound(where: Prisma.CasinoRoundWhereInput, providerCode: string) {
+  const round = await prisma.casinoRound.findFirst({ where, include: ROUND_INCLUDE });
+  if (!round) {
+    throw new NotFoundError("ROUND_NOT_FOUND", "Round not found");
+  }
+
+  return {
+    roundId: round.externalRoundId,
+    providerCode,
+    sessionId: round.casinoGameSessionId,
+    userId: round.casinoGameSession.casinoUserId,
+    gameId: round.casinoGameSession.casinoGameId,
+    currency: round.casinoWallet.currencyCode,
+    status: round.status,
+    totalBet: round.totalBet.toString(),
+    totalWin: round.totalWin.toString(),
+    totalRollback: round.totalRollback.toString(),
+    netStake: (round.totalBet - round.totalRollback).toString(),
+    debitCount: round.debitCount,
+    creditCount: round.creditCount,
+    createdAt: round.createdAt,
+    closedAt: round.closedAt,
+    transactions: round.casinoTransactions.map((transaction) => ({
+      transactionId: transaction.externalTransactionId,
+      type: transaction.transactionType,
+      amount: transaction.amount.toString(),
+      cashAmount: transaction.cashAmount.toString(),
+      bonusAmount: transaction.bonusAmount.toString(),
+      balanceBefore: balanceBefore(transaction).toString(),
+      balanceAfter: transaction.balanceAfter.toString(),
+      relatedTransactionId: transaction.relatedExternalTransactionId,
+      createdAt: transaction.createdAt,
+    })),
+  };
+}
+
+export function getRound(brandId: number, providerCode: string, roundId: string) {
+  return findRound({ externalRoundId: roundId, casinoGameProvider: { code: providerCode, brandId } }, providerCode);
+}
+
+/** A round of the player's own; another player's round is not found. */
+export function getPlayerRound(brandId: number, input: GetRoundInput) {
+  return findRound(
+    {
+      externalRoundId: input.roundId,
+      casinoGameProvider: { code: input.providerCode, brandId },
+      casinoWallet: { casinoUserId: input.userId },
+    },
+    input.providerCode
+  );
+}
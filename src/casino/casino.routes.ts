@@ -1,24 +1,297 @@
 import { Router } from "express";
+import { verifyAdminKey } from "../lib/admin";
+import { asyncHandler } from "../lib/errors";
+import { keyWindowSchema, outboundSecretSchema, retireKeySchema } from "../lib/keys";
+import { validate } from "../lib/validation";
+import { authenticatePlayer } from "./casino.auth";
+import { resolveBrand } from "./casino.brand";
 import { verifyCasinoSignature } from "./casino.hmac";
 import {
+  login,
+  refreshToken,
+  logout,
+  setPassword,
   launchGame,
   simulateRound,
+  closeSession,
+  convertBonus,
+  setLimit,
+  getLimits,
+  getTransactions,
+  getSessions,
+  getPlayerRound,
+  getStatement,
+  selfExclude,
   getBalance,
   debit,
   credit,
   rollback,
+  openWallet,
+  listWallets,
+  listUserTransactions,
+  listUserSessions,
+  getUserStatement,
+  grantBonus,
+  listBonuses,
+  createFreeSpins,
+  listFreeSpins,
+  addProviderKey,
+  listProviderKeys,
+  retireProviderKey,
+  setProviderOutboundSecret,
+  providerStatus,
+  listGames,
+  createGame,
+  updateGame,
+  activateGame,
+  deactivateGame,
+  syncProviderGames,
+  getRound,
+  reconcileProvider,
+  listDiscrepancies,
+  resolveDiscrepancy,
+  revenueReport,
+  refreshReports,
 } from "./casino.controller";
+import {
+  closeSessionSchema,
+  convertBonusSchema,
+  createFreeSpinsSchema,
+  createGameSchema,
+  creditSchema,
+  debitSchema,
+  discrepancyParamsSchema,
+  gameParamsSchema,
+  getBalanceSchema,
+  getLimitsSchema,
+  getRoundSchema,
+  grantBonusSchema,
+  launchGameSchema,
+  loginSchema,
+  openWalletSchema,
+  providerGamesParamsSchema,
+  providerKeyParamsSchema,
+  providerKeysParamsSchema,
+  providerReconciliationParamsSchema,
+  providerRoundParamsSchema,
+  reconcileProviderSchema,
+  refreshTokenSchema,
+  resolveDiscrepancySchema,
+  revenueReportSchema,
+  rollbackSchema,
+  selfExcludeSchema,
+  sessionHistorySchema,
+  setLimitSchema,
+  setPasswordSchema,
+  simulateRoundSchema,
+  statementSchema,
+  transactionHistorySchema,
+  updateGameSchema,
+  userBonusesParamsSchema,
+  userFreeSpinsParamsSchema,
+  userHistoryParamsSchema,
+  userPasswordParamsSchema,
+  userWalletsParamsSchema,
+} from "./casino.schemas";
 
 const router: Router = Router();
 
-// Client-initiated (no HMAC needed — would normally use user auth)
-router.post("/launchGame", launchGame);
-router.post("/simulateRound", simulateRound);
+// Player auth (x-brand-code: players log in to one brand)
+router.post("/auth/login", resolveBrand, validate({ body: loginSchema }), asyncHandler(login));
+router.post("/auth/refresh", resolveBrand, validate({ body: refreshTokenSchema }), asyncHandler(refreshToken));
+router.post("/auth/logout", resolveBrand, validate({ body: refreshTokenSchema }), asyncHandler(logout));
+
+// Client-initiated (Authorization: Bearer <access token>; the player comes from the token)
+router.post("/launchGame", authenticatePlayer, validate({ body: launchGameSchema }), asyncHandler(launchGame));
+router.post("/simulateRound", authenticatePlayer, validate({ body: simulateRoundSchema }), asyncHandler(simulateRound));
+router.post("/closeSession", authenticatePlayer, validate({ body: closeSessionSchema }), asyncHandler(closeSession));
+router.post("/convertBonus", authenticatePlayer, validate({ body: convertBonusSchema }), asyncHandler(convertBonus));
+router.post("/setLimit", authenticatePlayer, validate({ body: setLimitSchema }), asyncHandler(setLimit));
+router.post("/getLimits", authenticatePlayer, validate({ body: getLimitsSchema }), asyncHandler(getLimits));
+router.post("/selfExclude", authenticatePlayer, validate({ body: selfExcludeSchema }), asyncHandler(selfExclude));
+router.post("/getTransactions", authenticatePlayer, validate({ body: transactionHistorySchema }), asyncHandler(getTransactions));
+router.post("/getSessions", authenticatePlayer, validate({ body: sessionHistorySchema }), asyncHandler(getSessions));
+router.post("/getRound", authenticatePlayer, validate({ body: getRoundSchema }), asyncHandler(getPlayerRound));
+router.post("/getStatement", authenticatePlayer, validate({ body: statementSchema }), asyncHandler(getStatement));
+
+// Admin (x-admin-key, acting for the brand named by x-brand-code)
+router.post(
+  "/admin/wallets",
+  verifyAdminKey,
+  resolveBrand,
+  validate({ body: openWalletSchema }),
+  asyncHandler(openWallet)
+);
+router.get(
+  "/admin/users/:userId/wallets",
+  verifyAdminKey,
+  resolveBrand,
+  validate({ params: userWalletsParamsSchema }),
+  asyncHandler(listWallets)
+);
+router.get(
+  "/admin/users/:userId/transactions",
+  verifyAdminKey,
+  resolveBrand,
+  validate({ params: userHistoryParamsSchema, query: transactionHistorySchema }),
+  asyncHandler(listUserTransactions)
+);
+router.get(
+  "/admin/users/:userId/sessions",
+  verifyAdminKey,
+  resolveBrand,
+  validate({ params: userHistoryParamsSchema, query: sessionHistorySchema }),
+  asyncHandler(listUserSessions)
+);
+router.get(
+  "/admin/users/:userId/statement",
+  verifyAdminKey,
+  resolveBrand,
+  validate({ params: userHistoryParamsSchema, query: statementSchema }),
+  asyncHandler(getUserStatement)
+);
+router.post(
+  "/admin/users/:userId/password",
+  verifyAdminKey,
+  resolveBrand,
+  validate({ params: userPasswordParamsSchema, body: setPasswordSchema }),
+  asyncHandler(setPassword)
+);
+router.post(
+  "/admin/bonuses",
+  verifyAdminKey,
+  resolveBrand,
+  validate({ body: grantBonusSchema }),
+  asyncHandler(grantBonus)
+);
+router.get(
+  "/admin/users/:userId/bonuses",
+  verifyAdminKey,
+  resolveBrand,
+  validate({ params: userBonusesParamsSchema }),
+  asyncHandler(listBonuses)
+);
+router.post(
+  "/admin/freeSpins",
+  verifyAdminKey,
+  resolveBrand,
+  validate({ body: createFreeSpinsSchema }),
+  asyncHandler(createFreeSpins)
+);
+router.get(
+  "/admin/users/:userId/freeSpins",
+  verifyAdminKey,
+  resolveBrand,
+  validate({ params: userFreeSpinsParamsSchema }),
+  asyncHandler(listFreeSpins)
+);
+router.post(
+  "/admin/providers/:providerCode/keys",
+  verifyAdminKey,
+  resolveBrand,
+  validate({ params: providerKeysParamsSchema, body: keyWindowSchema }),
+  asyncHandler(addProviderKey)
+);
+router.get(
+  "/admin/providers/:providerCode/keys",
+  verifyAdminKey,
+  resolveBrand,
+  validate({ params: providerKeysParamsSchema }),
+  asyncHandler(listProviderKeys)
+);
+router.post(
+  "/admin/providers/:providerCode/keys/:keyId/retire",
+  verifyAdminKey,
+  resolveBrand,
+  validate({ params: providerKeyParamsSchema, body: retireKeySchema }),
+  asyncHandler(retireProviderKey)
+);
+router.post(
+  "/admin/providers/:providerCode/outboundSecret",
+  verifyAdminKey,
+  resolveBrand,
+  validate({ params: providerKeysParamsSchema, body: outboundSecretSchema }),
+  asyncHandler(setProviderOutboundSecret)
+);
+router.get("/admin/providers/status", verifyAdminKey, resolveBrand, asyncHandler(providerStatus));
+router.get("/admin/games", verifyAdminKey, resolveBrand, asyncHandler(listGames));
+router.post(
+  "/admin/games",
+  verifyAdminKey,
+  resolveBrand,
+  validate({ body: createGameSchema }),
+  asyncHandler(createGame)
+);
+router.patch(
+  "/admin/games/:gameId",
+  verifyAdminKey,
+  resolveBrand,
+  validate({ params: gameParamsSchema, body: updateGameSchema }),
+  asyncHandler(updateGame)
+);
+router.post(
+  "/admin/games/:gameId/activate",
+  verifyAdminKey,
+  resolveBrand,
+  validate({ params: gameParamsSchema }),
+  asyncHandler(activateGame)
+);
+router.post(
+  "/admin/games/:gameId/deactivate",
+  verifyAdminKey,
+  resolveBrand,
+  validate({ params: gameParamsSchema }),
+  asyncHandler(deactivateGame)
+);
+router.post(
+  "/admin/providers/:providerCode/syncGames",
+  verifyAdminKey,
+  resolveBrand,
+  validate({ params: providerGamesParamsSchema }),
+  asyncHandler(syncProviderGames)
+);
+router.get(
+  "/admin/providers/:providerCode/rounds/:roundId",
+  verifyAdminKey,
+  resolveBrand,
+  validate({ params: providerRoundParamsSchema }),
+  asyncHandler(getRound)
+);
+router.post(
+  "/admin/providers/:providerCode/reconcile",
+  verifyAdminKey,
+  resolveBrand,
+  validate({ params: providerReconciliationParamsSchema, body: reconcileProviderSchema }),
+  asyncHandler(reconcileProvider)
+);
+router.get(
+  "/admin/providers/:providerCode/discrepancies",
+  verifyAdminKey,
+  resolveBrand,
+  validate({ params: providerReconciliationParamsSchema }),
+  asyncHandler(listDiscrepancies)
+);
+router.post(
+  "/admin/discrepancies/:discrepancyId/resolve",
+  verifyAdminKey,
+  resolveBrand,
+  validate({ params: discrepancyParamsSchema, body: resolveDiscrepancySchema }),
+  asyncHandler(resolveDiscrepancy)
+);
+router.get(
+  "/admin/reports/revenue",
+  verifyAdminKey,
+  resolveBrand,
+  validate({ query: revenueReportSchema }),
+  asyncHandler(revenueReport)
+);
+router.post("/admin/reports/refresh", verifyAdminKey, resolveBrand, asyncHandler(refreshReports));
 
-// Provider callbacks (HMAC-protected)
-router.post("/getBalance", verifyCasinoSignature, getBalance);
-router.post("/debit", verifyCasinoSignature, debit);
-router.post("/credit", verifyCasinoSignature, credit);
-router.post("/rollback", verifyCasinoSignature, rollback);
+// Provider callbacks (HMAC-protected, caller identified by x-provider-code).
+// The signature is checked first: it covers the raw bytes, not the parsed body.
+router.post("/getBalance", verifyCasinoSignature, validate({ body: getBalanceSchema }), asyncHandler(getBalance));
+router.post("/debit", verifyCasinoSignature, validate({ body: debitSchema }), asyncHandler(debit));
+router.post("/credit", verifyCasinoSignature, validate({ body: creditSchema }), asyncHandler(credit));
+router.post("/rollback", verifyCasinoSignature, validate({ body: rollbackSchema }), asyncHandler(rollback));
 
 export default router;
@@ -0,0 +1,655 @@
+import { z } from "zod";
+import { keyResponseSchema } from "../lib/keys";
+import {
+  amountString,
+  betLimitsInOrder,
+  currencyCode,
+  entityId,
+  externalId,
+  isoDateTime,
+  nonNegativeAmount,
+  numericParam,
+  positiveAmount,
+} from "../lib/validation";
+
+/**
+ * Request and response contracts for /casino/*. Request schemas are enforced
+ * by the `validate` middleware in casino.routes.ts and are the source of the
+ * service input types; response schemas document what each route returns.
+ */
+
+// ─── Player auth ─────────────────────────────────────────────────
+
+export const loginSchema = z.object({
+  username: z.string().min(1).max(100),
+  password: z.string().min(1).max(200),
+});
+export type LoginInput = z.infer<typeof loginSchema>;
+
+export const refreshTokenSchema = z.object({ refreshToken: z.string().min(1).max(200) });
+export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>;
+
+export const tokenResponseSchema = z.object({
+  userId: z.number().int(),
+  tokenType: z.literal("Bearer"),
+  accessToken: z.string(),
+  expiresIn: z.number().int().describe("Access token lifetime in seconds."),
+  refreshToken: z.string(),
+  refreshExpiresAt: isoDateTime,
+});
+
+export const logoutResponseSchema = z.object({ status: z.literal("logged_out") });
+
+// ─── Client ──────────────────────────────────────────────────────
+
+/**
+ * Client routes act for the player in the access token. The services still
+ * take `userId`; the controller adds it from the token.
+ */
+type PlayerScoped = { userId: number };
+
+export const launchGameSchema = z.object({
+  gameId: entityId,
+  currency: currencyCode.optional(),
+});
+export type LaunchGameInput = z.infer<typeof launchGameSchema> & PlayerScoped;
+
+export const launchGameResponseSchema = z.object({
+  sessionToken: z.string(),
+  sessionId: z.number().int(),
+  providerSessionId: z.string(),
+  balance: amountString,
+  currency: currencyCode,
+});
+
+export const simulateRoundSchema = launchGameSchema;
+export type SimulateRoundInput = z.infer<typeof simulateRoundSchema> & PlayerScoped;
+
+export const simulateRoundResponseSchema = z.object({
+  sessionToken: z.string(),
+  sessionId: z.number().int(),
+  providerSessionId: z.string(),
+  simulationResult: z.unknown(),
+  finalBalance: amountString.optional(),
+});
+
+export const closeSessionSchema = z.object({
+  sessionToken: z.string().min(1),
+});
+export type CloseSessionInput = z.infer<typeof closeSessionSchema> & PlayerScoped;
+
+export const closeSessionResponseSchema = z.object({
+  sessionToken: z.string(),
+  status: z.literal("closed"),
+  closedAt: isoDateTime.nullable(),
+});
+
+export const convertBonusSchema = z.object({
+  currency: currencyCode,
+});
+export type ConvertBonusInput = z.infer<typeof convertBonusSchema> & PlayerScoped;
+
+// ─── Responsible gaming ──────────────────────────────────────────
+
+const limitPeriod = z.enum(["day", "week", "month"]);
+
+/** `amount: null` removes the limit; raising or removing only applies after the cooling delay. */
+export const setLimitSchema = z.discriminatedUnion("limitType", [
+  z.object({
+    limitType: z.enum(["loss", "wager"]),
+    period: limitPeriod,
+    currency: currencyCode,
+    amount: nonNegativeAmount.nullable(),
+  }),
+  z.object({
+    limitType: z.literal("session_duration"),
+    amount: z.number().int().positive("Must be a positive number of minutes").nullable(),
+  }),
+]);
+export type SetLimitInput = z.infer<typeof setLimitSchema> & PlayerScoped;
+
+export const limitResponseSchema = z.object({
+  limitType: z.enum(["loss", "wager", "session_duration"]),
+  period: limitPeriod.nullable(),
+  currency: currencyCode.nullable(),
+  amount: amountString.nullable(),
+  pending: z.object({ amount: amountString.nullable(), effectiveAt: isoDateTime }).nullable(),
+});
+
+export const getLimitsSchema = z.object({});
+export type GetLimitsInput = z.infer<typeof getLimitsSchema> & PlayerScoped;
+
+export const exclusionResponseSchema = z.object({
+  exclusionId: z.number().int(),
+  userId: z.number().int(),
+  exclusionType: z.enum(["self_exclusion", "cool_off"]),
+  startsAt: isoDateTime,
+  endsAt: isoDateTime.nullable(),
+});
+
+export const getLimitsResponseSchema = z.object({
+  userId: z.number().int(),
+  limits: z.array(limitResponseSchema),
+  exclusion: exclusionResponseSchema.nullable(),
+});
+
+export const selfExcludeSchema = z.discriminatedUnion("exclusionType", [
+  z.object({
+    exclusionType: z.literal("self_exclusion"),
+    durationDays: z.number().int().positive().optional(),
+  }),
+  z.object({
+    exclusionType: z.literal("cool_off"),
+    durationDays: z.number().int().min(1).max(42),
+  }),
+]);
+export type SelfExcludeInput = z.infer<typeof selfExcludeSchema> & PlayerScoped;
+
+// ─── Admin ───────────────────────────────────────────────────────
+
+export const openWalletSchema = z.object({
+  userId: entityId,
+  currency: currencyCode,
+});
+export type OpenWalletInput = z.infer<typeof openWalletSchema>;
+
+export const walletResponseSchema = z.object({
+  walletId: z.number().int(),
+  userId: z.number().int(),
+  currency: currencyCode,
+  playableBalance: amountString,
+  redeemableBalance: amountString,
+});
+
+export const userWalletsParamsSchema = z.object({ userId: numericParam });
+
+export const userPasswordParamsSchema = userWalletsParamsSchema;
+
+export const setPasswordSchema = z.object({ password: z.string().min(8).max(200) });
+export type SetPasswordInput = z.infer<typeof setPasswordSchema>;
+
+export const setPasswordResponseSchema = z.object({
+  userId: z.number().int(),
+  username: z.string(),
+  revokedTokens: z.number().int(),
+});
+
+export const userWalletsResponseSchema = z.object({
+  userId: z.number().int(),
+  wallets: z.array(walletResponseSchema),
+});
+
+export const grantBonusSchema = z.object({
+  userId: entityId,
+  currency: currencyCode,
+  amount: positiveAmount,
+  wageringMultiplier: z.number().int().min(0).max(1000),
+});
+export type GrantBonusInput = z.infer<typeof grantBonusSchema>;
+
+export const bonusResponseSchema = z.object({
+  bonusId: z.number().int(),
+  userId: z.number().int(),
+  walletId: z.number().int(),
+  amount: amountString,
+  wageringRequirement: amountString,
+  wageredAmount: amountString,
+  status: z.enum(["active", "converted"]),
+  convertedAmount: amountString.nullable(),
+  createdAt: isoDateTime,
+  convertedAt: isoDateTime.nullable(),
+});
+
+export const userBonusesParamsSchema = userWalletsParamsSchema;
+
+export const userBonusesResponseSchema = z.object({
+  userId: z.number().int(),
+  bonuses: z.array(bonusResponseSchema),
+});
+
+export const convertBonusResponseSchema = z.object({
+  bonus: bonusResponseSchema,
+  wallet: walletResponseSchema,
+});
+
+export const createFreeSpinsSchema = z.object({
+  userId: entityId,
+  gameId: entityId,
+  currency: currencyCode,
+  rounds: z.number().int().min(1).max(1000),
+  betAmount: positiveAmount,
+  expiresAt: isoDateTime,
+});
+export type CreateFreeSpinsInput = z.infer<typeof createFreeSpinsSchema>;
+
+export const freeSpinsResponseSchema = z.object({
+  campaignId: z.string(),
+  userId: z.number().int(),
+  gameId: z.number().int(),
+  currency: currencyCode,
+  betAmount: amountString,
+  totalRounds: z.number().int(),
+  remainingRounds: z.number().int(),
+  totalWinnings: amountString,
+  status: z.enum(["active", "completed", "expired", "cancelled"]),
+  expiresAt: isoDateTime,
+  createdAt: isoDateTime,
+});
+
+export const userFreeSpinsParamsSchema = userWalletsParamsSchema;
+
+export const userFreeSpinsResponseSchema = z.object({
+  userId: z.number().int(),
+  campaigns: z.array(freeSpinsResponseSchema),
+});
+
+export const providerKeysParamsSchema = z.object({ providerCode: z.string().min(1) });
+export const providerKeyParamsSchema = providerKeysParamsSchema.extend({ keyId: numericParam });
+
+export const providerKeysResponseSchema = z.object({
+  providerCode: z.string(),
+  keys: z.array(keyResponseSchema),
+});
+
+export const providerOutboundSecretResponseSchema = z.object({
+  providerCode: z.string(),
+  updatedAt: isoDateTime,
+});
+
+export const providerStatusResponseSchema = z.object({
+  providers: z.array(
+    z.object({
+      providerCode: z.string(),
+      name: z.string(),
+      isDisabled: z.boolean(),
+      breaker: z.object({
+        state: z.enum(["closed", "open", "half_open"]),
+        consecutiveFailures: z.number().int(),
+        openedAt: isoDateTime.nullable(),
+        retryAt: isoDateTime.nullable(),
+        lastFailureAt: isoDateTime.nullable(),
+        lastFailure: z.string().nullable(),
+        lastSuccessAt: isoDateTime.nullable(),
+      }),
+    })
+  ),
+});
+
+// ─── Games (admin) ───────────────────────────────────────────────
+
+const BET_LIMITS_ORDER = { message: "minBet must not exceed maxBet", path: ["minBet"] };
+
+export const gameParamsSchema = z.object({ gameId: numericParam });
+
+export const createGameSchema = z
+  .object({
+    providerCode: z.string().min(1),
+    providerGameId: z.string().min(1).max(100),
+    minBet: positiveAmount,
+    maxBet: positiveAmount,
+    isActive: z.boolean().optional(),
+  })
+  .refine(betLimitsInOrder, BET_LIMITS_ORDER);
+export type CreateGameInput = z.infer<typeof createGameSchema>;
+
+/** Only the limits given change. */
+export const updateGameSchema = z
+  .object({ minBet: positiveAmount.optional(), maxBet: positiveAmount.optional() })
+  .refine((input) => input.minBet !== undefined || input.maxBet !== undefined, {
+    message: "Give minBet, maxBet or both",
+  })
+  .refine(betLimitsInOrder, BET_LIMITS_ORDER);
+export type UpdateGameInput = z.infer<typeof updateGameSchema>;
+
+export const gameResponseSchema = z.object({
+  gameId: z.number().int(),
+  providerCode: z.string(),
+  providerGameId: z.string(),
+  isActive: z.boolean(),
+  minBet: amountString,
+  maxBet: amountString,
+  createdAt: isoDateTime,
+});
+
+export const gamesResponseSchema = z.object({
+  games: z.array(gameResponseSchema),
+});
+
+export const providerGamesParamsSchema = providerKeysParamsSchema;
+
+export const gameSyncResponseSchema = z.object({
+  providerCode: z.string(),
+  created: z.array(gameResponseSchema),
+  updated: z.array(gameResponseSchema),
+  unchanged: z.number().int(),
+  /** Casino games for this provider missing from the feed; left as they are. */
+  notListed: z.array(z.string()),
+});
+
+// ─── Rounds ──────────────────────────────────────────────────────
+
+export const providerRoundParamsSchema = providerKeysParamsSchema.extend({ roundId: externalId });
+
+/** A round of the player's own; another player's round is not found. */
+export const getRoundSchema = z.object({ providerCode: z.string().min(1), roundId: externalId });
+export type GetRoundInput = z.infer<typeof getRoundSchema> & PlayerScoped;
+
+export const roundResponseSchema = z.object({
+  roundId: z.string(),
+  providerCode: z.string(),
+  sessionId: z.number().int(),
+  userId: z.number().int(),
+  gameId: z.number().int(),
+  currency: currencyCode,
+  status: z.enum(["open", "closed"]),
+  totalBet: amountString,
+  totalWin: amountString,
+  totalRollback: amountString,
+  netStake: amountString,
+  debitCount: z.number().int(),
+  creditCount: z.number().int(),
+  createdAt: isoDateTime,
+  closedAt: isoDateTime.nullable(),
+  transactions: z.array(
+    z.object({
+      transactionId: z.string(),
+      type: z.enum(["debit", "credit", "rollback"]),
+      amount: amountString,
+      cashAmount: amountString,
+      bonusAmount: amountString,
+      balanceBefore: amountString,
+      balanceAfter: amountString,
+      relatedTransactionId: z.string().nullable(),
+      createdAt: isoDateTime,
+    })
+  ),
+});
+
+// ─── History ─────────────────────────────────────────────────────
+
+/*
+ * The same filters serve the client routes (JSON body) and the admin routes
+ * (query string), so numbers are coerced from strings.
+ */
+
+const PERIOD_ORDER = { message: "from must be before to", path: ["to"] };
+const MAX_STATEMENT_DAYS = 366;
+
+function periodInOrder(period: { from?: string; to?: string }) {
+  return !period.from || !period.to || new Date(period.from) < new Date(period.to);
+}
+
+const historyPage = {
+  /** ID of the last row of the previous page (its `nextCursor`). */
+  cursor: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+};
+
+const historyPeriod = { from: isoDateTime.optional(), to: isoDateTime.optional() };
+
+export const transactionHistorySchema = z
+  .object({
+    ...historyPeriod,
+    gameId: z.coerce.number().int().positive().optional(),
+    type: z.enum(["debit", "credit", "rollback"]).optional(),
+    roundId: externalId.optional(),
+    currency: currencyCode.optional(),
+    ...historyPage,
+  })
+  .refine(periodInOrder, PERIOD_ORDER);
+export type TransactionHistoryInput = z.infer<typeof transactionHistorySchema>;
+
+export const sessionHistorySchema = z
+  .object({
+    ...historyPeriod,
+    gameId: z.coerce.number().int().positive().optional(),
+    status: z.enum(["active", "expired", "closed"]).optional(),
+    currency: currencyCode.optional(),
+    ...historyPage,
+  })
+  .refine(periodInOrder, PERIOD_ORDER);
+export type SessionHistoryInput = z.infer<typeof sessionHistorySchema>;
+
+export const statementSchema = z
+  .object({
+    from: isoDateTime,
+    to: isoDateTime,
+    currency: currencyCode.optional(),
+    format: z.enum(["json", "csv"]).optional(),
+  })
+  .refine(periodInOrder, PERIOD_ORDER)
+  .refine(
+    (period) => new Date(period.to).getTime() - new Date(period.from).getTime() <= MAX_STATEMENT_DAYS * 86_400_000,
+    { message: `A statement covers at most ${MAX_STATEMENT_DAYS} days`, path: ["to"] }
+  );
+export type StatementInput = z.infer<typeof statementSchema>;
+
+export const userHistoryParamsSchema = userWalletsParamsSchema;
+
+export const historyTransactionSchema = z.object({
+  transactionId: z.string(),
+  type: z.enum(["debit", "credit", "rollback"]),
+  amount: amountString,
+  cashAmount: amountString,
+  bonusAmount: amountString,
+  balanceBefore: amountString,
+  balanceAfter: amountString,
+  currency: currencyCode,
+  gameId: z.number().int(),
+  providerCode: z.string(),
+  sessionId: z.number().int(),
+  roundId: z.string().nullable(),
+  relatedTransactionId: z.string().nullable(),
+  campaignId: z.number().int().nullable(),
+  createdAt: isoDateTime,
+});
+
+export const transactionHistoryResponseSchema = z.object({
+  userId: z.number().int(),
+  transactions: z.array(historyTransactionSchema),
+  nextCursor: z.number().int().nullable(),
+});
+
+export const sessionHistoryResponseSchema = z.object({
+  userId: z.number().int(),
+  sessions: z.array(
+    z.object({
+      sessionId: z.number().int(),
+      gameId: z.number().int(),
+      providerCode: z.string(),
+      currency: currencyCode,
+      status: z.enum(["active", "expired", "closed"]),
+      roundCount: z.number().int(),
+      totalBet: amountString,
+      totalWin: amountString,
+      totalRollback: amountString,
+      createdAt: isoDateTime,
+      expiresAt: isoDateTime,
+      closedAt: isoDateTime.nullable(),
+    })
+  ),
+  nextCursor: z.number().int().nullable(),
+});
+
+export const statementResponseSchema = z.object({
+  userId: z.number().int(),
+  from: isoDateTime,
+  to: isoDateTime,
+  wallets: z.array(
+    z.object({
+      currency: currencyCode,
+      openingBalance: amountString,
+      totalBet: amountString,
+      totalWin: amountString,
+      totalRollback: amountString,
+      /** Balance changes that are not game transactions, e.g. bonus grants. */
+      otherMovements: amountString,
+      closingBalance: amountString,
+    })
+  ),
+  transactions: z.array(historyTransactionSchema),
+});
+
+// ─── Reports (admin) ─────────────────────────────────────────────
+
+const REPORT_DIMENSIONS = ["day", "game", "provider"] as const;
+const utcDate = z.iso.date().describe("UTC day, YYYY-MM-DD.");
+
+export const revenueReportSchema = z
+  .object({
+    from: utcDate,
+    to: utcDate,
+    /** Comma-separated, e.g. `day,game`. Rows are always per currency. */
+    groupBy: z
+      .string()
+      .optional()
+      .transform((value) => (value ? value.split(",") : []))
+      .pipe(z.array(z.enum(REPORT_DIMENSIONS))),
+    currency: currencyCode.optional(),
+    providerCode: z.string().min(1).optional(),
+    gameId: z.coerce.number().int().positive().optional(),
+  })
+  .refine((input) => input.from <= input.to, { message: "from must not be after to", path: ["to"] });
+export type RevenueReportInput = z.infer<typeof revenueReportSchema>;
+
+export const revenueReportResponseSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  groupBy: z.array(z.enum(REPORT_DIMENSIONS)),
+  /** The newest transaction the figures include. */
+  lastTransactionAt: isoDateTime.nullable(),
+  refreshedAt: isoDateTime.nullable(),
+  rows: z.array(
+    z.object({
+      day: z.string().optional(),
+      gameId: z.number().int().optional(),
+      providerCode: z.string().optional(),
+      currency: currencyCode,
+      betCount: z.number().int(),
+      bets: amountString,
+      wins: amountString,
+      rollbacks: amountString,
+      ggr: amountString.describe("bets − rollbacks − wins"),
+      ngr: amountString.describe("GGR less the net stakes played with bonus funds"),
+      rtp: z.number().nullable().describe("wins / (bets − rollbacks); null without a net stake"),
+      activePlayers: z.number().int(),
+    })
+  ),
+});
+
+export const reportRefreshResponseSchema = z.object({
+  folded: z.number().int().describe("Transactions added to the report tables by this refresh."),
+  lastTransactionId: z.number().int(),
+  lastTransactionAt: isoDateTime.nullable(),
+  refreshedAt: isoDateTime.nullable(),
+});
+
+// ─── Reconciliation (admin) ──────────────────────────────────────
+
+export const providerReconciliationParamsSchema = providerKeysParamsSchema;
+
+export const reconcileProviderSchema = z
+  .object({ from: isoDateTime, to: isoDateTime })
+  .refine((input) => new Date(input.from) < new Date(input.to), {
+    message: "from must be before to",
+    path: ["to"],
+  });
+export type ReconcileProviderInput = z.infer<typeof reconcileProviderSchema>;
+
+export const discrepancyParamsSchema = z.object({ discrepancyId: numericParam });
+
+export const resolveDiscrepancySchema = z.object({
+  resolution: z.string().min(1).max(500), // What was done about it, for the audit trail.
+});
+export type ResolveDiscrepancyInput = z.infer<typeof resolveDiscrepancySchema>;
+
+export const discrepancyResponseSchema = z.object({
+  id: z.number().int(),
+  kind: z.enum(["missing", "amount_mismatch", "orphaned"]),
+  transactionId: z.string(),
+  roundId: z.string().nullable(),
+  transactionType: z.string(),
+  casinoAmount: amountString.nullable(),
+  providerAmount: amountString.nullable(),
+  details: z.record(z.string(), z.unknown()).nullable(),
+  occurredAt: isoDateTime,
+  status: z.enum(["open", "resolved"]),
+  resolution: z.string().nullable(),
+  firstSeenAt: isoDateTime,
+  lastSeenAt: isoDateTime,
+  resolvedAt: isoDateTime.nullable(),
+});
+
+export const reconciliationReportResponseSchema = z.object({
+  providerCode: z.string(),
+  from: isoDateTime,
+  to: isoDateTime,
+  roundsChecked: z.number().int(),
+  providerBets: z.number().int(),
+  casinoTransactions: z.number().int(),
+  cleared: z.number().int(),
+  discrepancies: z.array(discrepancyResponseSchema),
+});
+
+export const discrepanciesResponseSchema = z.object({
+  providerCode: z.string(),
+  discrepancies: z.array(discrepancyResponseSchema),
+});
+
+// ─── Wallet callbacks (provider → casino) ────────────────────────
+
+const walletRequest = z.object({
+  sessionToken: z.string().min(1),
+  userId: entityId,
+  currency: currencyCode,
+});
+
+export const getBalanceSchema = walletRequest;
+export type GetBalanceInput = z.infer<typeof getBalanceSchema>;
+
+export const balanceResponseSchema = z.object({
+  userId: z.number().int(),
+  balance: amountString,
+  cashBalance: amountString,
+  bonusBalance: amountString,
+  currency: currencyCode,
+});
+
+export const debitSchema = walletRequest.extend({
+  transactionId: externalId,
+  roundId: externalId,
+  amount: positiveAmount,
+});
+export type DebitInput = z.infer<typeof debitSchema>;
+
+export const creditSchema = walletRequest.extend({
+  transactionId: externalId,
+  roundId: externalId,
+  amount: nonNegativeAmount,
+  relatedTransactionId: externalId.optional(),
+  campaignId: z.string().min(1).max(100).optional(), // Set on free-round payouts.
+  roundStartedAt: isoDateTime.optional(), // Set on free-round payouts: when the provider started the round.
+  jackpot: z // Set on jackpot payouts.
+    .object({
+      poolCode: z.string().min(1).max(50),
+      winId: z.string().min(1).max(255),
+    })
+    .optional(),
+});
+export type CreditInput = z.infer<typeof creditSchema>;
+
+export const rollbackSchema = walletRequest.extend({
+  transactionId: externalId,
+  roundId: externalId,
+  originalTransactionId: externalId,
+});
+export type RollbackInput = z.infer<typeof rollbackSchema>;
+
+/** Shared by debit, credit and rollback; replays return the cached copy. */
+export const walletTransactionResponseSchema = z.object({
+  transactionId: z.string(),
+  balance: amountString,
+  currency: currencyCode,
+  status: z.literal("ok"),
+  tombstone: z.boolean().optional(),
+});
@@ -1,34 +1,99 @@
 import { randomUUID } from "crypto";
+import { Prisma } from "@prisma/client";
 import { prisma } from "../db";
-import { signBody } from "../lib/hmac";
-
-// ─── Launch Game ─────────────────────────────────────────────────
+import {
+  BadRequestError,
+  BetLimitError,
+  ConflictError,
+  DuplicateTransactionError,
+  ForbiddenError,
+  InsufficientFundsError,
+  NotFoundError,
+  SessionNotFoundError,
+  UpstreamError,
+} from "../lib/errors";
+import {
+  KeyWindowInput,
+  OutboundSecretInput,
+  parseNewKey,
+  parseRetireAt,
+  RetireKeyInput,
+  serializeKey,
+} from "../lib/keys";
+import {
+  recordWagering,
+  reverseWagering,
+  splitStake,
+  splitWinnings,
+  stakeRefund,
+  walletPortions,
+} from "./casino.bonus";
+import { assertWalletMatchesLedger, postBonusGrant, postWalletMovement } from "./casino.ledger";
+import {
+  activeExclusion,
+  assertNotExcluded,
+  assertWithinLimits,
+  effectiveLimit,
+  limitIncreaseDelayMs,
+  limitKey,
+} from "./casino.limits";
+import * as providerClient from "./casino.providerClient";
+import { findSessionRound, recordRoundMovement, roundForCredit, roundForDebit } from "./casino.rounds";
+import type {
+  CloseSessionInput,
+  ConvertBonusInput,
+  CreateFreeSpinsInput,
+  CreditInput,
+  DebitInput,
+  GetBalanceInput,
+  GetLimitsInput,
+  GrantBonusInput,
+  LaunchGameInput,
+  OpenWalletInput,
+  RollbackInput,
+  SelfExcludeInput,
+  SetLimitInput,
+  SimulateRoundInput,
+} from "./casino.schemas";
+
+// ─── Brand scoping ───────────────────────────────────────────────
+
+// Lookups by ID go through these, so a record of another brand is
+// indistinguishable from one that does not exist.
+
+async function findUser(brandId: number, userId: number) {
+  const user = await prisma.casinoUser.findFirst({ where: { id: userId, brandId } });
+  if (!user) throw new NotFoundError("USER_NOT_FOUND", "User not found");
+  return user;
+}
 
-interface LaunchGameInput {
-  userId: number;
-  gameId: number;
-  currency?: string;
+function findBrandGame(brandId: number, gameId: number) {
+  return prisma.casinoGame.findFirst({
+    where: { id: gameId, casinoGameProvider: { brandId } },
+    include: { casinoGameProvider: true },
+  });
 }
 
-export async function launchGame(input: LaunchGameInput) {
-  const user = await prisma.casinoUser.findUnique({
-    where: { id: input.userId },
-    include: { casinoWallets: true },
+// ─── Launch Game ─────────────────────────────────────────────────
+
+export async function launchGame(brandId: number, input: LaunchGameInput) {
+  const user = await prisma.casinoUser.findFirst({
+    where: { id: input.userId, brandId },
+    include: { casinoWallets: { orderBy: { id: "asc" } } },
   });
-  if (!user) throw { status: 404, error: "User not found" };
+  if (!user) throw new NotFoundError("USER_NOT_FOUND", "User not found");
+  await assertNotExcluded(prisma, user.id);
 
   const currency = input.currency || user.casinoWallets[0]?.currencyCode;
   const wallet = user.casinoWallets.find(currentWallet => currentWallet.currencyCode === currency);
-  if (!wallet) throw { status: 404, error: "Wallet not found for the requested currency" };
+  if (!wallet) throw new NotFoundError("WALLET_NOT_FOUND", "Wallet not found for the requested currency");
 
-  const game = await prisma.casinoGame.findUnique({
-    where: { id: input.gameId },
-    include: { casinoGameProvider: true },
-  });
+  const game = await findBrandGame(brandId, input.gameId);
   if (!game || !game.isActive)
-    throw { status: 404, error: "Game not found or inactive" };
+    throw new NotFoundError("GAME_NOT_FOUND", "Game not found or inactive");
   if (game.casinoGameProvider.isDisabled)
-    throw { status: 400, error: "Provider is disabled" };
+    throw new BadRequestError("PROVIDER_DISABLED", "Provider is disabled");
+  providerClient.assertProviderAvailable(game.casinoGameProvider.code);
 
   const sessionToken = randomUUID();
 
@@ -39,11 +104,11 @@ export async function launchGame(input: LaunchGameInput) {
       casinoWalletId: wallet.id,
       casinoGameId: game.id,
       isActive: true,
+      expiresAt: nextSessionExpiry(),
     },
   });
 
   // Call the provider /provider/launch
-  const providerSecret = game.casinoGameProvider.secretKey;
   const launchPayload = {
     sessionToken,
     casinoSessionId: session.id,
@@ -53,26 +118,24 @@ export async function launchGame(input: LaunchGameInput) {
     casinoCode: game.casinoGameProvider.code,
   };
 
-  const providerUrl = `${game.casinoGameProvider.apiEndpoint}/provider/launch`;
-  const signature = signBody(launchPayload, providerSecret);
+  const deactivateSession = () =>
+    prisma.casinoGameSession.update({
+      where: { id: session.id },
+      data: { isActive: false },
+    });
 
-  const providerResponse = await fetch(providerUrl, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "x-provider-signature": signature,
-    },
-    body: JSON.stringify(launchPayload),
-  });
+  const providerResponse = await providerClient
+    .callProvider(game.casinoGameProvider, "/provider/launch", launchPayload)
+    .catch(async (err) => {
+      await deactivateSession();
+      throw err;
+    });
 
   if (!providerResponse.ok) {
     const errorBody = await providerResponse.text();
     console.error("Provider launch failed", { status: providerResponse.status, body: errorBody });
-    await prisma.casinoGameSession.update({
-      where: { id: session.id },
-      data: { isActive: false },
-    });
-    throw { status: 502, error: "Provider launch failed" };
+    await deactivateSession();
+    throw new UpstreamError("Provider launch failed");
   }
 
   const providerData = (await providerResponse.json()) as {
@@ -91,86 +154,877 @@ export async function launchGame(input: LaunchGameInput) {
     sessionId: session.id,
     providerSessionId: providerData.providerSessionId,
     balance: wallet.playableBalance.toString(),
+    currency: wallet.currencyCode,
   };
 }
 
-// ─── Get Balance ─────────────────────────────────────────────────
+// ─── Wallets (admin) ─────────────────────────────────────────────
 
-interface GetBalanceInput {
-  sessionToken: string;
-  userId: number;
+function serializeWallet(wallet: {
+  id: number;
+  casinoUserId: number;
+  currencyCode: string;
+  playableBalance: bigint;
+  redeemableBalance: bigint;
+}) {
+  return {
+    walletId: wallet.id,
+    userId: wallet.casinoUserId,
+    currency: wallet.currencyCode,
+    playableBalance: wallet.playableBalance.toString(),
+    redeemableBalance: wallet.redeemableBalance.toString(),
+  };
 }
 
-export async function getBalance(input: GetBalanceInput) {
-  const session = await prisma.casinoGameSession.findUnique({
-    where: { token: input.sessionToken },
+export async function openWallet(brandId: number, input: OpenWalletInput) {
+  const currencyCode = input.currency;
+
+  const user = await findUser(brandId, Number(input.userId));
+
+  const existingWallet = await prisma.casinoWallet.findUnique({
+    where: { casinoUserId_currencyCode: { casinoUserId: user.id, currencyCode } },
+  });
+  if (existingWallet) {
+    throw new ConflictError("WALLET_EXISTS", "Wallet already exists for this currency");
+  }
+
+  const wallet = await prisma.casinoWallet.create({
+    data: {
+      casinoUserId: user.id,
+      currencyCode,
+    },
+  });
+
+  console.info("Wallet opened", { userId: user.id, walletId: wallet.id, currency: currencyCode });
+
+  return serializeWallet(wallet);
+}
+
+export async function listWallets(brandId: number, userId: number) {
+  const user = await prisma.casinoUser.findFirst({
+    where: { id: userId, brandId },
+    include: { casinoWallets: { orderBy: { id: "asc" } } },
+  });
+  if (!user) throw new NotFoundError("USER_NOT_FOUND", "User not found");
+
+  return {
+    userId: user.id,
+    wallets: user.casinoWallets.map(serializeWallet),
+  };
+}
+
+// ─── Bonuses ─────────────────────────────────────────────────────
+
+function serializeBonus(grant: {
+  id: number;
+  casinoUserId: number;
+  casinoWalletId: number;
+  amount: bigint;
+  wageringRequirement: bigint;
+  wageredAmount: bigint;
+  status: string;
+  convertedAmount: bigint | null;
+  createdAt: Date;
+  convertedAt: Date | null;
+}) {
+  return {
+    bonusId: grant.id,
+    userId: grant.casinoUserId,
+    walletId: grant.casinoWalletId,
+    amount: grant.amount.toString(),
+    wageringRequirement: grant.wageringRequirement.toString(),
+    wageredAmount: grant.wageredAmount.toString(),
+    status: grant.status as "active" | "converted",
+    convertedAmount: grant.convertedAmount?.toString() ?? null,
+    createdAt: grant.createdAt,
+    convertedAt: grant.convertedAt,
+  };
+}
+
+async function findUserWallet(brandId: number, userId: number, currencyCode: string) {
+  const user = await findUser(brandId, userId);
+
+  const wallet = await prisma.casinoWallet.findUnique({
+    where: { casinoUserId_currencyCode: { casinoUserId: user.id, currencyCode } },
+  });
+  if (!wallet) throw new NotFoundError("WALLET_NOT_FOUND", "Wallet not found for the requested currency");
+  return wallet;
+}
+
+export async function grantBonus(brandId: number, input: GrantBonusInput) {
+  const { id: walletId } = await findUserWallet(brandId, input.userId, input.currency);
+  const amount = BigInt(input.amount);
+
+  const grant = await prisma.$transaction(async (tx) => {
+    const wallet = await lockWallet(tx, walletId);
+
+    const activeGrant = await tx.casinoBonusGrant.findFirst({
+      where: { casinoWalletId: wallet.id, status: "active" },
+    });
+    if (activeGrant) {
+      throw new ConflictError("BONUS_ACTIVE", "Wallet already has an active bonus", {
+        bonusId: activeGrant.id,
+      });
+    }
+
+    const newBalance = wallet.playableBalance + amount;
+    await tx.casinoWallet.update({
+      where: { id: wallet.id },
+      data: { playableBalance: newBalance },
+    });
+    await postBonusGrant(tx, wallet, amount);
+    await assertWalletMatchesLedger(tx, wallet.id, newBalance);
+
+    return tx.casinoBonusGrant.create({
+      data: {
+        casinoUserId: wallet.casinoUserId,
+        casinoWalletId: wallet.id,
+        amount,
+        wageringRequirement: amount * BigInt(input.wageringMultiplier),
+      },
+    });
+  });
+
+  console.info("Bonus granted", { userId: input.userId, walletId, bonusId: grant.id, amount: input.amount });
+  return serializeBonus(grant);
+}
+
+export async function listBonuses(brandId: number, userId: number) {
+  const user = await prisma.casinoUser.findFirst({
+    where: { id: userId, brandId },
+    include: { casinoBonusGrants: { orderBy: { id: "asc" } } },
+  });
+  if (!user) throw new NotFoundError("USER_NOT_FOUND", "User not found");
+
+  return {
+    userId: user.id,
+    bonuses: user.casinoBonusGrants.map(serializeBonus),
+  };
+}
+
+// Once the active grant's wagering is met, the whole bonus portion
+// (including winnings it produced) becomes cash and can be withdrawn.
+export async function convertBonus(brandId: number, input: ConvertBonusInput) {
+  const { id: walletId } = await findUserWallet(brandId, input.userId, input.currency);
+
+  const result = await prisma.$transaction(async (tx) => {
+    const wallet = await lockWallet(tx, walletId);
+
+    const grant = await tx.casinoBonusGrant.findFirst({
+      where: { casinoWalletId: wallet.id, status: "active" },
+    });
+    if (!grant) throw new NotFoundError("BONUS_NOT_FOUND", "No active bonus on this wallet");
+    if (grant.wageredAmount < grant.wageringRequirement) {
+      throw new ConflictError("WAGERING_NOT_MET", "Wagering requirement not met", {
+        wageringRequirement: grant.wageringRequirement.toString(),
+        wageredAmount: grant.wageredAmount.toString(),
+      });
+    }
+
+    const portions = walletPortions(wallet);
+    const updatedWallet = await tx.casinoWallet.update({
+      where: { id: wallet.id },
+      data: { redeemableBalance: wallet.playableBalance },
+    });
+    const convertedGrant = await tx.casinoBonusGrant.update({
+      where: { id: grant.id },
+      data: { status: "converted", convertedAmount: portions.bonus, convertedAt: new Date() },
+    });
+    return { wallet: updatedWallet, grant: convertedGrant };
+  });
+
+  console.info("Bonus converted", {
+    userId: input.userId,
+    bonusId: result.grant.id,
+    convertedAmount: result.grant.convertedAmount?.toString(),
+  });
+  return { bonus: serializeBonus(result.grant), wallet: serializeWallet(result.wallet) };
+}
+
+// ─── Free spins (admin) ──────────────────────────────────────────
+
+function serializeFreeSpins(campaign: {
+  campaignId: string;
+  casinoUserId: number;
+  casinoGameId: number;
+  betAmount: bigint;
+  totalRounds: number;
+  remainingRounds: number;
+  totalWinnings: bigint;
+  status: string;
+  expiresAt: Date;
+  createdAt: Date;
+  casinoWallet: { currencyCode: string };
+}) {
+  const expired = campaign.status === "active" && campaign.expiresAt <= new Date();
+  return {
+    campaignId: campaign.campaignId,
+    userId: campaign.casinoUserId,
+    gameId: campaign.casinoGameId,
+    currency: campaign.casinoWallet.currencyCode,
+    betAmount: campaign.betAmount.toString(),
+    totalRounds: campaign.totalRounds,
+    remainingRounds: campaign.remainingRounds,
+    totalWinnings: campaign.totalWinnings.toString(),
+    status: (expired ? "expired" : campaign.status) as "active" | "completed" | "expired" | "cancelled",
+    expiresAt: campaign.expiresAt,
+    createdAt: campaign.createdAt,
+  };
+}
+
+// The campaign is stored first and then registered with the provider, which
+// is what actually lets the player start free rounds. If registration fails
+// the campaign is kept as cancelled.
+export async function createFreeSpins(brandId: number, input: CreateFreeSpinsInput) {
+  const wallet = await findUserWallet(brandId, input.userId, input.currency);
+
+  const game = await findBrandGame(brandId, input.gameId);
+  if (!game || !game.isActive)
+    throw new NotFoundError("GAME_NOT_FOUND", "Game not found or inactive");
+  if (game.casinoGameProvider.isDisabled)
+    throw new BadRequestError("PROVIDER_DISABLED", "Provider is disabled");
+
+  const betAmount = BigInt(input.betAmount);
+  if (betAmount < game.minBet || betAmount > game.maxBet) {
+    throw new BetLimitError();
+  }
+  const expiresAt = new Date(input.expiresAt);
+  if (expiresAt <= new Date()) {
+    throw new BadRequestError("VALIDATION_ERROR", "Campaign already expired", {
+      fields: [{ field: "expiresAt", message: "Must be in the future" }],
+    });
+  }
+
+  const campaign = await prisma.casinoFreeSpinCampaign.create({
+    data: {
+      campaignId: randomUUID(),
+      casinoUserId: wallet.casinoUserId,
+      casinoWalletId: wallet.id,
+      casinoGameId: game.id,
+      betAmount,
+      totalRounds: input.rounds,
+      remainingRounds: input.rounds,
+      expiresAt,
+    },
+    include: { casinoWallet: true },
+  });
+
+  const registerPayload = {
+    campaignId: campaign.campaignId,
+    casinoCode: game.casinoGameProvider.code,
+    userId: wallet.casinoUserId,
+    gameId: game.providerGameId,
+    currency: wallet.currencyCode,
+    rounds: input.rounds,
+    betAmount: input.betAmount,
+    expiresAt: expiresAt.toISOString(),
+  };
+
+  const cancelCampaign = () =>
+    prisma.casinoFreeSpinCampaign.update({
+      where: { id: campaign.id },
+      data: { status: "cancelled" },
+    });
+
+  const providerResponse = await providerClient
+    .callProvider(game.casinoGameProvider, "/provider/freeSpins", registerPayload)
+    .catch(async (err) => {
+      await cancelCampaign();
+      throw err;
+    });
+
+  if (!providerResponse.ok) {
+    const errorBody = await providerResponse.text();
+    console.error("Provider free-spin registration failed", {
+      campaignId: campaign.campaignId,
+      status: providerResponse.status,
+      body: errorBody,
+    });
+    await cancelCampaign();
+    throw new UpstreamError("Provider rejected the free-spin campaign");
+  }
+
+  console.info("Free spins created", {
+    campaignId: campaign.campaignId,
+    userId: wallet.casinoUserId,
+    gameId: game.id,
+    rounds: input.rounds,
+  });
+  return serializeFreeSpins(campaign);
+}
+
+export async function listFreeSpins(brandId: number, userId: number) {
+  const user = await prisma.casinoUser.findFirst({
+    where: { id: userId, brandId },
+    include: { freeSpinCampaigns: { orderBy: { id: "asc" }, include: { casinoWallet: true } } },
+  });
+  if (!user) throw new NotFoundError("USER_NOT_FOUND", "User not found");
+
+  return {
+    userId: user.id,
+    campaigns: user.freeSpinCampaigns.map(serializeFreeSpins),
+  };
+}
+
+// A free-round payout counts one round off its campaign. Expiry is enforced
+// by the provider when the round starts, so a payout retried after expiry
+// for a round played in time still lands.
+async function claimCampaignRound(
+  tx: TransactionClient,
+  campaignId: string,
+  session: { casinoUserId: number; casinoWalletId: number; casinoGameId: number },
+  winnings: bigint
+) {
+  const campaign = await tx.casinoFreeSpinCampaign.findUnique({ where: { campaignId } });
+  if (
+    !campaign ||
+    campaign.casinoUserId !== session.casinoUserId ||
+    campaign.casinoWalletId !== session.casinoWalletId ||
+    campaign.casinoGameId !== session.casinoGameId
+  ) {
+    throw new NotFoundError("CAMPAIGN_NOT_FOUND", "Free-spin campaign not found for this session");
+  }
+  if (campaign.status !== "active" || campaign.remainingRounds <= 0) {
+    throw new ConflictError("CAMPAIGN_EXHAUSTED", "No free rounds left", { campaignId });
+  }
+
+  const remainingRounds = campaign.remainingRounds - 1;
+  return tx.casinoFreeSpinCampaign.update({
+    where: { id: campaign.id },
+    data: {
+      remainingRounds,
+      totalWinnings: { increment: winnings },
+      status: remainingRounds === 0 ? "completed" : "active",
+    },
+  });
+}
+
+// ─── Responsible gaming ──────────────────────────────────────────
+
+function serializeLimit(
+  limit: {
+    limitType: string;
+    period: string | null;
+    currencyCode: string | null;
+    amount: bigint;
+    pendingAmount: bigint | null;
+    pendingEffectiveAt: Date | null;
+  },
+  now = new Date()
+) {
+  const pendingInFuture = limit.pendingEffectiveAt !== null && limit.pendingEffectiveAt > now;
+  return {
+    limitType: limit.limitType as "loss" | "wager" | "session_duration",
+    period: limit.period as "day" | "week" | "month" | null,
+    currency: limit.currencyCode,
+    amount: effectiveLimit(limit, now)?.toString() ?? null,
+    pending: pendingInFuture
+      ? { amount: limit.pendingAmount?.toString() ?? null, effectiveAt: limit.pendingEffectiveAt as Date }
+      : null,
+  };
+}
+
+function serializeExclusion(exclusion: {
+  id: number;
+  casinoUserId: number;
+  exclusionType: string;
+  startsAt: Date;
+  endsAt: Date | null;
+}) {
+  return {
+    exclusionId: exclusion.id,
+    userId: exclusion.casinoUserId,
+    exclusionType: exclusion.exclusionType as "self_exclusion" | "cool_off",
+    startsAt: exclusion.startsAt,
+    endsAt: exclusion.endsAt,
+  };
+}
+
+// Tightening a limit (or adding one) applies at once. Raising or removing
+// one is parked for the cooling delay, so a decision made mid-session can
+// only ever make play safer straight away.
+export async function setLimit(brandId: number, input: SetLimitInput) {
+  const user = await findUser(brandId, input.userId);
+  const period = input.limitType === "session_duration" ? undefined : input.period;
+  const currencyCode = input.limitType === "session_duration" ? undefined : input.currency;
+  const key = limitKey(input.limitType, period, currencyCode);
+  const requested = input.amount === null ? null : BigInt(input.amount);
+  const now = new Date();
+
+  const limit = await prisma.$transaction(async (tx) => {
+    const existing = await tx.casinoUserLimit.findUnique({
+      where: { casinoUserId_limitKey: { casinoUserId: user.id, limitKey: key } },
+    });
+    const current = existing ? effectiveLimit(existing, now) : null;
+
+    if (requested !== null && (current === null || requested <= current)) {
+      return tx.casinoUserLimit.upsert({
+        where: { casinoUserId_limitKey: { casinoUserId: user.id, limitKey: key } },
+        create: {
+          casinoUserId: user.id,
+          limitKey: key,
+          limitType: input.limitType,
+          period: period ?? null,
+          currencyCode: currencyCode ?? null,
+          amount: requested,
+        },
+        update: { amount: requested, pendingAmount: null, pendingEffectiveAt: null },
+      });
+    }
+
+    if (!existing || current === null) {
+      // Removing a limit that is not in force: drop a matured removal, if any.
+      if (existing) await tx.casinoUserLimit.delete({ where: { id: existing.id } });
+      return null;
+    }
+
+    return tx.casinoUserLimit.update({
+      where: { id: existing.id },
+      data: {
+        amount: current,
+        pendingAmount: requested,
+        pendingEffectiveAt: new Date(now.getTime() + limitIncreaseDelayMs()),
+      },
+    });
+  });
+
+  console.info("Responsible gaming limit set", {
+    userId: user.id,
+    limitKey: key,
+    requested: requested?.toString() ?? null,
+    pendingUntil: limit?.pendingEffectiveAt ?? null,
+  });
+
+  if (!limit) {
+    return {
+      limitType: input.limitType,
+      period: period ?? null,
+      currency: currencyCode ?? null,
+      amount: null,
+      pending: null,
+    };
+  }
+  return serializeLimit(limit, now);
+}
+
+export async function getLimits(brandId: number, input: GetLimitsInput) {
+  const user = await findUser(brandId, input.userId);
+  const now = new Date();
+
+  const limits = await prisma.casinoUserLimit.findMany({
+    where: { casinoUserId: user.id },
+    orderBy: { id: "asc" },
+  });
+  const exclusion = await activeExclusion(prisma, user.id, now);
+
+  return {
+    userId: user.id,
+    limits: limits
+      .map((limit) => serializeLimit(limit, now))
+      .filter((limit) => limit.amount !== null || limit.pending !== null),
+    exclusion: exclusion ? serializeExclusion(exclusion) : null,
+  };
+}
+
+// Exclusions only ever add time: a new one never shortens one in force.
+export async function selfExclude(brandId: number, input: SelfExcludeInput) {
+  const user = await findUser(brandId, input.userId);
+  const now = new Date();
+  const endsAt = input.durationDays
+    ? new Date(now.getTime() + input.durationDays * 24 * 60 * 60 * 1000)
+    : null;
+
+  const exclusion = await prisma.casinoUserExclusion.create({
+    data: {
+      casinoUserId: user.id,
+      exclusionType: input.exclusionType,
+      startsAt: now,
+      endsAt,
+    },
+  });
+
+  console.info("Player excluded", {
+    userId: user.id,
+    exclusionType: input.exclusionType,
+    endsAt,
+  });
+  return serializeExclusion(exclusion);
+}
+
+// ─── Provider keys (admin) ───────────────────────────────────────
+
+async function findProviderByCode(brandId: number, providerCode: string) {
+  const provider = await prisma.casinoGameProvider.findUnique({
+    where: { code: providerCode },
+  });
+  if (!provider || provider.brandId !== brandId) throw new NotFoundError("PROVIDER_NOT_FOUND", "Provider not found");
+  return provider;
+}
+
+export async function addProviderKey(brandId: number, providerCode: string, input: KeyWindowInput) {
+  const provider = await findProviderByCode(brandId, providerCode);
+  const newKey = parseNewKey(input);
+
+  const key = await prisma.casinoGameProviderKey.create({
+    data: { casinoGameProviderId: provider.id, ...newKey },
+  });
+
+  console.info("Provider key added", { providerCode, keyId: key.id });
+
+  return { ...serializeKey(key), secret: key.secret };
+}
+
+export async function listProviderKeys(brandId: number, providerCode: string) {
+  const provider = await findProviderByCode(brandId, providerCode);
+
+  const keys = await prisma.casinoGameProviderKey.findMany({
+    where: { casinoGameProviderId: provider.id },
+    orderBy: { id: "asc" },
+  });
+
+  return { providerCode, keys: keys.map(serializeKey) };
+}
+
+export async function retireProviderKey(
+  brandId: number,
+  providerCode: string,
+  keyId: number,
+  input: RetireKeyInput
+) {
+  const provider = await findProviderByCode(brandId, providerCode);
+
+  const key = await prisma.casinoGameProviderKey.findFirst({
+    where: { id: keyId, casinoGameProviderId: provider.id },
+  });
+  if (!key) throw new NotFoundError("KEY_NOT_FOUND", "Key not found");
+
+  const retired = await prisma.casinoGameProviderKey.update({
+    where: { id: key.id },
+    data: { validUntil: parseRetireAt(input) },
+  });
+
+  console.info("Provider key retired", { providerCode, keyId: key.id, validUntil: retired.validUntil });
+
+  return serializeKey(retired);
+}
+
+/**
+ * Replaces the secret the casino signs its calls to the provider with (step 2
+ * of a rotation). The provider must already accept it as an inbound key.
+ */
+export async function setProviderOutboundSecret(
+  brandId: number,
+  providerCode: string,
+  input: OutboundSecretInput
+) {
+  const provider = await findProviderByCode(brandId, providerCode);
+
+  await prisma.casinoGameProvider.update({
+    where: { id: provider.id },
+    data: { secretKey: input.secret },
+  });
+
+  console.info("Provider outbound secret updated", { providerCode });
+
+  return { providerCode, updatedAt: new Date().toISOString() };
+}
+
+// ─── Currency check ──────────────────────────────────────────────
+
+// A session is bound to exactly one wallet, so every provider callback must
+// name that wallet's currency. Anything else is rejected before touching money.
+function assertSessionCurrency(walletCurrency: string, requestedCurrency: string | undefined) {
+  if (requestedCurrency !== walletCurrency) {
+    throw new BadRequestError("CURRENCY_MISMATCH", "Currency mismatch", {
+      expected: walletCurrency,
+      received: requestedCurrency ?? null,
+    });
+  }
+}
+
+// ─── Session lifecycle ───────────────────────────────────────────
+
+const DEFAULT_SESSION_TTL_SECONDS = 1800;
+
+function nextSessionExpiry(): Date {
+  const configured = Number(process.env.SESSION_TTL_SECONDS);
+  const ttlSeconds = configured > 0 ? configured : DEFAULT_SESSION_TTL_SECONDS;
+  return new Date(Date.now() + ttlSeconds * 1000);
+}
+
+function assertSessionActive(session: { isActive: boolean; expiresAt: Date }) {
+  if (!session.isActive) throw new ForbiddenError("SESSION_CLOSED", "Session is closed");
+  if (session.expiresAt <= new Date()) throw new ForbiddenError("SESSION_EXPIRED", "Session has expired");
+}
+
+// Whether `at` falls between launch and the session's close or expiry. A
+// session deactivated without closedAt (a failed launch) was never live.
+function wasLiveAt(
+  session: { isActive: boolean; createdAt: Date; expiresAt: Date; closedAt: Date | null },
+  at: Date
+) {
+  const end = session.isActive ? session.expiresAt : session.closedAt;
+  return end !== null && at >= session.createdAt && at < end && at <= new Date();
+}
+
+// Closing or expiring a session must not cheat the player out of winnings:
+// a credit is still accepted if its round was opened (debited) on this
+// session while it was live. A free round has no debit, so its payout names
+// when the provider started it instead. New rounds need an active session.
+function assertCanSettleRound(
+  session: { isActive: boolean; createdAt: Date; expiresAt: Date; closedAt: Date | null },
+  round: { debitCount: number },
+  freeRoundStartedAt?: Date
+) {
+  if (round.debitCount > 0) return;
+  if (freeRoundStartedAt && wasLiveAt(session, freeRoundStartedAt)) return;
+  assertSessionActive(session);
+}
+
+// Sliding expiry: any wallet activity on a live session pushes expiry out by
+// another TTL. Closed or already-expired sessions are left as they are.
+async function touchSession(client: TransactionClient, sessionId: number) {
+  await client.casinoGameSession.updateMany({
+    where: { id: sessionId, isActive: true, expiresAt: { gt: new Date() } },
+    data: { expiresAt: nextSessionExpiry() },
+  });
+}
+
+// ─── Close Session ───────────────────────────────────────────────
+
+export async function closeSession(brandId: number, input: CloseSessionInput) {
+  const session = await prisma.casinoGameSession.findFirst({
+    where: { token: input.sessionToken, casinoUser: { brandId } },
+    include: { casinoGame: { include: { casinoGameProvider: true } } },
+  });
+  if (!session || session.casinoUserId !== input.userId) {
+    throw new SessionNotFoundError();
+  }
+
+  if (!session.isActive) {
+    return { sessionToken: session.token, status: "closed", closedAt: session.closedAt };
+  }
+
+  const closedSession = await prisma.casinoGameSession.update({
+    where: { id: session.id },
+    data: { isActive: false, closedAt: new Date() },
+  });
+
+  console.info("Session closed", { sessionId: session.id });
+
+  if (session.providerSessionId) {
+    await notifyProviderSessionClosed(session.casinoGame.casinoGameProvider, session.providerSessionId);
+  }
+
+  return { sessionToken: session.token, status: "closed", closedAt: closedSession.closedAt };
+}
+
+// Best effort: the casino has already closed the session and will reject new
+// debits, so a provider that misses this only learns about it on its next bet.
+async function notifyProviderSessionClosed(
+  provider: { code: string; apiEndpoint: string; secretKey: string },
+  providerSessionId: string
+) {
+  try {
+    const response = await providerClient.callProvider(provider, "/provider/closeSession", {
+      providerSessionId,
+      casinoCode: provider.code,
+    });
+    if (!response.ok) {
+      console.warn("Provider closeSession rejected", {
+        providerSessionId,
+        status: response.status,
+        body: await response.text(),
+      });
+    }
+  } catch (err) {
+    console.warn("Provider closeSession failed", { providerSessionId, err });
+  }
+}
+
+// ─── Get Balance ─────────────────────────────────────────────────
+
+export async function getBalance(brandId: number, input: GetBalanceInput) {
+  const session = await prisma.casinoGameSession.findFirst({
+    where: { token: input.sessionToken, casinoUser: { brandId } },
     include: { casinoWallet: true },
   });
 
   if (!session || session.casinoUserId !== input.userId) {
-    throw { status: 404, error: "Session not found" };
+    throw new SessionNotFoundError();
   }
+  assertSessionCurrency(session.casinoWallet.currencyCode, input.currency);
+  assertSessionActive(session);
+  await touchSession(prisma, session.id);
 
+  const portions = walletPortions(session.casinoWallet);
   return {
     userId: input.userId,
     balance: session.casinoWallet.playableBalance.toString(),
+    cashBalance: portions.cash.toString(),
+    bonusBalance: portions.bonus.toString(),
     currency: session.casinoWallet.currencyCode,
   };
 }
 
-// ─── Debit ───────────────────────────────────────────────────────
+// ─── Wallet locking & idempotency ────────────────────────────────
+
+type TransactionClient = Prisma.TransactionClient;
+
+// Takes a row-level lock on the wallet for the rest of the transaction.
+// Concurrent debits/credits/rollbacks on the same wallet queue up here, so
+// the balance read below can never be stale when it is written back.
+async function lockWallet(tx: TransactionClient, walletId: number) {
+  await tx.$queryRaw`SELECT id FROM casino_wallets WHERE id = ${walletId} FOR UPDATE`;
 
-interface DebitInput {
-  sessionToken: string;
-  userId: number;
-  transactionId: string;
-  roundId: string;
-  amount: number;
+  const wallet = await tx.casinoWallet.findUnique({
+    where: { id: walletId },
+  });
+  if (!wallet) throw new NotFoundError("WALLET_NOT_FOUND", "Wallet not found");
+  return wallet;
 }
 
-export async function debit(input: DebitInput) {
-  const debitAmount = BigInt(input.amount);
+type WalletTransactionType = "debit" | "credit" | "rollback";
+
+// Transaction IDs are unique across brands, so a stored transaction is only
+// looked up together with the brand of the wallet it moved.
+const WITH_BRAND = { casinoWallet: { select: { casinoUser: { select: { brandId: true } } } } } as const;
+
+// A replayed transactionId must be a replay of the same operation. Reusing
+// one for a different operation is a provider bug, not a retry, and one
+// used by another brand is never answered from that brand's cache.
+function cachedResponseFor(
+  existingTransaction: {
+    transactionType: string;
+    responseCache: Prisma.JsonValue;
+    casinoWallet: { casinoUser: { brandId: number } };
+  },
+  brandId: number,
+  transactionId: string,
+  transactionType: WalletTransactionType
+) {
+  if (
+    existingTransaction.casinoWallet.casinoUser.brandId !== brandId ||
+    existingTransaction.transactionType !== transactionType
+  ) {
+    throw new DuplicateTransactionError(transactionId);
+  }
+  return existingTransaction.responseCache;
+}
 
-  // Idempotency check
-  const existingTransaction = await prisma.casinoTransaction.findUnique({
-    where: { externalTransactionId: input.transactionId },
+// Must run after lockWallet: a concurrent duplicate holding the same wallet
+// lock has either committed its row (and we return its cached response) or
+// rolled back (and we process the request ourselves).
+async function findCachedResponse(
+  tx: TransactionClient,
+  brandId: number,
+  transactionId: string,
+  transactionType: WalletTransactionType
+) {
+  const existingTransaction = await tx.casinoTransaction.findUnique({
+    where: { externalTransactionId: transactionId },
+    include: WITH_BRAND,
   });
-  if (existingTransaction) {
-    console.info("Debit idempotent hit", { transactionId: input.transactionId });
-    return existingTransaction.responseCache;
+  return existingTransaction
+    ? cachedResponseFor(existingTransaction, brandId, transactionId, transactionType)
+    : null;
+}
+
+// Runs a wallet mutation in an interactive transaction. A duplicate
+// transactionId sent against a different session/wallet is not serialized
+// by the wallet lock, so the UNIQUE constraint is the last line of defence:
+// instead of surfacing it as a 500 we return the winner's cached response.
+async function runWalletTransaction<T>(
+  brandId: number,
+  transactionId: string,
+  transactionType: WalletTransactionType,
+  operation: (tx: TransactionClient) => Promise<T>
+): Promise<T | Prisma.JsonValue> {
+  try {
+    // Callers may queue behind the wallet lock, so allow more than the
+    // default 2s/5s before giving up on a slot or the transaction itself.
+    return await prisma.$transaction(operation, { maxWait: 10_000, timeout: 15_000 });
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+      const existingTransaction = await prisma.casinoTransaction.findUnique({
+        where: { externalTransactionId: transactionId },
+        include: WITH_BRAND,
+      });
+      if (existingTransaction) {
+        console.info("Concurrent duplicate resolved from cache", { transactionId });
+        return cachedResponseFor(existingTransaction, brandId, transactionId, transactionType);
+      }
+    }
+    throw err;
   }
+}
 
-  const session = await prisma.casinoGameSession.findUnique({
-    where: { token: input.sessionToken },
+// ─── Debit ───────────────────────────────────────────────────────
+
+export async function debit(brandId: number, input: DebitInput) {
+  const debitAmount = BigInt(input.amount);
+
+  const session = await prisma.casinoGameSession.findFirst({
+    where: { token: input.sessionToken, casinoUser: { brandId } },
     include: { casinoWallet: true, casinoGame: true },
   });
   if (!session || session.casinoUserId !== input.userId) {
-    throw { status: 404, error: "Session not found" };
+    throw new SessionNotFoundError();
   }
 
-  if (debitAmount < session.casinoGame.minBet || debitAmount > session.casinoGame.maxBet) {
-    throw { status: 400, error: "Bet amount out of range" };
-  }
+  let idempotentHit = false;
+  const result = await runWalletTransaction(brandId, input.transactionId, "debit", async (tx) => {
+    const wallet = await lockWallet(tx, session.casinoWalletId);
 
-  // NOTE: In a high-concurrency production environment, this should use
-  // SELECT ... FOR UPDATE (pessimistic locking) to prevent race conditions.
-  // Prisma's interactive transaction provides atomicity, which is sufficient
-  // for this test scope without concurrent access.
-  const result = await prisma.$transaction(async (tx) => {
-    const wallet = await tx.casinoWallet.findUnique({
-      where: { id: session.casinoWalletId },
+    const cachedResponse = await findCachedResponse(tx, brandId, input.transactionId, "debit");
+    if (cachedResponse) {
+      idempotentHit = true;
+      return cachedResponse;
+    }
+
+    // Checked after the cache, like the session state: a retry of an
+    // accepted debit must get its cached answer even if the game's limits
+    // have since been tightened.
+    assertSessionCurrency(session.casinoWallet.currencyCode, input.currency);
+    if (debitAmount < session.casinoGame.minBet || debitAmount > session.casinoGame.maxBet) {
+      throw new BetLimitError();
+    }
+    assertSessionActive(session);
+
+    // A debit that arrives after its own rollback (e.g. a delayed retry behind
+    // a provider timeout) must not charge: the provider already gave up on it.
+    const tombstone = await tx.casinoTransaction.findFirst({
+      where: {
+        transactionType: "rollback",
+        relatedExternalTransactionId: input.transactionId,
+        casinoWallet: { casinoUser: { brandId } },
+      },
+    });
+    if (tombstone) {
+      throw new ConflictError("ALREADY_ROLLED_BACK", "Transaction already rolled back");
+    }
+    const round = await roundForDebit(tx, session, input.roundId);
+
+    await assertNotExcluded(tx, session.casinoUserId);
+    await assertWithinLimits(tx, {
+      userId: session.casinoUserId,
+      walletId: wallet.id,
+      currencyCode: wallet.currencyCode,
+      stake: debitAmount,
+      sessionStartedAt: session.createdAt,
     });
-    if (!wallet) throw new Error("Wallet not found");
 
     if (wallet.playableBalance < debitAmount) {
-      throw new Error("INSUFFICIENT_FUNDS");
+      throw new InsufficientFundsError();
     }
 
     const newBalance = wallet.playableBalance - debitAmount;
+    const portions = walletPortions(wallet);
+    const split = splitStake(portions, debitAmount);
 
     await tx.casinoWallet.update({
       where: { id: wallet.id },
-      data: { playableBalance: newBalance },
+      data: { playableBalance: newBalance, redeemableBalance: portions.cash - split.cash },
     });
 
     const responsePayload = {
@@ -180,68 +1034,91 @@ export async function debit(input: DebitInput) {
       status: "ok",
     };
 
-    await tx.casinoTransaction.create({
+    const transaction = await tx.casinoTransaction.create({
       data: {
         casinoWalletId: wallet.id,
         casinoGameSessionId: session.id,
+        casinoRoundId: round.id,
         transactionType: "debit",
         amount: debitAmount,
+        cashAmount: split.cash,
+        bonusAmount: split.bonus,
         externalTransactionId: input.transactionId,
         externalRoundId: input.roundId,
         balanceAfter: newBalance,
         responseCache: responsePayload,
       },
     });
+    await recordRoundMovement(tx, round, { type: "debit", amount: debitAmount });
+    await postWalletMovement(tx, {
+      wallet,
+      casinoGameId: session.casinoGameId,
+      casinoTransactionId: transaction.id,
+      entryType: "debit",
+      amount: debitAmount,
+    });
+    await assertWalletMatchesLedger(tx, wallet.id, newBalance);
+    await recordWagering(tx, wallet.id, debitAmount);
+    await touchSession(tx, session.id);
 
     return responsePayload;
   });
 
-  console.info("Debit processed", { transactionId: input.transactionId, amount: input.amount });
+  if (idempotentHit) {
+    console.info("Debit idempotent hit", { transactionId: input.transactionId });
+  } else {
+    console.info("Debit processed", { transactionId: input.transactionId, amount: input.amount });
+  }
   return result;
 }
 
 // ─── Credit ──────────────────────────────────────────────────────
 
-interface CreditInput {
-  sessionToken: string;
-  userId: number;
-  transactionId: string;
-  roundId: string;
-  amount: number;
-  relatedTransactionId?: string;
-}
-
-export async function credit(input: CreditInput) {
+export async function credit(brandId: number, input: CreditInput) {
   const creditAmount = BigInt(input.amount);
 
-  // Idempotency check
-  const existingTransaction = await prisma.casinoTransaction.findUnique({
-    where: { externalTransactionId: input.transactionId },
-  });
-  if (existingTransaction) {
-    console.info("Credit idempotent hit", { transactionId: input.transactionId });
-    return existingTransaction.responseCache;
-  }
-
-  const session = await prisma.casinoGameSession.findUnique({
-    where: { token: input.sessionToken },
-    include: { casinoWallet: true },
+  const session = await prisma.casinoGameSession.findFirst({
+    where: { token: input.sessionToken, casinoUser: { brandId } },
+    include: { casinoWallet: true, casinoGame: true },
   });
   if (!session || session.casinoUserId !== input.userId) {
-    throw { status: 404, error: "Session not found" };
+    throw new SessionNotFoundError();
   }
 
-  const result = await prisma.$transaction(async (tx) => {
-    const wallet = await tx.casinoWallet.findUnique({
-      where: { id: session.casinoWalletId },
+  let idempotentHit = false;
+  const result = await runWalletTransaction(brandId, input.transactionId, "credit", async (tx) => {
+    const wallet = await lockWallet(tx, session.casinoWalletId);
+
+    const cachedResponse = await findCachedResponse(tx, brandId, input.transactionId, "credit");
+    if (cachedResponse) {
+      idempotentHit = true;
+      return cachedResponse;
+    }
+    assertSessionCurrency(session.casinoWallet.currencyCode, input.currency);
+
+    const round = await roundForCredit(tx, session, {
+      roundId: input.roundId,
+      relatedTransactionId: input.relatedTransactionId,
+      freeRound: Boolean(input.campaignId),
     });
-    if (!wallet) throw new Error("Wallet not found");
+    assertCanSettleRound(
+      session,
+      round,
+      input.campaignId && input.roundStartedAt ? new Date(input.roundStartedAt) : undefined
+    );
+    // Runs under the wallet lock, and a campaign belongs to one wallet, so
+    // concurrent payouts cannot both take its last round.
+    const campaign = input.campaignId
+      ? await claimCampaignRound(tx, input.campaignId, session, creditAmount)
+      : null;
 
     const newBalance = wallet.playableBalance + creditAmount;
+    const portions = walletPortions(wallet);
+    const split = await splitWinnings(tx, wallet.id, input.roundId, creditAmount);
 
     await tx.casinoWallet.update({
       where: { id: wallet.id },
-      data: { playableBalance: newBalance },
+      data: { playableBalance: newBalance, redeemableBalance: portions.cash + split.cash },
     });
 
     const responsePayload = {
@@ -251,118 +1128,160 @@ export async function credit(input: CreditInput) {
       status: "ok",
     };
 
-    await tx.casinoTransaction.create({
+    const transaction = await tx.casinoTransaction.create({
       data: {
         casinoWalletId: wallet.id,
         casinoGameSessionId: session.id,
+        casinoRoundId: round.id,
         transactionType: "credit",
         amount: creditAmount,
+        cashAmount: split.cash,
+        bonusAmount: split.bonus,
         externalTransactionId: input.transactionId,
         externalRoundId: input.roundId,
         relatedExternalTransactionId: input.relatedTransactionId || null,
+        freeSpinCampaignId: campaign?.id ?? null,
         balanceAfter: newBalance,
         responseCache: responsePayload,
       },
     });
+    await recordRoundMovement(tx, round, { type: "credit", amount: creditAmount });
+    if (input.jackpot) {
+      await tx.casinoJackpotWin.create({
+        data: {
+          casinoTransactionId: transaction.id,
+          casinoUserId: session.casinoUserId,
+          casinoGameId: session.casinoGameId,
+          poolCode: input.jackpot.poolCode,
+          providerWinId: input.jackpot.winId,
+          amount: creditAmount,
+          currencyCode: wallet.currencyCode,
+        },
+      });
+    }
+    await postWalletMovement(tx, {
+      wallet,
+      casinoGameId: session.casinoGameId,
+      casinoTransactionId: transaction.id,
+      entryType: "credit",
+      amount: creditAmount,
+    });
+    await assertWalletMatchesLedger(tx, wallet.id, newBalance);
+    await touchSession(tx, session.id);
 
     return responsePayload;
   });
 
-  console.info("Credit processed", { transactionId: input.transactionId, amount: input.amount });
+  if (idempotentHit) {
+    console.info("Credit idempotent hit", { transactionId: input.transactionId });
+  } else {
+    console.info("Credit processed", {
+      transactionId: input.transactionId,
+      amount: input.amount,
+      campaignId: input.campaignId,
+      jackpot: input.jackpot?.poolCode,
+    });
+  }
   return result;
 }
 
 // ─── Rollback ────────────────────────────────────────────────────
 
-interface RollbackInput {
-  sessionToken: string;
-  userId: number;
-  transactionId: string;
-  roundId: string;
-  originalTransactionId: string;
-}
-
-export async function rollback(input: RollbackInput) {
-  // Idempotency check
-  const existingTransaction = await prisma.casinoTransaction.findUnique({
-    where: { externalTransactionId: input.transactionId },
-  });
-  if (existingTransaction) {
-    console.info("Rollback idempotent hit", { transactionId: input.transactionId });
-    return existingTransaction.responseCache;
-  }
-
-  const session = await prisma.casinoGameSession.findUnique({
-    where: { token: input.sessionToken },
-    include: { casinoWallet: true },
+export async function rollback(brandId: number, input: RollbackInput) {
+  const session = await prisma.casinoGameSession.findFirst({
+    where: { token: input.sessionToken, casinoUser: { brandId } },
+    include: { casinoWallet: true, casinoGame: true },
   });
   if (!session || session.casinoUserId !== input.userId) {
-    throw { status: 404, error: "Session not found" };
+    throw new SessionNotFoundError();
   }
 
-  // Find the original bet transaction
-  const originalTransaction = await prisma.casinoTransaction.findUnique({
-    where: { externalTransactionId: input.originalTransactionId },
-  });
+  // No session-state check: a rollback only ever returns a stake placed while
+  // the session was live (or records a tombstone), so it may always settle.
+  let outcome = "processed" as "processed" | "idempotent" | "tombstone";
+  const result = await runWalletTransaction(brandId, input.transactionId, "rollback", async (tx) => {
+    const wallet = await lockWallet(tx, session.casinoWalletId);
 
-  // Tombstone rule: if original not found, record marker and return success
-  if (!originalTransaction) {
-    const tombstoneResponse = {
-      transactionId: input.transactionId,
-      balance: session.casinoWallet.playableBalance.toString(),
-      currency: session.casinoWallet.currencyCode,
-      status: "ok",
-      tombstone: true,
-    };
+    const cachedResponse = await findCachedResponse(tx, brandId, input.transactionId, "rollback");
+    if (cachedResponse) {
+      outcome = "idempotent";
+      return cachedResponse;
+    }
+    assertSessionCurrency(session.casinoWallet.currencyCode, input.currency);
 
-    await prisma.casinoTransaction.create({
-      data: {
-        casinoWalletId: session.casinoWalletId,
-        casinoGameSessionId: session.id,
-        transactionType: "rollback",
-        amount: BigInt(0),
-        externalTransactionId: input.transactionId,
-        externalRoundId: input.roundId,
-        relatedExternalTransactionId: input.originalTransactionId,
-        balanceAfter: session.casinoWallet.playableBalance,
-        responseCache: tombstoneResponse,
+    // Find the original bet transaction; another brand's counts as not found
+    const originalTransaction = await tx.casinoTransaction.findFirst({
+      where: {
+        externalTransactionId: input.originalTransactionId,
+        casinoWallet: { casinoUser: { brandId } },
       },
     });
 
-    console.info("Rollback tombstone created", {
-      transactionId: input.transactionId,
-      originalTransactionId: input.originalTransactionId,
-    });
-    return tombstoneResponse;
-  }
+    const round = await findSessionRound(tx, session, input.roundId);
+
+    // Tombstone rule: if original not found, record marker and return success
+    if (!originalTransaction) {
+      const tombstoneResponse = {
+        transactionId: input.transactionId,
+        balance: wallet.playableBalance.toString(),
+        currency: wallet.currencyCode,
+        status: "ok",
+        tombstone: true,
+      };
+
+      await tx.casinoTransaction.create({
+        data: {
+          casinoWalletId: wallet.id,
+          casinoGameSessionId: session.id,
+          casinoRoundId: round?.id ?? null,
+          transactionType: "rollback",
+          amount: BigInt(0),
+          externalTransactionId: input.transactionId,
+          externalRoundId: input.roundId,
+          relatedExternalTransactionId: input.originalTransactionId,
+          balanceAfter: wallet.playableBalance,
+          responseCache: tombstoneResponse,
+        },
+      });
+
+      outcome = "tombstone";
+      return tombstoneResponse;
+    }
 
-  // Only bets can be rolled back
-  if (originalTransaction.transactionType !== "debit") {
-    throw { status: 400, error: "Only bets (debits) can be rolled back" };
-  }
+    // Only bets can be rolled back
+    if (originalTransaction.transactionType !== "debit") {
+      throw new BadRequestError("ROLLBACK_NOT_ALLOWED", "Only bets (debits) can be rolled back");
+    }
 
-  // Check if round already has a payout
-  const existingPayout = await prisma.casinoTransaction.findFirst({
-    where: {
-      externalRoundId: input.roundId,
-      transactionType: "credit",
-    },
-  });
-  if (existingPayout) {
-    throw { status: 400, error: "Cannot rollback: round already has a payout" };
-  }
+    if (originalTransaction.casinoRoundId !== null && originalTransaction.casinoRoundId !== round?.id) {
+      throw new ConflictError("ROUND_MISMATCH", "Original transaction is on another round", {
+        roundId: input.roundId,
+        originalTransactionId: input.originalTransactionId,
+      });
+    }
 
-  const result = await prisma.$transaction(async (tx) => {
-    const wallet = await tx.casinoWallet.findUnique({
-      where: { id: session.casinoWalletId },
-    });
-    if (!wallet) throw new Error("Wallet not found");
+    // Check if round already has a payout. Transactions from before rounds
+    // existed have none, so fall back to the session's own history.
+    const existingPayout = round
+      ? round.creditCount > 0
+      : await tx.casinoTransaction.findFirst({
+          where: {
+            casinoGameSessionId: session.id,
+            externalRoundId: input.roundId,
+            transactionType: "credit",
+          },
+        });
+    if (existingPayout) {
+      throw new BadRequestError("ROLLBACK_NOT_ALLOWED", "Cannot rollback: round already has a payout");
+    }
 
     const newBalance = wallet.playableBalance + originalTransaction.amount;
+    const portions = walletPortions(wallet);
+    const refund = stakeRefund(originalTransaction);
 
     await tx.casinoWallet.update({
       where: { id: wallet.id },
-      data: { playableBalance: newBalance },
+      data: { playableBalance: newBalance, redeemableBalance: portions.cash + refund.cash },
     });
 
     const responsePayload = {
@@ -372,12 +1291,15 @@ export async function rollback(input: RollbackInput) {
       status: "ok",
     };
 
-    await tx.casinoTransaction.create({
+    const transaction = await tx.casinoTransaction.create({
       data: {
         casinoWalletId: wallet.id,
         casinoGameSessionId: session.id,
+        casinoRoundId: round?.id ?? null,
         transactionType: "rollback",
         amount: originalTransaction.amount,
+        cashAmount: refund.cash,
+        bonusAmount: refund.bonus,
         externalTransactionId: input.transactionId,
         externalRoundId: input.roundId,
         relatedExternalTransactionId: input.originalTransactionId,
@@ -385,38 +1307,50 @@ export async function rollback(input: RollbackInput) {
         responseCache: responsePayload,
       },
     });
+    await postWalletMovement(tx, {
+      wallet,
+      casinoGameId: session.casinoGameId,
+      casinoTransactionId: transaction.id,
+      entryType: "rollback",
+      amount: originalTransaction.amount,
+    });
+    await assertWalletMatchesLedger(tx, wallet.id, newBalance);
+    if (round) {
+      await recordRoundMovement(tx, round, { type: "rollback", amount: originalTransaction.amount });
+    }
+    await reverseWagering(tx, wallet.id, originalTransaction.amount, originalTransaction.createdAt);
+    await touchSession(tx, session.id);
 
     return responsePayload;
   });
 
-  console.info("Rollback processed", {
-    transactionId: input.transactionId,
-    originalTransactionId: input.originalTransactionId,
-  });
+  if (outcome === "idempotent") {
+    console.info("Rollback idempotent hit", { transactionId: input.transactionId });
+  } else if (outcome === "tombstone") {
+    console.info("Rollback tombstone created", {
+      transactionId: input.transactionId,
+      originalTransactionId: input.originalTransactionId,
+    });
+  } else {
+    console.info("Rollback processed", {
+      transactionId: input.transactionId,
+      originalTransactionId: input.originalTransactionId,
+    });
+  }
   return result;
 }
 
 // ─── Simulate Round ──────────────────────────────────────────────
 
-interface SimulateRoundInput {
-  userId: number;
-  gameId: number;
-  currency?: string;
-}
+const SIMULATE_TIMEOUT_MS = 30_000;
 
-export async function simulateRound(input: SimulateRoundInput) {
+export async function simulateRound(brandId: number, input: SimulateRoundInput) {
   // Reuse launchGame to create session + call provider launch
-  const launchResult = await launchGame(input);
+  const launchResult = await launchGame(brandId, input);
 
   // Need game data for provider call
-  const game = await prisma.casinoGame.findUnique({
-    where: { id: input.gameId },
-    include: { casinoGameProvider: true },
-  });
-  if (!game) throw { status: 404, error: "Game not found" };
-
-  const providerSecret = game.casinoGameProvider.secretKey;
-  const providerBaseUrl = game.casinoGameProvider.apiEndpoint;
+  const game = await findBrandGame(brandId, input.gameId);
+  if (!game) throw new NotFoundError("GAME_NOT_FOUND", "Game not found");
 
   // Call provider /provider/simulate
   const simulatePayload = {
@@ -424,25 +1358,22 @@ export async function simulateRound(input: SimulateRoundInput) {
     providerSessionId: launchResult.providerSessionId,
     userId: input.userId,
     gameId: game.providerGameId,
-    currency: input.currency || "USD",
+    currency: launchResult.currency,
     casinoCode: game.casinoGameProvider.code,
   };
 
-  const simulateSignature = signBody(simulatePayload, providerSecret);
-
-  const simulateResponse = await fetch(`${providerBaseUrl}/provider/simulate`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "x-provider-signature": simulateSignature,
-    },
-    body: JSON.stringify(simulatePayload),
-  });
+  // The provider plays the whole round, callbacks included, before it answers
+  const simulateResponse = await providerClient.callProvider(
+    game.casinoGameProvider,
+    "/provider/simulate",
+    simulatePayload,
+    { timeoutMs: SIMULATE_TIMEOUT_MS }
+  );
 
   if (!simulateResponse.ok) {
     const errorBody = await simulateResponse.text();
     console.error("Provider simulate failed", { status: simulateResponse.status, body: errorBody });
-    throw { status: 502, error: "Provider simulate failed" };
+    throw new UpstreamError("Provider simulate failed");
   }
 
   const simulateData = await simulateResponse.json();
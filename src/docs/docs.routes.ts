@@ -0,0 +1,32 @@
+import { Router } from "express";
+import { casinoRouteSpecs } from "../casino/casino.openapi";
+import { buildOpenApiDocument, RouteSpec } from "../lib/openapi";
+import { providerRouteSpecs } from "../provider/provider.openapi";
+
+export const apiRouteSpecs: RouteSpec[] = [...casinoRouteSpecs, ...providerRouteSpecs];
+
+// Built once: the schemas are static for the life of the process.
+const openApiDocument = buildOpenApiDocument(apiRouteSpecs);
+
+const docsPage = `<!DOCTYPE html>
+<html>
+  <head>
+    <title>Casino & Game Provider Integration API</title>
+    <meta charset="utf-8" />
+  </head>
+  <body>
+    <redoc spec-url="/docs/openapi.json"></redoc>
+    <script src="https://cdn.redoc.ly/redoc/latest/bundles/redoc.standalone.js"></script>
+  </body>
+</html>`;
+
+const router: Router = Router();
+
+router.get("/", (_req, res) => {
+  res.type("html").send(docsPage);
+});
+router.get("/openapi.json", (_req, res) => {
+  res.json(openApiDocument);
+});
+
+export default router;
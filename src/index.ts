@@ -1,6 +1,9 @@
 import "dotenv/config";
 import app from "./app";
+import { startCatalogSyncWorker } from "./casino/casino.catalog";
+import { startReportRefreshWorker } from "./casino/casino.reporting";
 import { prisma } from "./db";
+import { startOutboxWorker } from "./provider/provider.callbacks";
 
 const PORT = Number(process.env.PORT) || 3000;
 
@@ -8,8 +11,15 @@ app.listen(PORT, () => {
   console.info(`Casino API is running on port ${PORT}!`);
 });
 
+const stopOutboxWorker = startOutboxWorker();
+const stopCatalogSyncWorker = startCatalogSyncWorker();
+const stopReportRefreshWorker = startReportRefreshWorker();
+
 const shutdown = async (signal: string) => {
   console.info(`${signal} received – shutting down`);
+  stopOutboxWorker();
+  stopCatalogSyncWorker();
+  stopReportRefreshWorker();
   await prisma.$disconnect();
   process.exit(0);
 };
@@ -0,0 +1,33 @@
+import crypto from "crypto";
+import { Request, Response, NextFunction } from "express";
+import { AppError, UnauthorizedError } from "./errors";
+
+export function verifyAdminKey(
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): void {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    console.error("ADMIN_API_KEY not configured");
+    next(new AppError(500, "MISCONFIGURED", "Server misconfiguration"));
+    return;
+  }
+
+  const providedKey = req.header("x-admin-key");
+  const providedBuffer = Buffer.from(providedKey ?? "");
+  const expectedBuffer = Buffer.from(adminKey);
+  if (
+    providedBuffer.length !== expectedBuffer.length ||
+    !crypto.timingSafeEqual(providedBuffer, expectedBuffer)
+  ) {
+    console.warn("Invalid admin key", {
+      path: req.path,
+      ip: req.ip,
+    });
+    next(new UnauthorizedError("UNAUTHORIZED", "Unauthorized"));
+    return;
+  }
+
+  next();
+}
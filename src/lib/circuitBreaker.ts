@@ -0,0 +1,95 @@
+/**
+ * Circuit breaker for calls to one counterparty:
+ *
+ *   closed     calls go through; `failureThreshold` failures in a row open it
+ *   open       calls are refused without being made, for `openMs`
+ *   half_open  after `openMs` one probe call is let through: success closes
+ *              the breaker, failure opens it again for another `openMs`
+ *
+ * State is kept in memory, so each process trips its own breakers.
+ */
+
+export type BreakerState = "closed" | "open" | "half_open";
+
+export interface BreakerOptions {
+  failureThreshold: number;
+  openMs: number;
+}
+
+export interface BreakerSnapshot {
+  state: BreakerState;
+  consecutiveFailures: number;
+  openedAt: Date | null;
+  /** When an open breaker lets its next probe through. */
+  retryAt: Date | null;
+  lastFailureAt: Date | null;
+  lastFailure: string | null;
+  lastSuccessAt: Date | null;
+}
+
+export class CircuitBreaker {
+  private state: BreakerState = "closed";
+  private consecutiveFailures = 0;
+  private openedAtMs: number | null = null;
+  private probeInFlight = false;
+  private lastFailureAtMs: number | null = null;
+  private lastFailure: string | null = null;
+  private lastSuccessAtMs: number | null = null;
+
+  constructor(private readonly options: BreakerOptions) {}
+
+  /**
+   * Whether a call may be made now. Once an open breaker has waited
+   * `openMs`, the first caller to ask becomes the half-open probe.
+   */
+  tryAcquire(now = Date.now()): boolean {
+    if (this.state === "closed") return true;
+    if (this.state === "open" && this.openedAtMs !== null && now - this.openedAtMs >= this.options.openMs) {
+      this.state = "half_open";
+      this.probeInFlight = false;
+    }
+    if (this.state === "half_open" && !this.probeInFlight) {
+      this.probeInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(now = Date.now()) {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.openedAtMs = null;
+    this.probeInFlight = false;
+    this.lastSuccessAtMs = now;
+  }
+
+  /** Returns true when this failure opened the breaker. */
+  recordFailure(reason: string, now = Date.now()): boolean {
+    this.consecutiveFailures += 1;
+    this.lastFailureAtMs = now;
+    this.lastFailure = reason;
+    this.probeInFlight = false;
+
+    const opens =
+      this.state === "half_open" ||
+      (this.state === "closed" && this.consecutiveFailures >= this.options.failureThreshold);
+    if (opens) {
+      this.state = "open";
+      this.openedAtMs = now;
+    }
+    return opens;
+  }
+
+  snapshot(): BreakerSnapshot {
+    const toDate = (ms: number | null) => (ms === null ? null : new Date(ms));
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: toDate(this.openedAtMs),
+      retryAt: this.state === "open" ? toDate((this.openedAtMs ?? 0) + this.options.openMs) : null,
+      lastFailureAt: toDate(this.lastFailureAtMs),
+      lastFailure: this.lastFailure,
+      lastSuccessAt: toDate(this.lastSuccessAtMs),
+    };
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * RFC 4180 CSV with a header row. Fields holding a comma, quote or line
+ * break are quoted. Text starting with `=`, `+`, `-` or `@` is prefixed with
+ * `'` so spreadsheets do not run it as a formula; IDs in exports come from
+ * providers and players, so this matters.
+ */
+
+export type CsvValue = string | number | bigint | boolean | Date | null | undefined;
+
+function field(value: CsvValue): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv<Row>(columns: { header: string; value: (row: Row) => CsvValue }[], rows: Row[]): string {
+  const lines = [columns.map((column) => field(column.header)).join(",")];
+  for (const row of rows) {
+    lines.push(columns.map((column) => field(column.value(row))).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
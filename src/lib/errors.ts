@@ -0,0 +1,200 @@
+import { Request, Response, NextFunction, RequestHandler } from "express";
+
+// ─── Error codes ─────────────────────────────────────────────────
+
+/**
+ * Stable, machine-readable codes returned as `code` in every error response.
+ * Messages may change; codes may not.
+ */
+export const ERROR_CODES = [
+  // Request
+  "VALIDATION_ERROR",
+  "INVALID_JSON",
+  "BRAND_REQUIRED",
+  // Auth
+  "UNAUTHORIZED",
+  "INVALID_SIGNATURE",
+  "INVALID_TOKEN",
+  "TOKEN_EXPIRED",
+  "INVALID_CREDENTIALS",
+  "PLAYER_MISMATCH",
+  // Lookups
+  "NOT_FOUND",
+  "BRAND_NOT_FOUND",
+  "SESSION_NOT_FOUND",
+  "USER_NOT_FOUND",
+  "WALLET_NOT_FOUND",
+  "GAME_NOT_FOUND",
+  "CASINO_NOT_FOUND",
+  "PROVIDER_NOT_FOUND",
+  "PLAYER_NOT_FOUND",
+  "ROUND_NOT_FOUND",
+  "BET_NOT_FOUND",
+  "KEY_NOT_FOUND",
+  "BONUS_NOT_FOUND",
+  "CAMPAIGN_NOT_FOUND",
+  "DISCREPANCY_NOT_FOUND",
+  // Session state
+  "SESSION_CLOSED",
+  "SESSION_EXPIRED",
+  // Wallet
+  "INSUFFICIENT_FUNDS",
+  "BET_LIMIT",
+  "CURRENCY_MISMATCH",
+  "DUPLICATE_TXN",
+  "ALREADY_ROLLED_BACK",
+  "ROLLBACK_NOT_ALLOWED",
+  "WALLET_EXISTS",
+  "PROVIDER_DISABLED",
+  "LEDGER_MISMATCH",
+  // Bonuses
+  "BONUS_ACTIVE",
+  "WAGERING_NOT_MET",
+  // Free spins
+  "CAMPAIGN_EXPIRED",
+  "CAMPAIGN_EXHAUSTED",
+  // Responsible gaming
+  "RESPONSIBLE_GAMING_LIMIT",
+  "SELF_EXCLUDED",
+  // Catalog
+  "GAME_EXISTS",
+  // Reconciliation
+  "DISCREPANCY_RESOLVED",
+  // Rounds
+  "ROUND_CLOSED",
+  "ROUND_MISMATCH",
+  "CREDIT_WITHOUT_DEBIT",
+  "INVALID_TRANSITION",
+  "NOT_REVEALED",
+  "CONCURRENT_UPDATE",
+  // Infrastructure
+  "UPSTREAM_ERROR",
+  "PROVIDER_UNAVAILABLE",
+  "MISCONFIGURED",
+  "INTERNAL_ERROR",
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+/** Narrows a code read from another service's response body. */
+export function isErrorCode(code: unknown): code is ErrorCode {
+  return ERROR_CODES.includes(code as ErrorCode);
+}
+
+// ─── Error classes ───────────────────────────────────────────────
+
+export class AppError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: ErrorCode,
+    message: string,
+    readonly details?: unknown
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class BadRequestError extends AppError {
+  constructor(code: ErrorCode, message: string, details?: unknown) {
+    super(400, code, message, details);
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(code: ErrorCode, message: string, details?: unknown) {
+    super(401, code, message, details);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(code: ErrorCode, message: string, details?: unknown) {
+    super(403, code, message, details);
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(code: ErrorCode, message: string, details?: unknown) {
+    super(404, code, message, details);
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(code: ErrorCode, message: string, details?: unknown) {
+    super(409, code, message, details);
+  }
+}
+
+/** A counterparty (casino or provider) failed or answered with an error. */
+export class UpstreamError extends AppError {
+  constructor(message: string, details?: unknown, status = 502, code: ErrorCode = "UPSTREAM_ERROR") {
+    super(status, code, message, details);
+  }
+}
+
+/** The provider's circuit breaker is open: calls are refused without being made. */
+export class ProviderUnavailableError extends AppError {
+  constructor(details?: unknown) {
+    super(503, "PROVIDER_UNAVAILABLE", "Provider unavailable", details);
+  }
+}
+
+export class SessionNotFoundError extends NotFoundError {
+  constructor() {
+    super("SESSION_NOT_FOUND", "Session not found");
+  }
+}
+
+export class InsufficientFundsError extends BadRequestError {
+  constructor() {
+    super("INSUFFICIENT_FUNDS", "Insufficient funds");
+  }
+}
+
+export class BetLimitError extends BadRequestError {
+  constructor(details?: unknown) {
+    super("BET_LIMIT", "Bet amount out of range", details);
+  }
+}
+
+export class DuplicateTransactionError extends ConflictError {
+  constructor(transactionId: string) {
+    super("DUPLICATE_TXN", "Transaction ID already used for a different operation", {
+      transactionId,
+    });
+  }
+}
+
+export class RoundClosedError extends ConflictError {
+  constructor(details?: unknown) {
+    super("ROUND_CLOSED", "Round is closed", details);
+  }
+}
+
+// ─── Express wiring ──────────────────────────────────────────────
+
+/** Express 4 does not catch rejected promises; forward them to the error middleware. */
+export function asyncHandler(
+  handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>
+): RequestHandler {
+  return (req, res, next) => {
+    handler(req, res, next).catch(next);
+  };
+}
+
+/** Single place where errors become HTTP responses: `{ error, code, details? }`. */
+export function errorHandler(err: unknown, req: Request, res: Response, _next: NextFunction) {
+  if (err instanceof AppError) {
+    res.status(err.status).json({ error: err.message, code: err.code, details: err.details });
+    return;
+  }
+
+  // Malformed JSON rejected by express.json()
+  if ((err as { type?: string })?.type === "entity.parse.failed") {
+    res.status(400).json({ error: "Malformed JSON body", code: "INVALID_JSON" });
+    return;
+  }
+
+  console.error("Unhandled error", { method: req.method, path: req.originalUrl, err });
+  res.status(500).json({ error: "Internal server error", code: "INTERNAL_ERROR" });
+}
@@ -1,17 +1,81 @@
 import crypto from "crypto";
+import { Request } from "express";
+import { InMemoryNonceStore, NonceStore } from "./nonceStore";
 
-export function signBody(body: unknown, secret: string): string {
-  const payload = JSON.stringify(body);
-  return crypto.createHmac("sha256", secret).update(payload).digest("hex");
+declare module "http" {
+  interface IncomingMessage {
+    // Exact bytes received, captured by express.json() in app.ts.
+    rawBody?: Buffer;
+  }
+}
+
+export const TIMESTAMP_HEADER = "x-timestamp";
+export const NONCE_HEADER = "x-nonce";
+
+const DEFAULT_MAX_SKEW_SECONDS = 300;
+
+function maxSkewSeconds(): number {
+  const configured = Number(process.env.HMAC_MAX_SKEW_SECONDS);
+  return configured > 0 ? configured : DEFAULT_MAX_SKEW_SECONDS;
 }
 
-export function verifySignature(
-  providedSignature: string | undefined,
-  body: unknown,
+/** The request line a signature covers, e.g. `POST /casino/debit`. */
+interface SignedTarget {
+  method: string;
+  /** Path as sent, from the leading slash, query string included. */
+  path: string;
+}
+
+// The signed message binds the timestamp, nonce, method and path to the
+// exact body bytes, so a captured request cannot be replayed to another
+// endpoint that takes the same body (e.g. a debit sent to /credit).
+function computeSignature(
+  target: SignedTarget,
+  rawBody: string | Buffer,
+  timestamp: string,
+  nonce: string,
   secret: string
-): boolean {
-  if (!providedSignature) return false;
-  const expectedSignature = signBody(body, secret);
+): string {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${nonce}.${target.method.toUpperCase()} ${target.path}.`)
+    .update(rawBody)
+    .digest("hex");
+}
+
+/**
+ * Signs an outbound request to `request.url`. Send `rawBody` verbatim as the
+ * HTTP body and merge the returned headers into the request.
+ */
+export function signRequest(
+  request: { method: string; url: string },
+  rawBody: string,
+  secret: string,
+  signatureHeader: string
+): Record<string, string> {
+  const { pathname, search } = new URL(request.url);
+  const target = { method: request.method, path: pathname + search };
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const nonce = crypto.randomUUID();
+  return {
+    [signatureHeader]: computeSignature(target, rawBody, timestamp, nonce, secret),
+    [TIMESTAMP_HEADER]: timestamp,
+    [NONCE_HEADER]: nonce,
+  };
+}
+
+const nonceStores = new Map<string, NonceStore>();
+
+function nonceStoreFor(scope: string): NonceStore {
+  let store = nonceStores.get(scope);
+  if (!store) {
+    store = new InMemoryNonceStore();
+    nonceStores.set(scope, store);
+  }
+  return store;
+}
+
+function signatureMatches(providedSignature: string, expectedSignature: string): boolean {
   try {
     const providedBuffer = Buffer.from(providedSignature, "hex");
     const expectedBuffer = Buffer.from(expectedSignature, "hex");
@@ -21,3 +85,39 @@ export function verifySignature(
     return false;
   }
 }
+
+/**
+ * Verifies an inbound request signed with signRequest(). Any of `secrets`
+ * may match, which lets a counterparty rotate keys while the old one is
+ * still valid. Returns null when valid, otherwise a short reason suitable
+ * for logging. The nonce is only consumed once the signature checks out, so
+ * forged requests cannot burn legitimate nonces.
+ */
+export function verifyRequestSignature(
+  req: Request,
+  signatureHeader: string,
+  secrets: string[],
+  scope: string
+): string | null {
+  const providedSignature = req.header(signatureHeader);
+  const timestamp = req.header(TIMESTAMP_HEADER);
+  const nonce = req.header(NONCE_HEADER);
+  if (!providedSignature || !timestamp || !nonce) return "missing signature headers";
+
+  const timestampSeconds = Number(timestamp);
+  if (!Number.isInteger(timestampSeconds)) return "invalid timestamp";
+  const skew = maxSkewSeconds();
+  if (Math.abs(Date.now() / 1000 - timestampSeconds) > skew) return "timestamp outside allowed skew";
+
+  const rawBody = req.rawBody ?? "";
+  const target = { method: req.method, path: req.originalUrl };
+  const matched = secrets.some((secret) =>
+    signatureMatches(providedSignature, computeSignature(target, rawBody, timestamp, nonce, secret))
+  );
+  if (!matched) return "signature mismatch";
+
+  const expiresAtMs = (timestampSeconds + skew) * 1000;
+  if (!nonceStoreFor(scope).claim(nonce, expiresAtMs)) return "nonce already used";
+
+  return null;
+}
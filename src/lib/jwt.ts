@@ -0,0 +1,67 @@
+import crypto from "crypto";
+
+/**
+ * Minimal HS256 JSON Web Tokens: enough to issue and check the casino's
+ * player access tokens without another dependency. Only `alg: "HS256"` is
+ * accepted, so a token cannot downgrade itself to `none` or switch to an
+ * algorithm keyed with something else.
+ */
+
+export interface JwtClaims {
+  sub: string;
+  iat: number;
+  exp: number;
+  [claim: string]: unknown;
+}
+
+export type JwtFailure = "malformed" | "bad signature" | "expired";
+
+const HEADER = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString("base64url");
+}
+
+function sign(signingInput: string, secret: string): Buffer {
+  return crypto.createHmac("sha256", secret).update(signingInput).digest();
+}
+
+export function signJwt(claims: JwtClaims, secret: string): string {
+  const signingInput = `${HEADER}.${base64url(JSON.stringify(claims))}`;
+  return `${signingInput}.${sign(signingInput, secret).toString("base64url")}`;
+}
+
+/**
+ * Checks the signature, then the expiry (`exp`, Unix seconds). Returns the
+ * claims, or why the token was refused.
+ */
+export function verifyJwt(
+  token: string,
+  secret: string,
+  nowSeconds = Math.floor(Date.now() / 1000)
+): { claims: JwtClaims } | { failure: JwtFailure } {
+  const parts = token.split(".");
+  if (parts.length !== 3) return { failure: "malformed" };
+  const [header, payload, signature] = parts;
+
+  let claims: JwtClaims;
+  try {
+    const decodedHeader = JSON.parse(Buffer.from(header, "base64url").toString("utf8"));
+    if (decodedHeader?.alg !== "HS256") return { failure: "malformed" };
+    claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+  } catch {
+    return { failure: "malformed" };
+  }
+  if (typeof claims?.sub !== "string" || typeof claims.exp !== "number") {
+    return { failure: "malformed" };
+  }
+
+  const expected = sign(`${header}.${payload}`, secret);
+  const provided = Buffer.from(signature, "base64url");
+  if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+    return { failure: "bad signature" };
+  }
+
+  if (claims.exp <= nowSeconds) return { failure: "expired" };
+  return { claims };
+}
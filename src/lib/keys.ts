@@ -0,0 +1,77 @@
+import crypto from "crypto";
+import { z } from "zod";
+import { BadRequestError } from "./errors";
+import { isoDateTime } from "./validation";
+
+// ─── Schemas ─────────────────────────────────────────────────────
+
+export const keyWindowSchema = z.object({
+  secret: z.string().min(16, "Secret must be at least 16 characters").optional(),
+  validFrom: isoDateTime.optional(),
+  validUntil: isoDateTime.optional(),
+});
+export type KeyWindowInput = z.infer<typeof keyWindowSchema>;
+
+export const retireKeySchema = z.object({
+  validUntil: isoDateTime.optional(),
+});
+export type RetireKeyInput = z.infer<typeof retireKeySchema>;
+
+export const keyResponseSchema = z.object({
+  keyId: z.number().int(),
+  validFrom: isoDateTime,
+  validUntil: isoDateTime.nullable(),
+  isValid: z.boolean(),
+  createdAt: isoDateTime,
+});
+
+/** Returned once, when the key is created. */
+export const newKeyResponseSchema = keyResponseSchema.extend({ secret: z.string() });
+
+/**
+ * The secret this side signs its outbound calls with. It must be one of the
+ * counterparty's valid inbound keys, so it is always supplied, never
+ * generated.
+ */
+export const outboundSecretSchema = z.object({
+  secret: z.string().min(16, "Secret must be at least 16 characters"),
+});
+export type OutboundSecretInput = z.infer<typeof outboundSecretSchema>;
+
+/**
+ * Resolves an admin request to add a signing key. A secret is generated
+ * when none is supplied; it is returned once and never listed again.
+ */
+export function parseNewKey(input: KeyWindowInput) {
+  const validFrom = input.validFrom ? new Date(input.validFrom) : new Date();
+  const validUntil = input.validUntil ? new Date(input.validUntil) : null;
+  if (validUntil && validUntil <= validFrom) {
+    throw new BadRequestError("VALIDATION_ERROR", "validUntil must be after validFrom");
+  }
+
+  return {
+    secret: input.secret ?? crypto.randomBytes(32).toString("hex"),
+    validFrom,
+    validUntil,
+  };
+}
+
+export function parseRetireAt(input: RetireKeyInput): Date {
+  return input.validUntil ? new Date(input.validUntil) : new Date();
+}
+
+export function serializeKey(key: {
+  id: number;
+  validFrom: Date;
+  validUntil: Date | null;
+  createdAt: Date;
+}) {
+  const now = new Date();
+  return {
+    keyId: key.id,
+    validFrom: key.validFrom.toISOString(),
+    validUntil: key.validUntil?.toISOString() ?? null,
+    isValid: key.validFrom <= now && (!key.validUntil || key.validUntil > now),
+    createdAt: key.createdAt.toISOString(),
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * Remembers request nonces for as long as their timestamps could still pass
+ * the clock-skew check, so a captured request cannot be replayed inside the
+ * window. Outside the window the timestamp check rejects it anyway.
+ */
+export interface NonceStore {
+  /** Returns false if the nonce was already used, otherwise records it. */
+  claim(nonce: string, expiresAtMs: number): boolean;
+}
+
+export class InMemoryNonceStore implements NonceStore {
+  private readonly nonces = new Map<string, number>();
+  private lastSweepMs = 0;
+
+  claim(nonce: string, expiresAtMs: number): boolean {
+    const now = Date.now();
+    this.sweep(now);
+
+    const existingExpiry = this.nonces.get(nonce);
+    if (existingExpiry !== undefined && existingExpiry > now) return false;
+
+    this.nonces.set(nonce, expiresAtMs);
+    return true;
+  }
+
+  private sweep(now: number) {
+    if (now - this.lastSweepMs < 60_000) return;
+    this.lastSweepMs = now;
+    for (const [nonce, expiresAtMs] of this.nonces) {
+      if (expiresAtMs <= now) this.nonces.delete(nonce);
+    }
+  }
+}
@@ -0,0 +1,232 @@
+import { z } from "zod";
+import { ERROR_CODES, ErrorCode } from "./errors";
+
+// ─── Route specs ─────────────────────────────────────────────────
+
+/**
+ * How a route is authenticated:
+ * - `casinoCallback`: provider → casino wallet call, signed with x-casino-signature
+ * - `providerCall`: casino → provider call, signed with x-provider-signature
+ * - `admin`: x-admin-key
+ * - `player`: player access token (`Authorization: Bearer`)
+ * - `none`: no credentials
+ */
+export type RouteAuth = "casinoCallback" | "providerCall" | "admin" | "player" | "none";
+
+export interface RouteSpec {
+  method: "get" | "post" | "patch";
+  /** Full Express path, e.g. `/casino/admin/users/:userId/wallets`. */
+  path: string;
+  tag: string;
+  summary: string;
+  description?: string;
+  auth: RouteAuth;
+  /** Acts for the casino brand named by the `x-brand-code` header (see resolveBrand). */
+  brand?: boolean;
+  params?: z.ZodObject;
+  query?: z.ZodObject;
+  body?: z.ZodType;
+  response: z.ZodType;
+  /** The route can also answer with a `text/csv` document instead of `response`. */
+  csv?: boolean;
+  successStatus?: number;
+  /** Route-specific error codes by HTTP status, on top of the ones implied by auth and validation. */
+  errors?: Partial<Record<number, ErrorCode[]>>;
+}
+
+// ─── Security ────────────────────────────────────────────────────
+
+const SIGNING_DESCRIPTION =
+  "HMAC-SHA256 (hex) of `${x-timestamp}.${x-nonce}.${METHOD} ${path}.` followed by the exact raw " +
+  "request body, where path is the request path including any query string, " +
+  "keyed with a secret currently valid for the caller. `x-timestamp` is Unix seconds and must be " +
+  "within HMAC_MAX_SKEW_SECONDS of server time; `x-nonce` must not be reused within that window.";
+
+const securitySchemes = {
+  providerCode: {
+    type: "apiKey",
+    in: "header",
+    name: "x-provider-code",
+    description: "Calling provider's code (provider → casino).",
+  },
+  casinoSignature: {
+    type: "apiKey",
+    in: "header",
+    name: "x-casino-signature",
+    description: SIGNING_DESCRIPTION,
+  },
+  casinoCode: {
+    type: "apiKey",
+    in: "header",
+    name: "x-casino-code",
+    description: "Calling casino's code (casino → provider). Must match `casinoCode` in the body.",
+  },
+  providerSignature: {
+    type: "apiKey",
+    in: "header",
+    name: "x-provider-signature",
+    description: SIGNING_DESCRIPTION,
+  },
+  timestamp: { type: "apiKey", in: "header", name: "x-timestamp", description: "Unix seconds." },
+  nonce: { type: "apiKey", in: "header", name: "x-nonce", description: "Unique per request." },
+  adminKey: { type: "apiKey", in: "header", name: "x-admin-key" },
+  playerToken: {
+    type: "http",
+    scheme: "bearer",
+    bearerFormat: "JWT",
+    description: "Access token from `/casino/auth/login` or `/casino/auth/refresh`.",
+  },
+};
+
+const SECURITY: Record<RouteAuth, Record<string, string[]>[]> = {
+  casinoCallback: [{ providerCode: [], casinoSignature: [], timestamp: [], nonce: [] }],
+  providerCall: [{ casinoCode: [], providerSignature: [], timestamp: [], nonce: [] }],
+  admin: [{ adminKey: [] }],
+  player: [{ playerToken: [] }],
+  none: [],
+};
+
+// ─── Errors ──────────────────────────────────────────────────────
+
+const errorResponseSchema = z.object({
+  error: z.string().describe("Human-readable message; may change."),
+  code: z.enum(ERROR_CODES).describe("Stable machine-readable code."),
+  details: z.unknown().optional(),
+});
+
+const STATUS_DESCRIPTIONS: Record<number, string> = {
+  400: "Bad request",
+  401: "Unauthorized",
+  403: "Forbidden",
+  404: "Not found",
+  409: "Conflict",
+  500: "Internal server error",
+  502: "Upstream error",
+  503: "Service unavailable",
+};
+
+function routeErrors(spec: RouteSpec) {
+  const errors: Record<number, Set<ErrorCode>> = {};
+  const add = (status: number, ...codes: ErrorCode[]) => {
+    errors[status] ??= new Set();
+    codes.forEach((code) => errors[status].add(code));
+  };
+
+  if (spec.body || spec.params || spec.query) add(400, "VALIDATION_ERROR");
+  if (spec.body) add(400, "INVALID_JSON");
+  if (spec.brand) {
+    add(400, "BRAND_REQUIRED");
+    add(404, "BRAND_NOT_FOUND");
+  }
+  if (spec.auth === "casinoCallback" || spec.auth === "providerCall") {
+    add(401, "UNAUTHORIZED", "INVALID_SIGNATURE");
+  }
+  if (spec.auth === "admin") add(401, "UNAUTHORIZED");
+  if (spec.auth === "player") {
+    add(401, "UNAUTHORIZED", "INVALID_TOKEN", "TOKEN_EXPIRED");
+    add(403, "PLAYER_MISMATCH");
+  }
+  for (const [status, codes] of Object.entries(spec.errors ?? {})) {
+    add(Number(status), ...(codes ?? []));
+  }
+  add(500, "INTERNAL_ERROR");
+  return errors;
+}
+
+// ─── Document ────────────────────────────────────────────────────
+
+function toJsonSchema(schema: z.ZodType, io: "input" | "output") {
+  const jsonSchema = { ...z.toJSONSchema(schema, { io, unrepresentable: "any" }) };
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
+
+/** Express `:param` segments become OpenAPI `{param}` templates. */
+export function toOpenApiPath(expressPath: string): string {
+  return expressPath.replace(/:(\w+)/g, "{$1}");
+}
+
+const BRAND_HEADER = {
+  name: "x-brand-code",
+  in: "header",
+  required: true,
+  description: "Code of the casino brand the request acts for.",
+  schema: { type: "string" },
+};
+
+function buildOperation(spec: RouteSpec) {
+  const parameters: Record<string, unknown>[] = Object.entries(spec.params?.shape ?? {}).map(
+    ([name, schema]) => ({
+      name,
+      in: "path",
+      required: true,
+      schema: toJsonSchema(schema as z.ZodType, "input"),
+    })
+  );
+  for (const [name, schema] of Object.entries(spec.query?.shape ?? {})) {
+    parameters.push({
+      name,
+      in: "query",
+      required: !(schema as z.ZodType).safeParse(undefined).success,
+      schema: toJsonSchema(schema as z.ZodType, "input"),
+    });
+  }
+  if (spec.brand) parameters.push(BRAND_HEADER);
+
+  const responses: Record<string, unknown> = {
+    [spec.successStatus ?? 200]: {
+      description: "Success",
+      content: {
+        "application/json": { schema: toJsonSchema(spec.response, "output") },
+        ...(spec.csv && { "text/csv": { schema: { type: "string" } } }),
+      },
+    },
+  };
+  for (const [status, codes] of Object.entries(routeErrors(spec))) {
+    responses[status] = {
+      description: `${STATUS_DESCRIPTIONS[Number(status)] ?? "Error"}: ${[...codes].join(", ")}`,
+      content: { "application/json": { schema: { $ref: "#/components/schemas/ErrorResponse" } } },
+    };
+  }
+
+  return {
+    tags: [spec.tag],
+    summary: spec.summary,
+    ...(spec.description && { description: spec.description }),
+    security: SECURITY[spec.auth],
+    ...(parameters.length > 0 && { parameters }),
+    ...(spec.body && {
+      requestBody: {
+        required: true,
+        content: { "application/json": { schema: toJsonSchema(spec.body, "input") } },
+      },
+    }),
+    responses,
+  };
+}
+
+export function buildOpenApiDocument(specs: RouteSpec[]) {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const spec of specs) {
+    const path = toOpenApiPath(spec.path);
+    paths[path] ??= {};
+    paths[path][spec.method] = buildOperation(spec);
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Casino & Game Provider Integration API",
+      version: "1.0.0",
+      description:
+        "Wallet callbacks (`/casino/*`) and provider endpoints (`/provider/*`). " +
+        "Amounts are integers in minor units; amounts in responses are strings. " +
+        "Every error response carries a stable `code`.",
+    },
+    paths,
+    components: {
+      securitySchemes,
+      schemas: { ErrorResponse: toJsonSchema(errorResponseSchema, "output") },
+    },
+  };
+}
@@ -0,0 +1,27 @@
+import crypto from "crypto";
+import { promisify } from "util";
+
+const KEY_LENGTH = 64;
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+/** scrypt with a random salt, stored as `<salt hex>:<key hex>`. */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16).toString("hex");
+  const derived = await scrypt(password, salt, KEY_LENGTH);
+  return `${salt}:${derived.toString("hex")}`;
+}
+
+export async function passwordMatches(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const derived = await scrypt(password, salt, KEY_LENGTH);
+  return derived.length === expected.length && crypto.timingSafeEqual(derived, expected);
+}
+
+/**
+ * A well-formed hash no password matches. Checking a login for an unknown
+ * user against it takes as long as checking a wrong password.
+ */
+export const UNMATCHABLE_PASSWORD_HASH = `${"0".repeat(32)}:${"0".repeat(KEY_LENGTH * 2)}`;
@@ -0,0 +1,99 @@
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import { z } from "zod";
+import { BadRequestError } from "./errors";
+
+// ─── Shared field schemas ────────────────────────────────────────
+
+/** Money in minor units (cents). JSON numbers only: no strings, decimals or unsafe integers. */
+export const positiveAmount = z
+  .number({ error: "Amount must be a number" })
+  .int("Amount must be an integer number of minor units")
+  .positive("Amount must be greater than zero");
+
+/** A credit may be zero (a settled loss) but never negative. */
+export const nonNegativeAmount = z
+  .number({ error: "Amount must be a number" })
+  .int("Amount must be an integer number of minor units")
+  .nonnegative("Amount must not be negative");
+
+export const currencyCode = z.string().regex(/^[A-Z]{3}$/, "Must be an ISO 4217 code, e.g. USD");
+
+export const entityId = z.number().int().positive();
+
+/** Route parameters arrive as strings; numeric IDs must be digits only. */
+export const numericParam = z.string().regex(/^[1-9]\d*$/, "Must be a positive integer");
+
+export const externalId = z.string().min(1).max(255);
+
+/** Minor-unit amounts are returned as strings so BigInt values survive JSON. */
+export const amountString = z.string().regex(/^-?\d+$/);
+
+export const isoDateTime = z.iso.datetime({ offset: true });
+
+/** For `.refine` on bodies carrying bet limits: a min above the max is rejected when both are given. */
+export function betLimitsInOrder(limits: { minBet?: number; maxBet?: number }) {
+  return limits.minBet === undefined || limits.maxBet === undefined || limits.minBet <= limits.maxBet;
+}
+
+// ─── Middleware ──────────────────────────────────────────────────
+
+export interface RequestSchemas {
+  body?: z.ZodType;
+  params?: z.ZodType;
+  query?: z.ZodType;
+}
+
+function fieldErrors(error: z.ZodError) {
+  return error.issues.map((issue) => ({
+    field: issue.path.join(".") || "(root)",
+    message: issue.message,
+  }));
+}
+
+// What each validate() middleware checks, keyed by the middleware itself.
+const declaredSchemas = new WeakMap<RequestHandler, RequestSchemas>();
+
+/**
+ * Validates the request against its declared schemas. On success the body
+ * and query are replaced with the parsed values, so unknown fields are
+ * dropped before the service sees them; on failure a 400 lists every invalid
+ * field.
+ */
+export function validate(schemas: RequestSchemas): RequestHandler {
+  const middleware: RequestHandler = (req: Request, _res: Response, next: NextFunction) => {
+    if (schemas.params) {
+      const params = schemas.params.safeParse(req.params);
+      if (!params.success) {
+        next(new BadRequestError("VALIDATION_ERROR", "Invalid path parameters", { fields: fieldErrors(params.error) }));
+        return;
+      }
+    }
+
+    if (schemas.query) {
+      const query = schemas.query.safeParse(req.query);
+      if (!query.success) {
+        next(new BadRequestError("VALIDATION_ERROR", "Invalid query parameters", { fields: fieldErrors(query.error) }));
+        return;
+      }
+      req.query = query.data as Request["query"];
+    }
+
+    if (schemas.body) {
+      const body = schemas.body.safeParse(req.body ?? {});
+      if (!body.success) {
+        next(new BadRequestError("VALIDATION_ERROR", "Invalid request body", { fields: fieldErrors(body.error) }));
+        return;
+      }
+      req.body = body.data;
+    }
+
+    next();
+  };
+  declaredSchemas.set(middleware, schemas);
+  return middleware;
+}
+
+/** The schemas a `validate` middleware checks, so scripts/check-openapi.ts can compare routes with their specs. */
+export function validatedSchemas(handler: unknown): RequestSchemas | undefined {
+  return declaredSchemas.get(handler as RequestHandler);
+}
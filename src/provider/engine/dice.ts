@@ -0,0 +1,47 @@
+import { BadRequestError } from "../../lib/errors";
+import { applyMultiplier, EngineSettings, GameEngine, Volatility } from "./types";
+
+/**
+ * Roll 0.00–99.99; the player wins when the roll is below their chosen win
+ * chance. The payout multiplier is rtp / chance, so every choice has the same
+ * configured RTP and lower chances are simply more volatile.
+ */
+
+const ROLL_RANGE = 10_000; // hundredths of a percent
+
+const DEFAULT_CHANCE: Record<Volatility, number> = {
+  low: 75,
+  medium: 50,
+  high: 10,
+};
+
+const MIN_CHANCE = 1;
+const MAX_CHANCE = 95;
+
+export function createDiceEngine(settings: EngineSettings): GameEngine {
+  const defaultChance = Number(settings.config.defaultChance) || DEFAULT_CHANCE[settings.volatility];
+
+  return {
+    name: "dice",
+    play(betAmount, rng, options) {
+      const chance = options.chance === undefined ? defaultChance : Number(options.chance);
+      if (!Number.isInteger(chance) || chance < MIN_CHANCE || chance > MAX_CHANCE) {
+        throw new BadRequestError(
+          "VALIDATION_ERROR",
+          `Dice chance must be an integer between ${MIN_CHANCE} and ${MAX_CHANCE}`
+        );
+      }
+
+      const roll = rng.nextInt(ROLL_RANGE);
+      const threshold = chance * (ROLL_RANGE / 100);
+      const won = roll < threshold;
+      const multiplier = won ? settings.rtp / (chance / 100) : 0;
+
+      return {
+        multiplier,
+        payout: applyMultiplier(betAmount, multiplier),
+        details: { roll: roll / 100, chance, won },
+      };
+    },
+  };
+}
@@ -0,0 +1,50 @@
+import { BadRequestError } from "../../lib/errors";
+import { createDiceEngine } from "./dice";
+import { createSlotEngine } from "./slot";
+import { EngineSettings, GameEngine, Volatility } from "./types";
+
+export {
+  createJackpotRng,
+  createRoundRng,
+  generateServerSeed,
+  hashServerSeed,
+  resolveClientSeed,
+  stableStringify,
+} from "./fairness";
+export type { GameEngine, GameOutcome } from "./types";
+
+const ENGINES: Record<string, (settings: EngineSettings) => GameEngine> = {
+  slot: createSlotEngine,
+  dice: createDiceEngine,
+};
+
+const VOLATILITIES: Volatility[] = ["low", "medium", "high"];
+
+/**
+ * Builds the engine configured on a ProviderGame row. Games without an engine
+ * (e.g. scripted demo titles) cannot be played through /provider/play.
+ */
+export function createEngineForGame(game: {
+  gameId: string;
+  engine: string | null;
+  rtpBps: number;
+  volatility: string;
+  engineConfig: unknown;
+}): GameEngine {
+  const factory = game.engine ? ENGINES[game.engine] : undefined;
+  if (!factory) {
+    throw new BadRequestError("VALIDATION_ERROR", "Game has no playable engine", { gameId: game.gameId });
+  }
+  if (!VOLATILITIES.includes(game.volatility as Volatility)) {
+    throw new Error(`Invalid volatility "${game.volatility}" on game ${game.gameId}`);
+  }
+  if (game.rtpBps <= 0 || game.rtpBps > 10_000) {
+    throw new Error(`Invalid RTP ${game.rtpBps}bps on game ${game.gameId}`);
+  }
+
+  return factory({
+    rtp: game.rtpBps / 10_000,
+    volatility: game.volatility as Volatility,
+    config: (game.engineConfig ?? {}) as Record<string, unknown>,
+  });
+}
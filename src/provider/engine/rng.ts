@@ -0,0 +1,45 @@
+import crypto from "crypto";
+
+/**
+ * Deterministic random source. The same key and message always yield the
+ * same sequence, so any round can be replayed from its stored seeds.
+ */
+export interface Rng {
+  nextUint32(): number;
+  /** Uniform integer in [0, maxExclusive). */
+  nextInt(maxExclusive: number): number;
+}
+
+const UINT32_RANGE = 2 ** 32;
+
+// Counter-mode HMAC-SHA256: block n is HMAC(key, "<message>:<n>"); each block
+// yields eight 32-bit values.
+export function createSeededRng(key: string, message: string): Rng {
+  let counter = 0;
+  let block = Buffer.alloc(0);
+  let offset = 0;
+
+  function nextUint32(): number {
+    if (offset + 4 > block.length) {
+      block = crypto.createHmac("sha256", key).update(`${message}:${counter}`).digest();
+      counter += 1;
+      offset = 0;
+    }
+    const value = block.readUInt32BE(offset);
+    offset += 4;
+    return value;
+  }
+
+  // Rejection sampling keeps the distribution exactly uniform.
+  function nextInt(maxExclusive: number): number {
+    if (!Number.isInteger(maxExclusive) || maxExclusive <= 0 || maxExclusive > UINT32_RANGE) {
+      throw new RangeError(`Invalid RNG bound: ${maxExclusive}`);
+    }
+    const limit = UINT32_RANGE - (UINT32_RANGE % maxExclusive);
+    let value = nextUint32();
+    while (value >= limit) value = nextUint32();
+    return value % maxExclusive;
+  }
+
+  return { nextUint32, nextInt };
+}
@@ -0,0 +1,102 @@
+import { Rng } from "./rng";
+import { applyMultiplier, EngineSettings, GameEngine, Volatility } from "./types";
+
+/**
+ * Three-reel, single-payline slot. Every reel shares one weighted strip.
+ * Three of a kind pays the paytable multiplier; two leading symbols pay the
+ * pair table. Multipliers are scaled so the theoretical RTP equals the
+ * configured target.
+ */
+
+interface SlotConfig {
+  weights: Record<string, number>;
+  paytable: Record<string, number>;
+  pairs: Record<string, number>;
+}
+
+const REEL_COUNT = 3;
+
+// Low volatility: frequent small wins. High: rare, large wins.
+const PRESETS: Record<Volatility, SlotConfig> = {
+  low: {
+    weights: { CHERRY: 8, LEMON: 7, BELL: 5, BAR: 3, SEVEN: 2 },
+    paytable: { CHERRY: 5, LEMON: 8, BELL: 15, BAR: 40, SEVEN: 100 },
+    pairs: { CHERRY: 1 },
+  },
+  medium: {
+    weights: { CHERRY: 6, LEMON: 6, BELL: 5, BAR: 4, SEVEN: 2 },
+    paytable: { CHERRY: 10, LEMON: 15, BELL: 30, BAR: 80, SEVEN: 300 },
+    pairs: { CHERRY: 1 },
+  },
+  high: {
+    weights: { CHERRY: 5, LEMON: 6, BELL: 6, BAR: 4, SEVEN: 1 },
+    paytable: { CHERRY: 10, LEMON: 20, BELL: 50, BAR: 150, SEVEN: 2000 },
+    pairs: {},
+  },
+};
+
+function resolveConfig(settings: EngineSettings): SlotConfig {
+  const preset = PRESETS[settings.volatility];
+  const overrides = settings.config as Partial<SlotConfig>;
+  return {
+    weights: overrides.weights ?? preset.weights,
+    paytable: overrides.paytable ?? preset.paytable,
+    pairs: overrides.pairs ?? preset.pairs,
+  };
+}
+
+// Expected return of one unit bet under the given (unscaled) config.
+function theoreticalRtp(config: SlotConfig): number {
+  const totalWeight = Object.values(config.weights).reduce((sum, weight) => sum + weight, 0);
+  let rtp = 0;
+  for (const [symbol, weight] of Object.entries(config.weights)) {
+    const p = weight / totalWeight;
+    rtp += p ** 3 * (config.paytable[symbol] ?? 0);
+    rtp += p ** 2 * (1 - p) * (config.pairs[symbol] ?? 0);
+  }
+  return rtp;
+}
+
+export function createSlotEngine(settings: EngineSettings): GameEngine {
+  const config = resolveConfig(settings);
+  const baseRtp = theoreticalRtp(config);
+  if (baseRtp <= 0) throw new Error("Slot paytable never pays");
+  const scale = settings.rtp / baseRtp;
+
+  const strip = Object.entries(config.weights);
+  const totalWeight = strip.reduce((sum, [, weight]) => sum + weight, 0);
+
+  function spinReel(rng: Rng): string {
+    let ticket = rng.nextInt(totalWeight);
+    for (const [symbol, weight] of strip) {
+      if (ticket < weight) return symbol;
+      ticket -= weight;
+    }
+    throw new Error("Unreachable: ticket outside reel strip");
+  }
+
+  return {
+    name: "slot",
+    play(betAmount, rng) {
+      const symbols = Array.from({ length: REEL_COUNT }, () => spinReel(rng));
+      const [first, second, third] = symbols;
+
+      let baseMultiplier = 0;
+      let line: string | null = null;
+      if (first === second && second === third) {
+        baseMultiplier = config.paytable[first] ?? 0;
+        line = "three_of_a_kind";
+      } else if (first === second && config.pairs[first]) {
+        baseMultiplier = config.pairs[first];
+        line = "leading_pair";
+      }
+
+      const multiplier = baseMultiplier * scale;
+      return {
+        multiplier,
+        payout: applyMultiplier(betAmount, multiplier),
+        details: { symbols, line },
+      };
+    },
+  };
+}
@@ -0,0 +1,28 @@
+import { Rng } from "./rng";
+
+export type Volatility = "low" | "medium" | "high";
+
+export interface EngineSettings {
+  /** Target return-to-player, e.g. 0.96. */
+  rtp: number;
+  volatility: Volatility;
+  /** Engine-specific overrides from ProviderGame.engineConfig. */
+  config: Record<string, unknown>;
+}
+
+export interface GameOutcome {
+  /** Payout as a multiple of the bet (0 for a loss). */
+  multiplier: number;
+  payout: bigint;
+  details: Record<string, unknown>;
+}
+
+export interface GameEngine {
+  readonly name: string;
+  play(betAmount: bigint, rng: Rng, options: Record<string, unknown>): GameOutcome;
+}
+
+// Multipliers are applied in basis points so payouts stay in integer cents.
+export function applyMultiplier(betAmount: bigint, multiplier: number): bigint {
+  return (betAmount * BigInt(Math.floor(multiplier * 10_000))) / BigInt(10_000);
+}
@@ -0,0 +1,234 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../db";
+import { signRequest } from "../lib/hmac";
+import { finishRound, settleBet, transitionBet } from "./provider.state";
+
+// ─── Casino callback client ──────────────────────────────────────
+
+/** The casino's JSON answer: a wallet response on 2xx, an error body otherwise. */
+export interface CasinoCallbackData {
+  balance?: string;
+  code?: string;
+  error?: string;
+  /** The body as text when it was not a JSON object. */
+  raw?: string;
+  [field: string]: unknown;
+}
+
+export interface CasinoCallbackResponse {
+  ok: boolean;
+  status: number;
+  data: CasinoCallbackData;
+  /**
+   * True when we cannot tell whether the casino applied the request (timeout,
+   * network error, 5xx). A 4xx is a definitive rejection and is not retried.
+   */
+  unresolved: boolean;
+}
+
+/** What the outbox stores and re-sends: a wallet request keyed by its transactionId. */
+type CallbackPayload = Record<string, unknown> & { transactionId: string; originalTransactionId?: string };
+
+interface CasinoEndpoint {
+  casinoCode: string;
+  casinoApiEndpoint: string;
+  casinoSecret: string;
+}
+
+const DEFAULT_CALLBACK_TIMEOUT_MS = 5000;
+
+function callbackTimeoutMs(): number {
+  const configured = Number(process.env.CASINO_CALLBACK_TIMEOUT_MS);
+  return configured > 0 ? configured : DEFAULT_CALLBACK_TIMEOUT_MS;
+}
+
+export async function callCasino(
+  casino: CasinoEndpoint,
+  path: string,
+  body: Record<string, unknown>
+): Promise<CasinoCallbackResponse> {
+  const url = `${casino.casinoApiEndpoint}/casino${path}`;
+  const payload = JSON.stringify(body);
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...signRequest({ method: "POST", url }, payload, casino.casinoSecret, "x-casino-signature"),
+        "x-provider-code": casino.casinoCode,
+      },
+      body: payload,
+      signal: AbortSignal.timeout(callbackTimeoutMs()),
+    });
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    console.warn("Casino callback unresolved", { path, transactionId: body.transactionId, error });
+    return { ok: false, status: 0, data: { error }, unresolved: true };
+  }
+
+  const data = parseBody(await response.text());
+  const unresolved = response.status >= 500 || response.status === 408 || response.status === 429;
+  return { ok: response.ok, status: response.status, data, unresolved };
+}
+
+// Error pages from proxies or load balancers are often not JSON.
+function parseBody(text: string): CasinoCallbackData {
+  try {
+    const parsed: unknown = JSON.parse(text);
+    if (parsed !== null && typeof parsed === "object" && !Array.isArray(parsed)) {
+      return parsed as CasinoCallbackData;
+    }
+  } catch {
+    // Fall through to the raw text.
+  }
+  return { raw: text };
+}
+
+// ─── Outbox ──────────────────────────────────────────────────────
+
+/**
+ * Credits and compensating rollbacks that could not be confirmed are written
+ * here and retried with exponential backoff until the casino acknowledges
+ * them. Retries reuse the original transactionId, so the casino's idempotency
+ * turns a duplicate delivery into a cached response.
+ */
+
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+const CLAIM_LEASE_MS = 60 * 1000;
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+const BATCH_SIZE = 20;
+
+function backoffMs(attempts: number): number {
+  const delay = Math.min(BASE_BACKOFF_MS * 2 ** attempts, MAX_BACKOFF_MS);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+export async function enqueueCallback(
+  providerCasinoId: number,
+  path: "/credit" | "/rollback",
+  payload: CallbackPayload
+) {
+  await prisma.providerCallbackOutbox.create({
+    data: {
+      transactionId: payload.transactionId,
+      providerCasinoId,
+      path,
+      payload: payload as Prisma.InputJsonValue,
+    },
+  });
+  console.info("Callback queued", { path, transactionId: payload.transactionId });
+}
+
+// Mirrors a settled callback onto the provider's own bet and round records.
+async function applyCallbackResult(
+  path: string,
+  payload: CallbackPayload,
+  response: CasinoCallbackResponse
+) {
+  const bet = await settleBet(payload.transactionId, response);
+  if (!response.ok) return;
+
+  if (path === "/rollback" && payload.originalTransactionId) {
+    // A tombstone probe names an original the provider never recorded.
+    const original = await prisma.providerBet.findUnique({
+      where: { transactionId: payload.originalTransactionId },
+    });
+    if (original) await transitionBet(original.transactionId, "rolled_back");
+  }
+  await finishRound(bet.providerGameRoundId);
+}
+
+export async function processDueCallbacks(): Promise<number> {
+  const due = await prisma.providerCallbackOutbox.findMany({
+    where: { status: "pending", nextAttemptAt: { lte: new Date() } },
+    include: { providerCasino: true },
+    orderBy: { nextAttemptAt: "asc" },
+    take: BATCH_SIZE,
+  });
+
+  let processed = 0;
+  for (const entry of due) {
+    // Claim with a lease so a second worker (or a slow previous tick) skips it.
+    const claimed = await prisma.providerCallbackOutbox.updateMany({
+      where: { id: entry.id, status: "pending", nextAttemptAt: entry.nextAttemptAt },
+      data: { nextAttemptAt: new Date(Date.now() + CLAIM_LEASE_MS) },
+    });
+    if (claimed.count === 0) continue;
+
+    const payload = entry.payload as CallbackPayload;
+    const response = await callCasino(entry.providerCasino, entry.path, payload);
+    const attempts = entry.attempts + 1;
+
+    if (response.unresolved) {
+      const delay = backoffMs(attempts);
+      await prisma.providerCallbackOutbox.update({
+        where: { id: entry.id },
+        data: {
+          attempts,
+          nextAttemptAt: new Date(Date.now() + delay),
+          lastStatus: response.status,
+          lastError: JSON.stringify(response.data).slice(0, 500),
+        },
+      });
+      console.warn("Callback retry scheduled", {
+        path: entry.path,
+        transactionId: entry.transactionId,
+        attempts,
+        delayMs: Math.round(delay),
+      });
+      continue;
+    }
+
+    await prisma.providerCallbackOutbox.update({
+      where: { id: entry.id },
+      data: {
+        attempts,
+        status: response.ok ? "succeeded" : "failed",
+        lastStatus: response.status,
+        lastError: response.ok ? null : JSON.stringify(response.data).slice(0, 500),
+      },
+    });
+    try {
+      await applyCallbackResult(entry.path, payload, response);
+    } catch (err) {
+      // The casino's answer is final; a local state conflict must not stall the queue.
+      console.error("Callback result not applied", { transactionId: entry.transactionId, err });
+    }
+    processed += 1;
+
+    if (response.ok) {
+      console.info("Callback delivered", { path: entry.path, transactionId: entry.transactionId, attempts });
+    } else {
+      // Definitive rejection: retrying cannot help, a human has to look at it.
+      console.error("Callback rejected by casino", {
+        path: entry.path,
+        transactionId: entry.transactionId,
+        status: response.status,
+        data: response.data,
+      });
+    }
+  }
+  return processed;
+}
+
+/** Polls the outbox until the returned stop function is called. */
+export function startOutboxWorker(): () => void {
+  const configured = Number(process.env.OUTBOX_POLL_INTERVAL_MS);
+  const intervalMs = configured > 0 ? configured : DEFAULT_POLL_INTERVAL_MS;
+  let running = false;
+
+  const timer = setInterval(() => {
+    if (running) return;
+    running = true;
+    processDueCallbacks()
+      .catch((err) => console.error("Outbox worker error", err))
+      .finally(() => {
+        running = false;
+      });
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,160 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../db";
+import { BadRequestError, ConflictError, NotFoundError } from "../lib/errors";
+import type { CreateProviderGameInput, GamesFeedInput, UpdateProviderGameInput } from "./provider.schemas";
+
+/**
+ * The provider's game catalog. Admins create games, change their engine
+ * settings and bet limits, and switch them on or off; casinos read the
+ * active catalog from `/provider/games` to keep their own game list in step.
+ */
+
+type ProviderGameRow = {
+  gameId: string;
+  isActive: boolean;
+  minBet: bigint;
+  maxBet: bigint;
+  engine: string | null;
+  rtpBps: number;
+  volatility: string;
+  engineConfig: unknown;
+  jackpotCode: string | null;
+  createdAt: Date;
+};
+
+function serializeGame(game: ProviderGameRow) {
+  return {
+    gameId: game.gameId,
+    isActive: game.isActive,
+    minBet: game.minBet.toString(),
+    maxBet: game.maxBet.toString(),
+    engine: game.engine,
+    rtpBps: game.rtpBps,
+    volatility: game.volatility,
+    engineConfig: (game.engineConfig ?? null) as Record<string, unknown> | null,
+    jackpotCode: game.jackpotCode,
+    createdAt: game.createdAt,
+  };
+}
+
+async function findGame(gameId: string) {
+  const game = await prisma.providerGame.findUnique({ where: { gameId } });
+  if (!game) throw new NotFoundError("GAME_NOT_FOUND", "Game not found");
+  return game;
+}
+
+async function assertJackpotExists(jackpotCode: string | null | undefined) {
+  if (!jackpotCode) return;
+  const pool = await prisma.providerJackpotPool.findFirst({ where: { code: jackpotCode } });
+  if (!pool) {
+    throw new BadRequestError("VALIDATION_ERROR", "Unknown jackpot pool", {
+      fields: [{ field: "jackpotCode", message: `No pool with code ${jackpotCode}` }],
+    });
+  }
+}
+
+function engineConfigValue(engineConfig: Record<string, unknown> | null | undefined) {
+  if (engineConfig === undefined) return undefined;
+  return engineConfig === null ? Prisma.DbNull : (engineConfig as Prisma.InputJsonObject);
+}
+
+// ─── Admin ───────────────────────────────────────────────────────
+
+export async function listGames() {
+  const games = await prisma.providerGame.findMany({ orderBy: { gameId: "asc" } });
+  return { games: games.map(serializeGame) };
+}
+
+export async function createGame(input: CreateProviderGameInput) {
+  const existing = await prisma.providerGame.findUnique({ where: { gameId: input.gameId } });
+  if (existing) {
+    throw new ConflictError("GAME_EXISTS", "Game already exists", { gameId: input.gameId });
+  }
+  await assertJackpotExists(input.jackpotCode);
+
+  const game = await prisma.providerGame.create({
+    data: {
+      gameId: input.gameId,
+      isActive: input.isActive,
+      minBet: BigInt(input.minBet),
+      maxBet: BigInt(input.maxBet),
+      engine: input.engine,
+      rtpBps: input.rtpBps,
+      volatility: input.volatility,
+      engineConfig: engineConfigValue(input.engineConfig),
+      jackpotCode: input.jackpotCode,
+    },
+  });
+
+  console.info("Provider game created", { gameId: game.gameId, isActive: game.isActive });
+  return serializeGame(game);
+}
+
+/** Bet limits are checked against each other after the update, so one of them may be given alone. */
+export async function updateGame(gameId: string, input: UpdateProviderGameInput) {
+  const game = await findGame(gameId);
+  const minBet = input.minBet !== undefined ? BigInt(input.minBet) : game.minBet;
+  const maxBet = input.maxBet !== undefined ? BigInt(input.maxBet) : game.maxBet;
+  if (minBet > maxBet) {
+    throw new BadRequestError("VALIDATION_ERROR", "minBet must not exceed maxBet", {
+      fields: [{ field: "minBet", message: `Must not exceed maxBet (${maxBet})` }],
+    });
+  }
+  await assertJackpotExists(input.jackpotCode);
+
+  const updated = await prisma.providerGame.update({
+    where: { id: game.id },
+    data: {
+      minBet,
+      maxBet,
+      engine: input.engine,
+      rtpBps: input.rtpBps,
+      volatility: input.volatility,
+      engineConfig: engineConfigValue(input.engineConfig),
+      jackpotCode: input.jackpotCode,
+    },
+  });
+
+  console.info("Provider game updated", { gameId, changed: Object.keys(input) });
+  return serializeGame(updated);
+}
+
+/**
+ * A deactivated game cannot be launched and its open sessions can no longer
+ * play; rounds already in flight still settle.
+ */
+export async function setGameActive(gameId: string, isActive: boolean) {
+  const game = await findGame(gameId);
+  const updated = await prisma.providerGame.update({
+    where: { id: game.id },
+    data: { isActive },
+  });
+
+  console.info(isActive ? "Provider game activated" : "Provider game deactivated", { gameId });
+  return serializeGame(updated);
+}
+
+// ─── Casino feed ─────────────────────────────────────────────────
+
+/** The games a casino can currently launch, with their bet limits. */
+export async function gamesFeed(input: GamesFeedInput) {
+  const casino = await prisma.providerCasino.findUnique({ where: { casinoCode: input.casinoCode } });
+  if (!casino || !casino.isActive) {
+    throw new NotFoundError("CASINO_NOT_FOUND", "Casino not found or inactive");
+  }
+
+  const games = await prisma.providerGame.findMany({
+    where: { isActive: true },
+    orderBy: { gameId: "asc" },
+  });
+  return {
+    casinoCode: casino.casinoCode,
+    games: games.map((game) => ({
+      gameId: game.gameId,
+      minBet: game.minBet.toString(),
+      maxBet: game.maxBet.toString(),
+      engine: game.engine,
+      jackpotCode: game.jackpotCode,
+    })),
+  };
+}
@@ -1,28 +1,103 @@
 import { Request, Response } from "express";
+import * as providerCatalog from "./provider.catalog";
+import * as providerJackpots from "./provider.jackpots";
 import * as providerService from "./provider.service";
 
 export async function launch(req: Request, res: Response) {
-  try {
-    const result = await providerService.launchSession(req.body);
-    return res.json(result);
-  } catch (err: any) {
-    if (err.status) {
-      return res.status(err.status).json({ error: err.error, details: err.details });
-    }
-    console.error("provider launch error", err);
-    return res.status(500).json({ error: "Internal server error" });
-  }
+  const result = await providerService.launchSession(req.body);
+  return res.json(result);
+}
+
+export async function closeSession(req: Request, res: Response) {
+  const result = await providerService.closeSession(req.body);
+  return res.json(result);
+}
+
+export async function registerFreeSpins(req: Request, res: Response) {
+  const result = await providerService.registerFreeSpins(req.body);
+  return res.status(201).json(result);
+}
+
+export async function play(req: Request, res: Response) {
+  const result = await providerService.play(req.body);
+  return res.json(result);
+}
+
+export async function rotateSeed(req: Request, res: Response) {
+  const result = await providerService.rotateSeed(req.body);
+  return res.json(result);
+}
+
+export async function verifyRound(req: Request, res: Response) {
+  const result = await providerService.verifyRound(req.body);
+  return res.json(result);
+}
+
+export async function roundsReport(req: Request, res: Response) {
+  const result = await providerService.roundsReport(req.body);
+  return res.json(result);
+}
+
+export async function gamesFeed(req: Request, res: Response) {
+  const result = await providerCatalog.gamesFeed(req.body);
+  return res.json(result);
+}
+
+export async function listJackpots(_req: Request, res: Response) {
+  const result = await providerJackpots.listPools();
+  return res.json(result);
 }
 
 export async function simulate(req: Request, res: Response) {
-  try {
-    const result = await providerService.simulateRound(req.body);
-    return res.json(result);
-  } catch (err: any) {
-    if (err.status) {
-      return res.status(err.status).json({ error: err.error, details: err.details });
-    }
-    console.error("provider simulate error", err);
-    return res.status(500).json({ error: "Internal server error" });
-  }
+  const result = await providerService.simulateRound(req.body);
+  return res.json(result);
+}
+
+export async function addCasinoKey(req: Request, res: Response) {
+  const result = await providerService.addCasinoKey(req.params.casinoCode, req.body);
+  return res.status(201).json(result);
+}
+
+export async function listCasinoKeys(req: Request, res: Response) {
+  const result = await providerService.listCasinoKeys(req.params.casinoCode);
+  return res.json(result);
+}
+
+export async function retireCasinoKey(req: Request, res: Response) {
+  const result = await providerService.retireCasinoKey(
+    req.params.casinoCode,
+    Number(req.params.keyId),
+    req.body
+  );
+  return res.json(result);
+}
+
+export async function setCasinoOutboundSecret(req: Request, res: Response) {
+  const result = await providerService.setCasinoOutboundSecret(req.params.casinoCode, req.body);
+  return res.json(result);
+}
+
+export async function listGames(_req: Request, res: Response) {
+  const result = await providerCatalog.listGames();
+  return res.json(result);
+}
+
+export async function createGame(req: Request, res: Response) {
+  const result = await providerCatalog.createGame(req.body);
+  return res.status(201).json(result);
+}
+
+export async function updateGame(req: Request, res: Response) {
+  const result = await providerCatalog.updateGame(req.params.gameId, req.body);
+  return res.json(result);
+}
+
+export async function activateGame(req: Request, res: Response) {
+  const result = await providerCatalog.setGameActive(req.params.gameId, true);
+  return res.json(result);
+}
+
+export async function deactivateGame(req: Request, res: Response) {
+  const result = await providerCatalog.setGameActive(req.params.gameId, false);
+  return res.json(result);
 }
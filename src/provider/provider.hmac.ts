@@ -1,27 +1,58 @@
-import { Request, Response, NextFunction } from "express";
-import { verifySignature } from "../lib/hmac";
+import { Request, RequestHandler, Response, NextFunction } from "express";
+import { prisma } from "../db";
+import { asyncHandler, UnauthorizedError } from "../lib/errors";
+import { verifyRequestSignature } from "../lib/hmac";
 
-export function verifyProviderSignature(
-  req: Request,
-  res: Response,
-  next: NextFunction
-): void {
-  const secret = process.env.PROVIDER_SECRET;
-  if (!secret) {
-    console.error("PROVIDER_SECRET not configured");
-    res.status(500).json({ error: "Server misconfiguration" });
+/**
+ * Casino calls identify the caller with `x-casino-code` and are verified
+ * against that casino's currently valid inbound keys.
+ */
+export const verifyProviderSignature: RequestHandler = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const casinoCode = req.header("x-casino-code");
+  if (!casinoCode) {
+    console.warn("Missing casino code", { path: req.path, ip: req.ip });
+    next(new UnauthorizedError("UNAUTHORIZED", "Missing x-casino-code header"));
     return;
   }
 
-  const signature = req.header("x-provider-signature");
-  if (!verifySignature(signature, req.body, secret)) {
+  // A casino may only act on its own behalf.
+  if (req.body?.casinoCode !== undefined && req.body.casinoCode !== casinoCode) {
+    console.warn("Casino code mismatch", { path: req.path, ip: req.ip, casinoCode });
+    next(new UnauthorizedError("UNAUTHORIZED", "Casino code does not match signer"));
+    return;
+  }
+
+  const now = new Date();
+  const casino = await prisma.providerCasino.findUnique({
+    where: { casinoCode },
+    include: {
+      providerCasinoKeys: {
+        where: {
+          validFrom: { lte: now },
+          OR: [{ validUntil: null }, { validUntil: { gt: now } }],
+        },
+      },
+    },
+  });
+
+  const secrets = casino?.providerCasinoKeys.map((key) => key.secret) ?? [];
+  const failureReason = !casino
+    ? "unknown casino"
+    : secrets.length === 0
+      ? "no valid keys"
+      : verifyRequestSignature(req, "x-provider-signature", secrets, `provider:${casino.casinoCode}`);
+
+  if (!casino || failureReason) {
     console.warn("Invalid provider signature", {
       path: req.path,
       ip: req.ip,
+      casinoCode,
+      reason: failureReason,
     });
-    res.status(401).json({ error: "Invalid signature" });
+    next(new UnauthorizedError("INVALID_SIGNATURE", "Invalid signature"));
     return;
   }
 
+  res.locals.providerCasino = { id: casino.id, casinoCode: casino.casinoCode };
   next();
-}
+});
@@ -0,0 +1,170 @@
+import { randomUUID } from "crypto";
+import { prisma } from "../db";
+import { callCasino, enqueueCallback } from "./provider.callbacks";
+import { createJackpotRng } from "./engine";
+import { openBet, settleBet } from "./provider.state";
+
+/**
+ * Progressive jackpots. A game feeds the pool named by its `jackpotCode` in
+ * the round's currency. Each accepted stake adds `contributionBps` of itself
+ * to the pool and gets one draw at 1 / hitOdds; a hit takes the whole pool,
+ * which restarts from its seed amount.
+ *
+ * The draw is provably fair on its own stream ("<clientSeed>:<nonce>:jackpot")
+ * and the win is paid by a separate credit flagged with `jackpot`, so game
+ * outcomes and their verification are unaffected.
+ */
+
+interface JackpotRound {
+  id: number;
+  roundId: string;
+  currency: string;
+  casinoUserId: number;
+  serverSeed: string | null;
+  clientSeed: string | null;
+  nonce: number | null;
+}
+
+export interface JackpotHit {
+  winId: number;
+  poolCode: string;
+  transactionId: string;
+  amount: bigint;
+}
+
+// ─── Pools ───────────────────────────────────────────────────────
+
+/** Current pool values for the lobby, with the games feeding each pool. */
+export async function listPools() {
+  const pools = await prisma.providerJackpotPool.findMany({
+    orderBy: [{ code: "asc" }, { currency: "asc" }],
+  });
+  const games = await prisma.providerGame.findMany({
+    where: { isActive: true, jackpotCode: { in: pools.map((pool) => pool.code) } },
+    select: { gameId: true, jackpotCode: true },
+    orderBy: { gameId: "asc" },
+  });
+
+  return {
+    pools: pools.map((pool) => ({
+      code: pool.code,
+      name: pool.name,
+      currency: pool.currency,
+      amount: pool.currentAmount.toString(),
+      contributionBps: pool.contributionBps,
+      lastWonAt: pool.lastWonAt,
+      games: games.filter((game) => game.jackpotCode === pool.code).map((game) => game.gameId),
+    })),
+  };
+}
+
+// ─── Contribution and draw ───────────────────────────────────────
+
+/**
+ * Adds the stake's contribution to the game's pool and draws for the
+ * jackpot. Call once the casino has accepted the stake. Returns the hit, if
+ * any; the pool has already been reset and the win recorded.
+ */
+export async function contributeToJackpot(
+  game: { jackpotCode: string | null },
+  round: JackpotRound,
+  stake: bigint
+): Promise<JackpotHit | null> {
+  if (!game.jackpotCode || !round.serverSeed || !round.clientSeed || round.nonce === null) {
+    return null;
+  }
+  const code = game.jackpotCode;
+  const rng = createJackpotRng(round.serverSeed, round.clientSeed, round.nonce);
+
+  return prisma.$transaction(async (tx) => {
+    // Lock the pool so a contribution cannot land between reading the
+    // amount and resetting it after a hit.
+    const [locked] = await tx.$queryRaw<Array<{ id: number }>>`
+      SELECT id FROM provider_jackpot_pools
+      WHERE code = ${code} AND currency = ${round.currency}
+      FOR UPDATE
+    `;
+    if (!locked) return null;
+    const pool = await tx.providerJackpotPool.findUniqueOrThrow({ where: { id: locked.id } });
+
+    const contribution = (stake * BigInt(pool.contributionBps)) / BigInt(10_000);
+    await tx.providerGameRound.update({
+      where: { id: round.id },
+      data: { jackpotContribution: contribution },
+    });
+
+    const amount = pool.currentAmount + contribution;
+    if (pool.hitOdds <= 0 || rng.nextInt(pool.hitOdds) !== 0) {
+      await tx.providerJackpotPool.update({
+        where: { id: pool.id },
+        data: { currentAmount: amount },
+      });
+      return null;
+    }
+
+    const now = new Date();
+    await tx.providerJackpotPool.update({
+      where: { id: pool.id },
+      data: { currentAmount: pool.seedAmount, lastWonAt: now },
+    });
+    const win = await tx.providerJackpotWin.create({
+      data: {
+        providerJackpotPoolId: pool.id,
+        providerGameRoundId: round.id,
+        transactionId: randomUUID(),
+        casinoUserId: round.casinoUserId,
+        amount,
+        createdAt: now,
+      },
+    });
+    console.info("Jackpot hit", {
+      poolCode: pool.code,
+      currency: pool.currency,
+      roundId: round.roundId,
+      amount: amount.toString(),
+    });
+    return { winId: win.id, poolCode: pool.code, transactionId: win.transactionId, amount };
+  });
+}
+
+// ─── Payout ──────────────────────────────────────────────────────
+
+/**
+ * Credits a jackpot hit to the casino. Like a round payout, an unconfirmed
+ * credit goes to the outbox under the same transactionId; a rejected one is
+ * left on the bet for manual follow-up.
+ */
+export async function payJackpot(
+  casino: { id: number; casinoCode: string; casinoApiEndpoint: string; casinoSecret: string },
+  round: { id: number; roundId: string; status: string; providerCasinoId: number; casinoUserId: number },
+  walletRequest: Record<string, unknown>,
+  stakeTransactionId: string,
+  hit: JackpotHit
+) {
+  const payload = {
+    ...walletRequest,
+    transactionId: hit.transactionId,
+    amount: Number(hit.amount),
+    relatedTransactionId: stakeTransactionId,
+    jackpot: { poolCode: hit.poolCode, winId: String(hit.winId) },
+  };
+  await openBet(round, hit.transactionId, "credit", hit.amount);
+  const response = await callCasino(casino, "/credit", payload);
+  await settleBet(hit.transactionId, response);
+
+  const jackpot = { poolCode: hit.poolCode, amount: hit.amount.toString() };
+  if (response.unresolved) {
+    await enqueueCallback(casino.id, "/credit", payload);
+    console.warn("Jackpot payout pending", { roundId: round.roundId, transactionId: hit.transactionId });
+    return { jackpot: { ...jackpot, settlement: "pending" }, balance: null };
+  }
+  if (!response.ok) {
+    console.error("Jackpot payout rejected", {
+      roundId: round.roundId,
+      transactionId: hit.transactionId,
+      response: response.data,
+    });
+    return { jackpot: { ...jackpot, settlement: "rejected" }, balance: null };
+  }
+  return { jackpot: { ...jackpot, settlement: "settled" }, balance: response.data.balance as string };
+}
@@ -0,0 +1,272 @@
+import {
+  keyWindowSchema,
+  keyResponseSchema,
+  newKeyResponseSchema,
+  outboundSecretSchema,
+  retireKeySchema,
+} from "../lib/keys";
+import { RouteSpec } from "../lib/openapi";
+import {
+  casinoKeyParamsSchema,
+  casinoKeysParamsSchema,
+  casinoKeysResponseSchema,
+  casinoOutboundSecretResponseSchema,
+  closeSessionResponseSchema,
+  closeSessionSchema,
+  createProviderGameSchema,
+  freeSpinsResponseSchema,
+  gamesFeedResponseSchema,
+  gamesFeedSchema,
+  jackpotsResponseSchema,
+  launchResponseSchema,
+  launchSchema,
+  playResponseSchema,
+  playSchema,
+  providerGameParamsSchema,
+  providerGameResponseSchema,
+  providerGamesResponseSchema,
+  registerFreeSpinsSchema,
+  rotateSeedResponseSchema,
+  rotateSeedSchema,
+  roundsReportResponseSchema,
+  roundsReportSchema,
+  simulateResponseSchema,
+  simulateSchema,
+  updateProviderGameSchema,
+  verifyRoundResponseSchema,
+  verifyRoundSchema,
+} from "./provider.schemas";
+
+// One entry per route in provider.routes.ts; `pnpm check:openapi` fails on a missing one.
+export const providerRouteSpecs: RouteSpec[] = [
+  // ─── Casino → provider ───────────────────────────────────────
+  {
+    method: "post",
+    path: "/provider/launch",
+    tag: "Provider: casino calls",
+    summary: "Create a provider game session",
+    auth: "providerCall",
+    body: launchSchema,
+    response: launchResponseSchema,
+    errors: { 404: ["CASINO_NOT_FOUND", "GAME_NOT_FOUND"] },
+  },
+  {
+    method: "post",
+    path: "/provider/simulate",
+    tag: "Provider: casino calls",
+    summary: "Run the scripted wallet-callback simulation",
+    auth: "providerCall",
+    body: simulateSchema,
+    response: simulateResponseSchema,
+    errors: {
+      404: ["CASINO_NOT_FOUND", "GAME_NOT_FOUND", "PLAYER_NOT_FOUND", "SESSION_NOT_FOUND"],
+      409: ["SESSION_CLOSED"],
+      502: ["UPSTREAM_ERROR"],
+    },
+  },
+  {
+    method: "post",
+    path: "/provider/closeSession",
+    tag: "Provider: casino calls",
+    summary: "Close a provider session; no new rounds start afterwards",
+    auth: "providerCall",
+    body: closeSessionSchema,
+    response: closeSessionResponseSchema,
+    errors: { 404: ["CASINO_NOT_FOUND", "SESSION_NOT_FOUND"] },
+  },
+  {
+    method: "post",
+    path: "/provider/freeSpins",
+    tag: "Provider: casino calls",
+    summary: "Register a free-spin campaign for a casino player",
+    description: "Idempotent on `campaignId`: a repeat returns the campaign as first registered.",
+    auth: "providerCall",
+    body: registerFreeSpinsSchema,
+    response: freeSpinsResponseSchema,
+    successStatus: 201,
+    errors: { 400: ["BET_LIMIT"], 404: ["CASINO_NOT_FOUND", "GAME_NOT_FOUND"] },
+  },
+  {
+    method: "post",
+    path: "/provider/rounds",
+    tag: "Provider: casino calls",
+    summary: "Report the casino's rounds and every bet on them, for reconciliation",
+    description:
+      "Rounds started in `[from, to)`, or the listed `roundIds`. Pages hold up to `limit` " +
+      "rounds; pass `nextCursor` back as `cursor` until it is null.",
+    auth: "providerCall",
+    body: roundsReportSchema,
+    response: roundsReportResponseSchema,
+    errors: { 404: ["CASINO_NOT_FOUND"] },
+  },
+  {
+    method: "post",
+    path: "/provider/games",
+    tag: "Provider: casino calls",
+    summary: "The active game catalog with bet limits, for the casino to sync from",
+    auth: "providerCall",
+    body: gamesFeedSchema,
+    response: gamesFeedResponseSchema,
+    errors: { 404: ["CASINO_NOT_FOUND"] },
+  },
+
+  // ─── Player ──────────────────────────────────────────────────
+  {
+    method: "post",
+    path: "/provider/play",
+    tag: "Provider: player",
+    summary: "Play one round: debit the stake, draw the outcome, credit the win",
+    description:
+      "Casino rejections keep the casino's status and code (e.g. 400 INSUFFICIENT_FUNDS). " +
+      "An unconfirmed payout returns 200 with `settlement: \"pending\"`. With `campaignId` the " +
+      "round is a free round at the campaign's bet: no debit is sent. On a jackpot hit " +
+      "`jackpot` reports the pool paid and its credit's settlement.",
+    auth: "none",
+    body: playSchema,
+    response: playResponseSchema,
+    errors: {
+      400: ["BET_LIMIT", "INSUFFICIENT_FUNDS"],
+      403: ["SELF_EXCLUDED", "RESPONSIBLE_GAMING_LIMIT"],
+      404: ["SESSION_NOT_FOUND", "CASINO_NOT_FOUND", "GAME_NOT_FOUND", "CAMPAIGN_NOT_FOUND"],
+      409: [
+        "SESSION_CLOSED",
+        "ROUND_CLOSED",
+        "INVALID_TRANSITION",
+        "CAMPAIGN_EXPIRED",
+        "CAMPAIGN_EXHAUSTED",
+      ],
+      502: ["UPSTREAM_ERROR"],
+    },
+  },
+  {
+    method: "post",
+    path: "/provider/rotateSeed",
+    tag: "Provider: player",
+    summary: "Reveal the current server seed and commit to a new one",
+    auth: "none",
+    body: rotateSeedSchema,
+    response: rotateSeedResponseSchema,
+    errors: { 404: ["SESSION_NOT_FOUND"], 409: ["SESSION_CLOSED", "CONCURRENT_UPDATE"] },
+  },
+  {
+    method: "post",
+    path: "/provider/verifyRound",
+    tag: "Provider: player",
+    summary: "Recompute a round from its revealed seeds",
+    auth: "none",
+    body: verifyRoundSchema,
+    response: verifyRoundResponseSchema,
+    errors: { 404: ["ROUND_NOT_FOUND"], 409: ["NOT_REVEALED"] },
+  },
+
+  // ─── Lobby ───────────────────────────────────────────────────
+  {
+    method: "get",
+    path: "/provider/jackpots",
+    tag: "Provider: lobby",
+    summary: "Current jackpot pool values and the games feeding each pool",
+    auth: "none",
+    response: jackpotsResponseSchema,
+  },
+
+  // ─── Admin ───────────────────────────────────────────────────
+  {
+    method: "post",
+    path: "/provider/admin/casinos/:casinoCode/keys",
+    tag: "Provider: admin",
+    summary: "Add an inbound signing key for a casino",
+    description: "The secret is returned once and never listed again.",
+    auth: "admin",
+    params: casinoKeysParamsSchema,
+    body: keyWindowSchema,
+    response: newKeyResponseSchema,
+    successStatus: 201,
+    errors: { 404: ["CASINO_NOT_FOUND"] },
+  },
+  {
+    method: "get",
+    path: "/provider/admin/casinos/:casinoCode/keys",
+    tag: "Provider: admin",
+    summary: "List a casino's inbound signing keys",
+    auth: "admin",
+    params: casinoKeysParamsSchema,
+    response: casinoKeysResponseSchema,
+    errors: { 404: ["CASINO_NOT_FOUND"] },
+  },
+  {
+    method: "post",
+    path: "/provider/admin/casinos/:casinoCode/keys/:keyId/retire",
+    tag: "Provider: admin",
+    summary: "Retire a casino signing key now or at a given time",
+    auth: "admin",
+    params: casinoKeyParamsSchema,
+    body: retireKeySchema,
+    response: keyResponseSchema,
+    errors: { 404: ["CASINO_NOT_FOUND", "KEY_NOT_FOUND"] },
+  },
+  {
+    method: "post",
+    path: "/provider/admin/casinos/:casinoCode/outboundSecret",
+    tag: "Provider: admin",
+    summary: "Replace the secret callbacks to a casino are signed with",
+    description:
+      "Use a key the casino already accepts (`/casino/admin/providers/:providerCode/keys`). The secret is not returned.",
+    auth: "admin",
+    params: casinoKeysParamsSchema,
+    body: outboundSecretSchema,
+    response: casinoOutboundSecretResponseSchema,
+    errors: { 404: ["CASINO_NOT_FOUND"] },
+  },
+  {
+    method: "get",
+    path: "/provider/admin/games",
+    tag: "Provider: admin",
+    summary: "List every game, active or not, with its engine settings and bet limits",
+    auth: "admin",
+    response: providerGamesResponseSchema,
+  },
+  {
+    method: "post",
+    path: "/provider/admin/games",
+    tag: "Provider: admin",
+    summary: "Create a game",
+    description: "Engine settings left out take the column defaults (`rtpBps` 9600, `volatility` medium).",
+    auth: "admin",
+    body: createProviderGameSchema,
+    response: providerGameResponseSchema,
+    successStatus: 201,
+    errors: { 409: ["GAME_EXISTS"] },
+  },
+  {
+    method: "patch",
+    path: "/provider/admin/games/:gameId",
+    tag: "Provider: admin",
+    summary: "Change a game's bet limits or engine settings",
+    description: "Only the fields given change. `null` clears `engine`, `engineConfig` or `jackpotCode`.",
+    auth: "admin",
+    params: providerGameParamsSchema,
+    body: updateProviderGameSchema,
+    response: providerGameResponseSchema,
+    errors: { 404: ["GAME_NOT_FOUND"] },
+  },
+  {
+    method: "post",
+    path: "/provider/admin/games/:gameId/activate",
+    tag: "Provider: admin",
+    summary: "Make a game launchable and list it in the casino feed",
+    auth: "admin",
+    params: providerGameParamsSchema,
+    response: providerGameResponseSchema,
+    errors: { 404: ["GAME_NOT_FOUND"] },
+  },
+  {
+    method: "post",
+    path: "/provider/admin/games/:gameId/deactivate",
+    tag: "Provider: admin",
+    summary: "Stop new launches and play of a game and drop it from the casino feed",
+    auth: "admin",
+    params: providerGameParamsSchema,
+    response: providerGameResponseSchema,
+    errors: { 404: ["GAME_NOT_FOUND"] },
+  },
+];
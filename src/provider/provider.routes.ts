@@ -1,10 +1,129 @@
 import { Router } from "express";
+import { verifyAdminKey } from "../lib/admin";
+import { asyncHandler } from "../lib/errors";
+import { keyWindowSchema, outboundSecretSchema, retireKeySchema } from "../lib/keys";
+import { validate } from "../lib/validation";
 import { verifyProviderSignature } from "./provider.hmac";
-import { launch, simulate } from "./provider.controller";
+import {
+  launch,
+  simulate,
+  play,
+  rotateSeed,
+  verifyRound,
+  closeSession,
+  registerFreeSpins,
+  roundsReport,
+  gamesFeed,
+  listJackpots,
+  addCasinoKey,
+  listCasinoKeys,
+  retireCasinoKey,
+  setCasinoOutboundSecret,
+  listGames,
+  createGame,
+  updateGame,
+  activateGame,
+  deactivateGame,
+} from "./provider.controller";
+import {
+  casinoKeyParamsSchema,
+  casinoKeysParamsSchema,
+  closeSessionSchema,
+  createProviderGameSchema,
+  gamesFeedSchema,
+  launchSchema,
+  playSchema,
+  providerGameParamsSchema,
+  registerFreeSpinsSchema,
+  rotateSeedSchema,
+  roundsReportSchema,
+  simulateSchema,
+  updateProviderGameSchema,
+  verifyRoundSchema,
+} from "./provider.schemas";
 
 const router: Router = Router();
 
-router.post("/launch", verifyProviderSignature, launch);
-router.post("/simulate", verifyProviderSignature, simulate);
+// Casino-initiated (HMAC-protected, caller identified by x-casino-code)
+router.post("/launch", verifyProviderSignature, validate({ body: launchSchema }), asyncHandler(launch));
+router.post("/simulate", verifyProviderSignature, validate({ body: simulateSchema }), asyncHandler(simulate));
+router.post(
+  "/closeSession",
+  verifyProviderSignature,
+  validate({ body: closeSessionSchema }),
+  asyncHandler(closeSession)
+);
+router.post(
+  "/freeSpins",
+  verifyProviderSignature,
+  validate({ body: registerFreeSpinsSchema }),
+  asyncHandler(registerFreeSpins)
+);
+router.post(
+  "/rounds",
+  verifyProviderSignature,
+  validate({ body: roundsReportSchema }),
+  asyncHandler(roundsReport)
+);
+router.post("/games", verifyProviderSignature, validate({ body: gamesFeedSchema }), asyncHandler(gamesFeed));
+
+// Player-initiated (authorised by possession of the providerSessionId)
+router.post("/play", validate({ body: playSchema }), asyncHandler(play));
+router.post("/rotateSeed", validate({ body: rotateSeedSchema }), asyncHandler(rotateSeed));
+router.post("/verifyRound", validate({ body: verifyRoundSchema }), asyncHandler(verifyRound));
+
+// Lobby (public, read-only)
+router.get("/jackpots", asyncHandler(listJackpots));
+
+// Admin (x-admin-key)
+router.post(
+  "/admin/casinos/:casinoCode/keys",
+  verifyAdminKey,
+  validate({ params: casinoKeysParamsSchema, body: keyWindowSchema }),
+  asyncHandler(addCasinoKey)
+);
+router.get(
+  "/admin/casinos/:casinoCode/keys",
+  verifyAdminKey,
+  validate({ params: casinoKeysParamsSchema }),
+  asyncHandler(listCasinoKeys)
+);
+router.post(
+  "/admin/casinos/:casinoCode/keys/:keyId/retire",
+  verifyAdminKey,
+  validate({ params: casinoKeyParamsSchema, body: retireKeySchema }),
+  asyncHandler(retireCasinoKey)
+);
+router.post(
+  "/admin/casinos/:casinoCode/outboundSecret",
+  verifyAdminKey,
+  validate({ params: casinoKeysParamsSchema, body: outboundSecretSchema }),
+  asyncHandler(setCasinoOutboundSecret)
+);
+router.get("/admin/games", verifyAdminKey, asyncHandler(listGames));
+router.post(
+  "/admin/games",
+  verifyAdminKey,
+  validate({ body: createProviderGameSchema }),
+  asyncHandler(createGame)
+);
+router.patch(
+  "/admin/games/:gameId",
+  verifyAdminKey,
+  validate({ params: providerGameParamsSchema, body: updateProviderGameSchema }),
+  asyncHandler(updateGame)
+);
+router.post(
+  "/admin/games/:gameId/activate",
+  verifyAdminKey,
+  validate({ params: providerGameParamsSchema }),
+  asyncHandler(activateGame)
+);
+router.post(
+  "/admin/games/:gameId/deactivate",
+  verifyAdminKey,
+  validate({ params: providerGameParamsSchema }),
+  asyncHandler(deactivateGame)
+);
 
 export default router;
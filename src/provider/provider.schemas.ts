@@ -0,0 +1,308 @@
+import { z } from "zod";
+import { keyResponseSchema } from "../lib/keys";
+import {
+  amountString,
+  betLimitsInOrder,
+  currencyCode,
+  entityId,
+  externalId,
+  isoDateTime,
+  numericParam,
+  positiveAmount,
+} from "../lib/validation";
+
+/**
+ * Request and response contracts for /provider/*. Request schemas are
+ * enforced by the `validate` middleware in provider.routes.ts and are the
+ * source of the service input types; response schemas document what each
+ * route returns.
+ */
+
+const fairnessSchema = z.object({
+  serverSeedHash: z.string(),
+  clientSeed: z.string(),
+  nonce: z.number().int(),
+});
+
+// ─── Casino → provider ───────────────────────────────────────────
+
+export const launchSchema = z.object({
+  sessionToken: z.string().min(1),
+  casinoSessionId: entityId,
+  userId: entityId,
+  gameId: z.string().min(1),
+  currency: currencyCode,
+  casinoCode: z.string().min(1),
+});
+export type LaunchInput = z.infer<typeof launchSchema>;
+
+export const launchResponseSchema = z.object({
+  providerSessionId: z.string(),
+  gameId: z.string(),
+  currency: currencyCode,
+  minBet: amountString,
+  maxBet: amountString,
+  playerId: z.number().int(),
+  fairness: fairnessSchema,
+});
+
+export const closeSessionSchema = z.object({
+  providerSessionId: z.string().min(1),
+  casinoCode: z.string().min(1),
+});
+export type CloseSessionInput = z.infer<typeof closeSessionSchema>;
+
+export const closeSessionResponseSchema = z.object({
+  providerSessionId: z.string(),
+  status: z.literal("closed"),
+});
+
+export const simulateSchema = z.object({
+  sessionToken: z.string().min(1),
+  providerSessionId: z.string().min(1),
+  userId: entityId,
+  gameId: z.string().min(1),
+  currency: currencyCode,
+  casinoCode: z.string().min(1),
+});
+export type SimulateInput = z.infer<typeof simulateSchema>;
+
+export const simulateResponseSchema = z.object({
+  roundId: z.string(),
+  providerSessionId: z.string(),
+  status: z.literal("completed"),
+  steps: z.array(z.object({ step: z.string(), data: z.unknown() })),
+});
+
+export const registerFreeSpinsSchema = z.object({
+  campaignId: z.string().min(1).max(100),
+  casinoCode: z.string().min(1),
+  userId: entityId,
+  gameId: z.string().min(1),
+  currency: currencyCode,
+  rounds: z.number().int().min(1).max(1000),
+  betAmount: positiveAmount,
+  expiresAt: isoDateTime,
+});
+export type RegisterFreeSpinsInput = z.infer<typeof registerFreeSpinsSchema>;
+
+export const freeSpinsResponseSchema = z.object({
+  campaignId: z.string(),
+  playerId: z.number().int(),
+  gameId: z.string(),
+  currency: currencyCode,
+  betAmount: amountString,
+  totalRounds: z.number().int(),
+  remainingRounds: z.number().int(),
+  expiresAt: isoDateTime,
+});
+
+export const gamesFeedSchema = z.object({ casinoCode: z.string().min(1) });
+export type GamesFeedInput = z.infer<typeof gamesFeedSchema>;
+
+export const gamesFeedResponseSchema = z.object({
+  casinoCode: z.string(),
+  games: z.array(
+    z.object({
+      gameId: z.string(),
+      minBet: amountString,
+      maxBet: amountString,
+      engine: z.string().nullable(),
+      jackpotCode: z.string().nullable(),
+    })
+  ),
+});
+
+/**
+ * Rounds started in [from, to), or the given rounds whatever their start
+ * time. Pages are ordered by round and continue from `cursor`.
+ */
+export const roundsReportSchema = z
+  .object({
+    casinoCode: z.string().min(1),
+    from: isoDateTime.optional(),
+    to: isoDateTime.optional(),
+    roundIds: z.array(z.string().min(1)).min(1).max(500).optional(),
+    cursor: entityId.optional(),
+    limit: z.number().int().min(1).max(500).optional(),
+  })
+  .refine((input) => input.roundIds || (input.from && input.to && new Date(input.from) < new Date(input.to)), {
+    message: "Give either roundIds or a from < to range",
+    path: ["from"],
+  });
+export type RoundsReportInput = z.infer<typeof roundsReportSchema>;
+
+const reportedBetSchema = z.object({
+  transactionId: z.string(),
+  betType: z.enum(["debit", "credit", "rollback"]),
+  amount: amountString,
+  status: z.enum(["pending", "accepted", "rejected", "rolled_back", "unknown"]),
+  createdAt: isoDateTime,
+});
+
+export const roundsReportResponseSchema = z.object({
+  casinoCode: z.string(),
+  rounds: z.array(
+    z.object({
+      roundId: z.string(),
+      sessionId: z.string(),
+      userId: z.number().int(),
+      gameId: z.string(),
+      currency: currencyCode,
+      status: z.enum(["open", "settling", "closed", "cancelled"]),
+      totalBet: amountString,
+      totalPayout: amountString,
+      campaignId: z.string().nullable(),
+      createdAt: isoDateTime,
+      bets: z.array(reportedBetSchema),
+    })
+  ),
+  nextCursor: z.number().int().nullable(),
+});
+
+// ─── Player ──────────────────────────────────────────────────────
+
+/** A free round (`campaignId`) is played at the campaign's bet, so `amount` is only needed otherwise. */
+export const playSchema = z
+  .object({
+    providerSessionId: z.string().min(1),
+    amount: positiveAmount.optional(),
+    campaignId: z.string().min(1).optional(),
+    options: z.record(z.string(), z.unknown()).optional(),
+  })
+  .refine((input) => input.amount !== undefined || input.campaignId !== undefined, {
+    message: "Required unless campaignId is given",
+    path: ["amount"],
+  });
+export type PlayInput = z.infer<typeof playSchema>;
+
+export const playResponseSchema = z.object({
+  roundId: z.string(),
+  gameId: z.string(),
+  bet: amountString,
+  payout: amountString,
+  outcome: z.record(z.string(), z.unknown()),
+  fairness: fairnessSchema,
+  settlement: z.enum(["settled", "pending"]),
+  balance: amountString.nullable(),
+  currency: currencyCode,
+  campaignId: z.string().optional(),
+  freeRoundsLeft: z.number().int().optional(),
+  jackpot: z
+    .object({
+      poolCode: z.string(),
+      amount: amountString,
+      settlement: z.enum(["settled", "pending", "rejected"]),
+    })
+    .optional(),
+});
+
+export const rotateSeedSchema = z.object({
+  providerSessionId: z.string().min(1),
+  clientSeed: z.string().optional(),
+});
+export type RotateSeedInput = z.infer<typeof rotateSeedSchema>;
+
+export const rotateSeedResponseSchema = z.object({
+  previous: fairnessSchema.extend({ serverSeed: z.string() }),
+  current: fairnessSchema,
+});
+
+export const verifyRoundSchema = z.object({
+  roundId: z.string().min(1),
+  serverSeed: z.string().optional(),
+});
+export type VerifyRoundInput = z.infer<typeof verifyRoundSchema>;
+
+export const verifyRoundResponseSchema = z.object({
+  roundId: z.string(),
+  verified: z.boolean(),
+  reason: z.string().optional(),
+  serverSeed: z.string().optional(),
+  serverSeedHash: z.string(),
+  clientSeed: z.string().optional(),
+  nonce: z.number().int().optional(),
+  bet: amountString.optional(),
+  recordedOutcome: z.unknown().optional(),
+  recomputedOutcome: z.record(z.string(), z.unknown()).optional(),
+});
+
+// ─── Lobby ───────────────────────────────────────────────────────
+
+export const jackpotsResponseSchema = z.object({
+  pools: z.array(
+    z.object({
+      code: z.string(),
+      name: z.string(),
+      currency: currencyCode,
+      amount: amountString,
+      contributionBps: z.number().int(),
+      lastWonAt: isoDateTime.nullable(),
+      games: z.array(z.string()),
+    })
+  ),
+});
+
+// ─── Admin ───────────────────────────────────────────────────────
+
+export const casinoKeysParamsSchema = z.object({ casinoCode: z.string().min(1) });
+export const casinoKeyParamsSchema = casinoKeysParamsSchema.extend({ keyId: numericParam });
+
+export const casinoKeysResponseSchema = z.object({
+  casinoCode: z.string(),
+  keys: z.array(keyResponseSchema),
+});
+
+export const casinoOutboundSecretResponseSchema = z.object({
+  casinoCode: z.string(),
+  updatedAt: isoDateTime,
+});
+
+/** Engine settings; `null` clears engine, engineConfig or jackpotCode. */
+const engineSettingsSchema = z
+  .object({
+    engine: z.enum(["slot", "dice"]).nullable(),
+    rtpBps: z.number().int().min(1).max(10_000),
+    volatility: z.enum(["low", "medium", "high"]),
+    engineConfig: z.record(z.string(), z.unknown()).nullable(),
+    jackpotCode: z.string().min(1).max(50).nullable(),
+  })
+  .partial();
+
+const BET_LIMITS_ORDER = { message: "minBet must not exceed maxBet", path: ["minBet"] };
+
+export const providerGameParamsSchema = z.object({ gameId: externalId });
+
+export const createProviderGameSchema = engineSettingsSchema
+  .extend({
+    gameId: z.string().min(1).max(100),
+    minBet: positiveAmount,
+    maxBet: positiveAmount,
+    isActive: z.boolean().optional(),
+  })
+  .refine(betLimitsInOrder, BET_LIMITS_ORDER);
+export type CreateProviderGameInput = z.infer<typeof createProviderGameSchema>;
+
+/** Only the fields given change. */
+export const updateProviderGameSchema = engineSettingsSchema
+  .extend({ minBet: positiveAmount.optional(), maxBet: positiveAmount.optional() })
+  .refine((input) => Object.keys(input).length > 0, { message: "Nothing to update" })
+  .refine(betLimitsInOrder, BET_LIMITS_ORDER);
+export type UpdateProviderGameInput = z.infer<typeof updateProviderGameSchema>;
+
+export const providerGameResponseSchema = z.object({
+  gameId: z.string(),
+  isActive: z.boolean(),
+  minBet: amountString,
+  maxBet: amountString,
+  engine: z.string().nullable(),
+  rtpBps: z.number().int(),
+  volatility: z.string(),
+  engineConfig: z.record(z.string(), z.unknown()).nullable(),
+  jackpotCode: z.string().nullable(),
+  createdAt: isoDateTime,
+});
+
+export const providerGamesResponseSchema = z.object({
+  games: z.array(providerGameResponseSchema),
+});
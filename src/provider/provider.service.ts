@@ -1,39 +1,137 @@
 import { randomUUID } from "crypto";
+import { Prisma } from "@prisma/client";
 import { prisma } from "../db";
-import { signBody } from "../lib/hmac";
-
-// ─── Helper: call a Casino callback endpoint ─────────────────────
-
-async function callCasino(
-  casino: { casinoApiEndpoint: string; casinoSecret: string },
-  path: string,
-  body: Record<string, unknown>
-): Promise<{ ok: boolean; status: number; data: any }> {
-  const url = `${casino.casinoApiEndpoint}/casino${path}`;
-  const signature = signBody(body, casino.casinoSecret);
-
-  const response = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "x-casino-signature": signature,
-    },
-    body: JSON.stringify(body),
+import {
+  BadRequestError,
+  BetLimitError,
+  ConflictError,
+  isErrorCode,
+  NotFoundError,
+  SessionNotFoundError,
+  UpstreamError,
+} from "../lib/errors";
+import {
+  KeyWindowInput,
+  OutboundSecretInput,
+  parseNewKey,
+  parseRetireAt,
+  RetireKeyInput,
+  serializeKey,
+} from "../lib/keys";
+import { callCasino, enqueueCallback } from "./provider.callbacks";
+import { contributeToJackpot, JackpotHit, payJackpot } from "./provider.jackpots";
+import type {
+  CloseSessionInput,
+  LaunchInput,
+  PlayInput,
+  RegisterFreeSpinsInput,
+  RotateSeedInput,
+  RoundsReportInput,
+  SimulateInput,
+  VerifyRoundInput,
+} from "./provider.schemas";
+import { finishRound, openBet, settleBet, transitionBet, transitionRound } from "./provider.state";
+import {
+  createEngineForGame,
+  createRoundRng,
+  generateServerSeed,
+  hashServerSeed,
+  resolveClientSeed,
+  stableStringify,
+} from "./engine";
+
+// ─── Casino keys (admin) ─────────────────────────────────────────
+
+async function findCasinoByCode(casinoCode: string) {
+  const casino = await prisma.providerCasino.findUnique({
+    where: { casinoCode },
+  });
+  if (!casino) throw new NotFoundError("CASINO_NOT_FOUND", "Casino not found");
+  return casino;
+}
+
+export async function addCasinoKey(casinoCode: string, input: KeyWindowInput) {
+  const casino = await findCasinoByCode(casinoCode);
+  const newKey = parseNewKey(input);
+
+  const key = await prisma.providerCasinoKey.create({
+    data: { providerCasinoId: casino.id, ...newKey },
+  });
+
+  console.info("Casino key added", { casinoCode, keyId: key.id });
+
+  return { ...serializeKey(key), secret: key.secret };
+}
+
+export async function listCasinoKeys(casinoCode: string) {
+  const casino = await findCasinoByCode(casinoCode);
+
+  const keys = await prisma.providerCasinoKey.findMany({
+    where: { providerCasinoId: casino.id },
+    orderBy: { id: "asc" },
+  });
+
+  return { casinoCode, keys: keys.map(serializeKey) };
+}
+
+export async function retireCasinoKey(
+  casinoCode: string,
+  keyId: number,
+  input: RetireKeyInput
+) {
+  const casino = await findCasinoByCode(casinoCode);
+
+  const key = await prisma.providerCasinoKey.findFirst({
+    where: { id: keyId, providerCasinoId: casino.id },
+  });
+  if (!key) throw new NotFoundError("KEY_NOT_FOUND", "Key not found");
+
+  const retired = await prisma.providerCasinoKey.update({
+    where: { id: key.id },
+    data: { validUntil: parseRetireAt(input) },
   });
 
-  const data = await response.json();
-  return { ok: response.ok, status: response.status, data };
+  console.info("Casino key retired", { casinoCode, keyId: key.id, validUntil: retired.validUntil });
+
+  return serializeKey(retired);
+}
+
+/**
+ * Replaces the secret the provider signs its callbacks to the casino with
+ * (step 2 of a rotation). The casino must already accept it as an inbound
+ * key. Outbox retries are signed when sent, so they use the new secret too.
+ */
+export async function setCasinoOutboundSecret(casinoCode: string, input: OutboundSecretInput) {
+  const casino = await findCasinoByCode(casinoCode);
+
+  await prisma.providerCasino.update({
+    where: { id: casino.id },
+    data: { casinoSecret: input.secret },
+  });
+
+  console.info("Casino outbound secret updated", { casinoCode });
+
+  return { casinoCode, updatedAt: new Date().toISOString() };
 }
 
 // ─── Launch ──────────────────────────────────────────────────────
 
-interface LaunchInput {
-  sessionToken: string;
-  casinoSessionId: string;
-  userId: string;
-  gameId: string;
-  currency: string;
-  casinoCode: string;
+// A casino's player is known to the provider from their first launch or
+// free-spin campaign onwards.
+async function findOrCreatePlayer(casino: { id: number; casinoCode: string }, casinoUserId: number) {
+  const playerKey = `${casino.casinoCode}:${casinoUserId}`;
+  const existing = await prisma.providerCasinoUser.findUnique({
+    where: { playerKey },
+  });
+  if (existing) return existing;
+
+  return prisma.providerCasinoUser.create({
+    data: {
+      providerCasinoId: casino.id,
+      casinoUserId,
+      playerKey,
+    },
+  });
 }
 
 export async function launchSession(input: LaunchInput) {
@@ -41,31 +139,34 @@ export async function launchSession(input: LaunchInput) {
     where: { casinoCode: input.casinoCode },
   });
   if (!casino || !casino.isActive) {
-    throw { status: 404, error: "Casino not found or inactive" };
+    throw new NotFoundError("CASINO_NOT_FOUND", "Casino not found or inactive");
   }
 
   const game = await prisma.providerGame.findUnique({
     where: { gameId: input.gameId },
   });
   if (!game || !game.isActive) {
-    throw { status: 404, error: "Game not found or inactive" };
+    throw new NotFoundError("GAME_NOT_FOUND", "Game not found or inactive");
   }
 
-  const playerKey = `${input.casinoCode}:${input.userId}`;
-  let casinoUser = await prisma.providerCasinoUser.findUnique({
-    where: { playerKey },
-  });
-  if (!casinoUser) {
-    casinoUser = await prisma.providerCasinoUser.create({
-      data: {
-        providerCasinoId: casino.id,
-        casinoUserId: Number(input.userId),
-        playerKey,
-      },
-    });
-  }
+  const casinoUser = await findOrCreatePlayer(casino, input.userId);
 
   const providerSessionId = randomUUID();
+  const serverSeed = generateServerSeed();
+
+  const gameSession = await prisma.providerGameSession.create({
+    data: {
+      sessionId: providerSessionId,
+      casinoSessionToken: input.sessionToken,
+      providerCasinoId: casino.id,
+      providerCasinoUserId: casinoUser.id,
+      providerGameId: game.id,
+      currency: input.currency,
+      serverSeed,
+      serverSeedHash: hashServerSeed(serverSeed),
+      clientSeed: resolveClientSeed(undefined),
+    },
+  });
 
   console.info("Provider session created", {
     providerSessionId,
@@ -80,33 +181,594 @@ export async function launchSession(input: LaunchInput) {
     minBet: game.minBet.toString(),
     maxBet: game.maxBet.toString(),
     playerId: casinoUser.id,
+    fairness: {
+      serverSeedHash: gameSession.serverSeedHash,
+      clientSeed: gameSession.clientSeed,
+      nonce: gameSession.nonce,
+    },
   };
 }
 
-// ─── Simulate ────────────────────────────────────────────────────
+// ─── Close Session ───────────────────────────────────────────────
+
+// Called by the casino when it closes its side of the session. Rounds already
+// in flight may still settle; no new rounds are started afterwards.
+export async function closeSession(input: CloseSessionInput) {
+  const casino = await prisma.providerCasino.findUnique({
+    where: { casinoCode: input.casinoCode },
+  });
+  if (!casino) {
+    throw new NotFoundError("CASINO_NOT_FOUND", "Casino not found");
+  }
+
+  const gameSession = await prisma.providerGameSession.findUnique({
+    where: { sessionId: input.providerSessionId },
+  });
+  if (!gameSession || gameSession.providerCasinoId !== casino.id) {
+    throw new SessionNotFoundError();
+  }
+
+  if (gameSession.status !== "closed") {
+    await prisma.providerGameSession.update({
+      where: { id: gameSession.id },
+      data: { status: "closed", closedAt: new Date() },
+    });
+    console.info("Provider session closed", { providerSessionId: input.providerSessionId });
+  }
+
+  return { providerSessionId: input.providerSessionId, status: "closed" };
+}
 
-interface SimulateInput {
-  sessionToken: string;
-  providerSessionId: string;
-  userId: string;
-  gameId: string;
-  currency: string;
-  casinoCode: string;
+// ─── Free spins ──────────────────────────────────────────────────
+
+function serializeCampaign(
+  campaign: {
+    campaignId: string;
+    providerCasinoUserId: number;
+    currency: string;
+    betAmount: bigint;
+    totalRounds: number;
+    remainingRounds: number;
+    expiresAt: Date;
+  },
+  gameId: string
+) {
+  return {
+    campaignId: campaign.campaignId,
+    playerId: campaign.providerCasinoUserId,
+    gameId,
+    currency: campaign.currency,
+    betAmount: campaign.betAmount.toString(),
+    totalRounds: campaign.totalRounds,
+    remainingRounds: campaign.remainingRounds,
+    expiresAt: campaign.expiresAt,
+  };
+}
+
+/** Idempotent on (casino, campaignId): a repeat returns the campaign as registered. */
+export async function registerFreeSpins(input: RegisterFreeSpinsInput) {
+  const casino = await prisma.providerCasino.findUnique({
+    where: { casinoCode: input.casinoCode },
+  });
+  if (!casino || !casino.isActive) {
+    throw new NotFoundError("CASINO_NOT_FOUND", "Casino not found or inactive");
+  }
+
+  const game = await prisma.providerGame.findUnique({
+    where: { gameId: input.gameId },
+  });
+  if (!game || !game.isActive) {
+    throw new NotFoundError("GAME_NOT_FOUND", "Game not found or inactive");
+  }
+
+  const betAmount = BigInt(input.betAmount);
+  if (betAmount < game.minBet || betAmount > game.maxBet) {
+    throw new BetLimitError();
+  }
+  const expiresAt = new Date(input.expiresAt);
+  if (expiresAt <= new Date()) {
+    throw new BadRequestError("VALIDATION_ERROR", "Campaign already expired", {
+      fields: [{ field: "expiresAt", message: "Must be in the future" }],
+    });
+  }
+
+  const player = await findOrCreatePlayer(casino, input.userId);
+  const campaign = await prisma.providerFreeSpinCampaign.upsert({
+    where: { providerCasinoId_campaignId: { providerCasinoId: casino.id, campaignId: input.campaignId } },
+    create: {
+      campaignId: input.campaignId,
+      providerCasinoId: casino.id,
+      providerCasinoUserId: player.id,
+      providerGameId: game.id,
+      currency: input.currency,
+      betAmount,
+      totalRounds: input.rounds,
+      remainingRounds: input.rounds,
+      expiresAt,
+    },
+    update: {},
+  });
+
+  console.info("Free spins registered", {
+    casinoCode: input.casinoCode,
+    campaignId: input.campaignId,
+    playerId: player.id,
+    rounds: input.rounds,
+  });
+  return serializeCampaign(campaign, game.gameId);
+}
+
+// Takes one round off the campaign, or says why it cannot. The guarded
+// update keeps two concurrent plays from spending the last round twice.
+async function claimFreeRound(
+  campaignId: string,
+  session: { providerCasinoId: number; providerCasinoUserId: number; providerGameId: number; currency: string }
+) {
+  const campaign = await prisma.providerFreeSpinCampaign.findUnique({
+    where: {
+      providerCasinoId_campaignId: { providerCasinoId: session.providerCasinoId, campaignId },
+    },
+  });
+  if (
+    !campaign ||
+    campaign.providerCasinoUserId !== session.providerCasinoUserId ||
+    campaign.providerGameId !== session.providerGameId ||
+    campaign.currency !== session.currency
+  ) {
+    throw new NotFoundError("CAMPAIGN_NOT_FOUND", "Free-spin campaign not found for this session");
+  }
+
+  const now = new Date();
+  const claimed = await prisma.providerFreeSpinCampaign.updateMany({
+    where: { id: campaign.id, remainingRounds: { gt: 0 }, expiresAt: { gt: now } },
+    data: { remainingRounds: { decrement: 1 } },
+  });
+  if (claimed.count === 0) {
+    if (campaign.expiresAt <= now) {
+      throw new ConflictError("CAMPAIGN_EXPIRED", "Free-spin campaign has expired", { campaignId });
+    }
+    throw new ConflictError("CAMPAIGN_EXHAUSTED", "No free rounds left", { campaignId });
+  }
+
+  return { ...campaign, remainingRounds: campaign.remainingRounds - 1 };
+}
+
+// Gives a claimed round back when the round fails before anything is played.
+async function releaseFreeRound(campaignDbId: number) {
+  await prisma.providerFreeSpinCampaign.update({
+    where: { id: campaignDbId },
+    data: { remainingRounds: { increment: 1 } },
+  });
 }
 
+// ─── Play ────────────────────────────────────────────────────────
+
+/**
+ * Plays one round on the session's game engine: the outcome is drawn from a
+ * fresh seed, the stake is debited, and the win (zero for a loss, so the
+ * casino sees every round settled) is credited. A free round (`campaignId`)
+ * is played at the campaign's bet with no debit; its credit carries the
+ * campaign ID instead of a related transaction. An accepted stake on a
+ * jackpot game also feeds the pool and may win it, paid by a second credit.
+ */
+export async function play(input: PlayInput) {
+  const gameSession = await prisma.providerGameSession.findUnique({
+    where: { sessionId: input.providerSessionId },
+    include: { providerCasino: true, providerCasinoUser: true, providerGame: true },
+  });
+  if (!gameSession) {
+    throw new SessionNotFoundError();
+  }
+  if (gameSession.status !== "open") {
+    throw new ConflictError("SESSION_CLOSED", "Session is closed");
+  }
+
+  const { providerCasino: casino, providerCasinoUser: player, providerGame: game } = gameSession;
+  if (!casino.isActive) {
+    throw new NotFoundError("CASINO_NOT_FOUND", "Casino not found or inactive");
+  }
+  if (!game.isActive) {
+    throw new NotFoundError("GAME_NOT_FOUND", "Game not found or inactive");
+  }
+
+  const campaign = input.campaignId ? await claimFreeRound(input.campaignId, gameSession) : null;
+  const betAmount = campaign ? campaign.betAmount : BigInt(input.amount ?? 0);
+  if (!campaign && (betAmount < game.minBet || betAmount > game.maxBet)) {
+    throw new BetLimitError();
+  }
+
+  // Claim the next nonce under the committed seed pair. The increment and
+  // the seeds are read in one statement, so a concurrent rotation cannot
+  // pair this nonce with a different seed.
+  const { serverSeed, serverSeedHash, clientSeed, nonce } =
+    await prisma.providerGameSession.update({
+      where: { id: gameSession.id },
+      data: { nonce: { increment: 1 } },
+    });
+
+  // Draw the outcome first so invalid game options fail before any money
+  // moves. It is not revealed unless the debit succeeds.
+  const engine = createEngineForGame(game);
+  const engineSettings = {
+    engine: game.engine,
+    rtpBps: game.rtpBps,
+    volatility: game.volatility,
+    engineConfig: game.engineConfig,
+  };
+  const betOptions = input.options ?? {};
+  let outcome: ReturnType<typeof engine.play>;
+  try {
+    outcome = engine.play(betAmount, createRoundRng(serverSeed, clientSeed, nonce), betOptions);
+  } catch (err) {
+    if (campaign) await releaseFreeRound(campaign.id);
+    throw err;
+  }
+  const outcomeRecord = {
+    engine: engine.name,
+    multiplier: outcome.multiplier,
+    payout: outcome.payout.toString(),
+    ...outcome.details,
+  };
+
+  const roundId = randomUUID();
+  const gameRound = await prisma.providerGameRound.create({
+    data: {
+      roundId,
+      sessionId: gameSession.sessionId,
+      providerCasinoId: casino.id,
+      casinoUserId: player.casinoUserId,
+      providerCasinoUserId: player.id,
+      providerGameId: game.id,
+      currency: gameSession.currency,
+      status: "open",
+      serverSeed,
+      serverSeedHash,
+      clientSeed,
+      nonce,
+      engineSettings: engineSettings as Prisma.InputJsonValue,
+      betOptions: betOptions as Prisma.InputJsonValue,
+      campaignId: campaign?.campaignId,
+    },
+  });
+
+  const walletRequest = {
+    sessionToken: gameSession.casinoSessionToken,
+    userId: player.casinoUserId,
+    currency: gameSession.currency,
+    roundId,
+  };
+
+  // ── Stake (none on a free round)
+  const betTransactionId = randomUUID();
+  let jackpotHit: JackpotHit | null = null;
+  if (!campaign) {
+    await openBet(gameRound, betTransactionId, "debit", betAmount);
+    const debitResponse = await callCasino(casino, "/debit", {
+      ...walletRequest,
+      transactionId: betTransactionId,
+      amount: Number(betAmount),
+    });
+    await settleBet(betTransactionId, debitResponse);
+
+    if (debitResponse.unresolved) {
+      // The casino may or may not have taken the stake. Never leave that
+      // ambiguous: queue a compensating rollback. The round is cancelled once
+      // the casino acknowledges it.
+      await transitionRound(gameRound.id, "settling");
+      const rollbackTransactionId = randomUUID();
+      await openBet({ ...gameRound, status: "settling" }, rollbackTransactionId, "rollback", betAmount);
+      await enqueueCallback(casino.id, "/rollback", {
+        ...walletRequest,
+        transactionId: rollbackTransactionId,
+        originalTransactionId: betTransactionId,
+      });
+      throw new UpstreamError("Bet could not be confirmed; it will be rolled back", {
+        roundId,
+        transactionId: betTransactionId,
+      });
+    }
+
+    if (!debitResponse.ok) {
+      await transitionRound(gameRound.id, "cancelled");
+      // Keep the casino's status and code (e.g. INSUFFICIENT_FUNDS) for the player.
+      throw new UpstreamError(
+        "Bet rejected by casino",
+        debitResponse.data,
+        debitResponse.status,
+        isErrorCode(debitResponse.data.code) ? debitResponse.data.code : "UPSTREAM_ERROR"
+      );
+    }
+
+    jackpotHit = await contributeToJackpot(game, gameRound, betAmount);
+  }
+
+  // ── Settlement
+  const settlingRound = await transitionRound(gameRound.id, "settling", { outcome: outcomeRecord });
+  const payoutTransactionId = randomUUID();
+  const creditPayload = {
+    ...walletRequest,
+    transactionId: payoutTransactionId,
+    amount: Number(outcome.payout),
+    ...(campaign
+      ? { campaignId: campaign.campaignId, roundStartedAt: gameRound.createdAt.toISOString() }
+      : { relatedTransactionId: betTransactionId }),
+  };
+  const freeRound = campaign
+    ? { campaignId: campaign.campaignId, freeRoundsLeft: campaign.remainingRounds }
+    : {};
+  await openBet(settlingRound, payoutTransactionId, "credit", outcome.payout);
+  const creditResponse = await callCasino(casino, "/credit", creditPayload);
+  await settleBet(payoutTransactionId, creditResponse);
+
+  const jackpotPayout = jackpotHit
+    ? await payJackpot(casino, settlingRound, walletRequest, betTransactionId, jackpotHit)
+    : null;
+  const jackpotResult = jackpotPayout ? { jackpot: jackpotPayout.jackpot } : {};
+
+  if (creditResponse.unresolved) {
+    // The stake is taken and the outcome is final, so the win must land.
+    // The outbox keeps retrying it under the same transactionId.
+    await enqueueCallback(casino.id, "/credit", creditPayload);
+    console.warn("Round payout pending", { roundId, transactionId: payoutTransactionId });
+
+    return {
+      roundId,
+      gameId: game.gameId,
+      bet: betAmount.toString(),
+      payout: outcome.payout.toString(),
+      outcome: outcomeRecord,
+      fairness: { serverSeedHash, clientSeed, nonce },
+      settlement: "pending",
+      balance: null,
+      currency: gameSession.currency,
+      ...freeRound,
+      ...jackpotResult,
+    };
+  }
+
+  if (!creditResponse.ok) {
+    // The round stays settling with a rejected payout for manual follow-up.
+    throw new UpstreamError("Payout failed", creditResponse.data);
+  }
+
+  await finishRound(gameRound.id);
+
+  console.info("Round played", {
+    roundId,
+    gameId: game.gameId,
+    bet: betAmount.toString(),
+    payout: outcome.payout.toString(),
+    campaignId: campaign?.campaignId,
+    jackpot: jackpotHit?.amount.toString(),
+  });
+
+  return {
+    roundId,
+    gameId: game.gameId,
+    bet: betAmount.toString(),
+    payout: outcome.payout.toString(),
+    outcome: outcomeRecord,
+    fairness: { serverSeedHash, clientSeed, nonce },
+    settlement: "settled",
+    balance: jackpotPayout?.balance ?? creditResponse.data.balance,
+    currency: gameSession.currency,
+    ...freeRound,
+    ...jackpotResult,
+  };
+}
+
+// ─── Provably fair ───────────────────────────────────────────────
+
+/**
+ * Reveals the active server seed and commits to a new one. Every round played
+ * under the revealed seed can now be checked with /provider/verifyRound.
+ */
+export async function rotateSeed(input: RotateSeedInput) {
+  const gameSession = await prisma.providerGameSession.findUnique({
+    where: { sessionId: input.providerSessionId },
+  });
+  if (!gameSession) {
+    throw new SessionNotFoundError();
+  }
+  if (gameSession.status !== "open") {
+    throw new ConflictError("SESSION_CLOSED", "Session is closed");
+  }
+
+  const clientSeed = resolveClientSeed(input.clientSeed);
+  const serverSeed = generateServerSeed();
+
+  // Guard on the hash we read so a concurrent rotation cannot reveal a seed
+  // that was never the one in use.
+  const rotated = await prisma.providerGameSession.updateMany({
+    where: { id: gameSession.id, serverSeedHash: gameSession.serverSeedHash },
+    data: { serverSeed, serverSeedHash: hashServerSeed(serverSeed), clientSeed, nonce: 0 },
+  });
+  if (rotated.count === 0) {
+    throw new ConflictError("CONCURRENT_UPDATE", "Seed was rotated concurrently, retry");
+  }
+
+  console.info("Seed rotated", { providerSessionId: input.providerSessionId });
+
+  return {
+    previous: {
+      serverSeed: gameSession.serverSeed,
+      serverSeedHash: gameSession.serverSeedHash,
+      clientSeed: gameSession.clientSeed,
+      nonce: gameSession.nonce,
+    },
+    current: {
+      serverSeedHash: hashServerSeed(serverSeed),
+      clientSeed,
+      nonce: 0,
+    },
+  };
+}
+
+// The amount the engine played the round at: the debited stake, or for a
+// free round (no debit) the campaign's bet, which never changes once
+// registered.
+async function roundStake(round: {
+  providerCasinoId: number;
+  campaignId: string | null;
+  providerBets: Array<{ betType: string; amount: bigint }>;
+}) {
+  const debit = round.providerBets.find((bet) => bet.betType === "debit");
+  if (debit) return debit.amount;
+  if (!round.campaignId) return null;
+  const campaign = await prisma.providerFreeSpinCampaign.findUnique({
+    where: {
+      providerCasinoId_campaignId: { providerCasinoId: round.providerCasinoId, campaignId: round.campaignId },
+    },
+  });
+  return campaign?.betAmount ?? null;
+}
+
+/**
+ * Recomputes a past round from its seeds, nonce, bet and engine settings and
+ * compares it with the recorded outcome. The stored server seed is only used
+ * once it has been revealed (rotated out or session closed); before that the
+ * caller must supply it.
+ */
+export async function verifyRound(input: VerifyRoundInput) {
+  const round = await prisma.providerGameRound.findUnique({
+    where: { roundId: input.roundId },
+    include: { providerGame: true, providerBets: true },
+  });
+  if (!round) {
+    throw new NotFoundError("ROUND_NOT_FOUND", "Round not found");
+  }
+  if (!round.serverSeed || !round.serverSeedHash || !round.clientSeed || round.nonce === null) {
+    throw new BadRequestError("VALIDATION_ERROR", "Round was not played with provably-fair seeds");
+  }
+
+  const gameSession = await prisma.providerGameSession.findUnique({
+    where: { sessionId: round.sessionId },
+  });
+  const revealed =
+    !gameSession ||
+    gameSession.status === "closed" ||
+    gameSession.serverSeedHash !== round.serverSeedHash;
+
+  const serverSeed = input.serverSeed ?? (revealed ? round.serverSeed : undefined);
+  if (!serverSeed) {
+    throw new ConflictError("NOT_REVEALED", "Server seed not revealed yet; rotate the seed first", {
+      serverSeedHash: round.serverSeedHash,
+    });
+  }
+  if (hashServerSeed(serverSeed) !== round.serverSeedHash) {
+    return {
+      roundId: round.roundId,
+      verified: false,
+      reason: "Server seed does not match the committed hash",
+      serverSeedHash: round.serverSeedHash,
+    };
+  }
+
+  const stake = await roundStake(round);
+  if (stake === null) {
+    throw new BadRequestError("VALIDATION_ERROR", "Round has no stake to replay");
+  }
+
+  const settings = round.engineSettings as {
+    engine: string | null;
+    rtpBps: number;
+    volatility: string;
+    engineConfig: unknown;
+  };
+  const engine = createEngineForGame({ gameId: round.providerGame.gameId, ...settings });
+  const recomputed = engine.play(
+    stake,
+    createRoundRng(serverSeed, round.clientSeed, round.nonce),
+    (round.betOptions ?? {}) as Record<string, unknown>
+  );
+  const recomputedRecord = {
+    engine: engine.name,
+    multiplier: recomputed.multiplier,
+    payout: recomputed.payout.toString(),
+    ...recomputed.details,
+  };
+
+  return {
+    roundId: round.roundId,
+    verified: stableStringify(recomputedRecord) === stableStringify(round.outcome),
+    serverSeed,
+    serverSeedHash: round.serverSeedHash,
+    clientSeed: round.clientSeed,
+    nonce: round.nonce,
+    bet: stake.toString(),
+    recordedOutcome: round.outcome,
+    recomputedOutcome: recomputedRecord,
+  };
+}
+
+// ─── Reports ─────────────────────────────────────────────────────
+
+const DEFAULT_REPORT_PAGE_SIZE = 200;
+
+/**
+ * One casino's rounds with every bet on them, whatever the bet's status, so
+ * the casino can reconcile its transactions against them.
+ */
+export async function roundsReport(input: RoundsReportInput) {
+  const casino = await findCasinoByCode(input.casinoCode);
+  const limit = input.limit ?? DEFAULT_REPORT_PAGE_SIZE;
+
+  // The schema guarantees one of the two selections.
+  const selection: Prisma.ProviderGameRoundWhereInput = input.roundIds
+    ? { roundId: { in: input.roundIds } }
+    : { createdAt: { gte: input.from, lt: input.to } };
+  const rounds = await prisma.providerGameRound.findMany({
+    where: {
+      providerCasinoId: casino.id,
+      ...selection,
+      ...(input.cursor ? { id: { gt: input.cursor } } : {}),
+    },
+    include: { providerGame: true, providerBets: { orderBy: { id: "asc" } } },
+    orderBy: { id: "asc" },
+    take: limit + 1,
+  });
+  const page = rounds.slice(0, limit);
+
+  return {
+    casinoCode: casino.casinoCode,
+    rounds: page.map((round) => ({
+      roundId: round.roundId,
+      sessionId: round.sessionId,
+      userId: round.casinoUserId,
+      gameId: round.providerGame.gameId,
+      currency: round.currency,
+      status: round.status,
+      totalBet: round.totalBetAmount.toString(),
+      totalPayout: round.totalPayoutAmount.toString(),
+      campaignId: round.campaignId,
+      createdAt: round.createdAt,
+      bets: round.providerBets.map((bet) => ({
+        transactionId: bet.transactionId,
+        betType: bet.betType,
+        amount: bet.amount.toString(),
+        status: bet.status,
+        createdAt: bet.createdAt,
+      })),
+    })),
+    nextCursor: rounds.length > limit ? page[page.length - 1].id : null,
+  };
+}
+
+// ─── Simulate ────────────────────────────────────────────────────
+
 export async function simulateRound(input: SimulateInput) {
   const casino = await prisma.providerCasino.findUnique({
     where: { casinoCode: input.casinoCode },
   });
   if (!casino || !casino.isActive) {
-    throw { status: 404, error: "Casino not found" };
+    throw new NotFoundError("CASINO_NOT_FOUND", "Casino not found");
   }
 
   const game = await prisma.providerGame.findUnique({
     where: { gameId: input.gameId },
   });
   if (!game) {
-    throw { status: 404, error: "Game not found" };
+    throw new NotFoundError("GAME_NOT_FOUND", "Game not found");
   }
 
   const playerKey = `${input.casinoCode}:${input.userId}`;
@@ -115,7 +777,17 @@ export async function simulateRound(input: SimulateInput) {
     where: { playerKey },
   });
   if (!casinoUser) {
-    throw { status: 404, error: "Player not found" };
+    throw new NotFoundError("PLAYER_NOT_FOUND", "Player not found");
+  }
+
+  const gameSession = await prisma.providerGameSession.findUnique({
+    where: { sessionId: input.providerSessionId },
+  });
+  if (!gameSession || gameSession.providerCasinoId !== casino.id) {
+    throw new SessionNotFoundError();
+  }
+  if (gameSession.status !== "open") {
+    throw new ConflictError("SESSION_CLOSED", "Session is closed");
   }
 
   const roundId = randomUUID();
@@ -126,10 +798,10 @@ export async function simulateRound(input: SimulateInput) {
       roundId,
       sessionId: input.providerSessionId,
       providerCasinoId: casino.id,
-      casinoUserId: Number(input.userId),
+      casinoUserId: input.userId,
       providerCasinoUserId: casinoUser.id,
       providerGameId: game.id,
-      currency: input.currency || "USD",
+      currency: input.currency,
       status: "open",
     },
   });
@@ -138,9 +810,10 @@ export async function simulateRound(input: SimulateInput) {
   const balanceResponse = await callCasino(casino, "/getBalance", {
     sessionToken: input.sessionToken,
     userId: input.userId,
+    currency: gameRound.currency,
   });
   if (!balanceResponse.ok) {
-    throw { status: 502, error: "Balance check failed", details: balanceResponse.data };
+    throw new UpstreamError("Balance check failed", balanceResponse.data);
   }
   steps.push({ step: "balance_check", data: balanceResponse.data });
 
@@ -148,29 +821,39 @@ export async function simulateRound(input: SimulateInput) {
   const firstBetTransactionId = randomUUID();
   const firstBetAmount = Number(game.minBet);
 
+  await openBet(gameRound, firstBetTransactionId, "debit", BigInt(firstBetAmount));
   const firstBetResponse = await callCasino(casino, "/debit", {
     sessionToken: input.sessionToken,
     userId: input.userId,
+    currency: gameRound.currency,
     transactionId: firstBetTransactionId,
     roundId,
     amount: firstBetAmount,
   });
-
-  await prisma.providerBet.create({
-    data: {
+  await settleBet(firstBetTransactionId, firstBetResponse);
+  if (firstBetResponse.unresolved) {
+    // As in play(): the stake may have been taken, so queue a compensating
+    // rollback. The round is cancelled once the casino acknowledges it.
+    await transitionRound(gameRound.id, "settling");
+    const compensatingTransactionId = randomUUID();
+    const settlingRound = { ...gameRound, status: "settling" };
+    await openBet(settlingRound, compensatingTransactionId, "rollback", BigInt(firstBetAmount));
+    await enqueueCallback(casino.id, "/rollback", {
+      sessionToken: input.sessionToken,
+      userId: input.userId,
+      currency: gameRound.currency,
+      transactionId: compensatingTransactionId,
+      roundId,
+      originalTransactionId: firstBetTransactionId,
+    });
+    throw new UpstreamError("First bet could not be confirmed; it will be rolled back", {
+      roundId,
       transactionId: firstBetTransactionId,
-      providerGameRoundId: gameRound.id,
-      providerCasinoId: casino.id,
-      casinoUserId: Number(input.userId),
-      betType: "debit",
-      amount: BigInt(firstBetAmount),
-      casinoBalanceAfter: firstBetResponse.ok ? BigInt(firstBetResponse.data.balance) : null,
-      status: firstBetResponse.ok ? "accepted" : "failed",
-      responseCache: firstBetResponse.data,
-    },
-  });
+    });
+  }
   if (!firstBetResponse.ok) {
-    throw { status: 502, error: "First bet failed", details: firstBetResponse.data };
+    await transitionRound(gameRound.id, "cancelled");
+    throw new UpstreamError("First bet failed", firstBetResponse.data);
   }
   steps.push({ step: "first_bet_debit", data: firstBetResponse.data });
 
@@ -178,87 +861,76 @@ export async function simulateRound(input: SimulateInput) {
   const secondBetTransactionId = randomUUID();
   const secondBetAmount = Number(game.minBet);
 
+  await openBet(gameRound, secondBetTransactionId, "debit", BigInt(secondBetAmount));
   const secondBetResponse = await callCasino(casino, "/debit", {
     sessionToken: input.sessionToken,
     userId: input.userId,
+    currency: gameRound.currency,
     transactionId: secondBetTransactionId,
     roundId,
     amount: secondBetAmount,
   });
-
-  await prisma.providerBet.create({
-    data: {
-      transactionId: secondBetTransactionId,
-      providerGameRoundId: gameRound.id,
-      providerCasinoId: casino.id,
-      casinoUserId: Number(input.userId),
-      betType: "debit",
-      amount: BigInt(secondBetAmount),
-      casinoBalanceAfter: secondBetResponse.ok ? BigInt(secondBetResponse.data.balance) : null,
-      status: secondBetResponse.ok ? "accepted" : "failed",
-      responseCache: secondBetResponse.data,
-    },
-  });
+  await settleBet(secondBetTransactionId, secondBetResponse);
   steps.push({ step: "second_bet_debit", data: secondBetResponse.data });
 
-  // ── Step 4: Rollback second bet
+  // ── Step 4: Rollback second bet — also settles a second debit that came
+  // back unresolved, since a rollback of a stake never taken is a tombstone.
   const rollbackTransactionId = randomUUID();
-
-  const rollbackResponse = await callCasino(casino, "/rollback", {
+  const rollbackPayload = {
     sessionToken: input.sessionToken,
     userId: input.userId,
+    currency: gameRound.currency,
     transactionId: rollbackTransactionId,
     roundId,
     originalTransactionId: secondBetTransactionId,
-  });
+  };
 
-  await prisma.providerBet.create({
-    data: {
-      transactionId: rollbackTransactionId,
-      providerGameRoundId: gameRound.id,
-      providerCasinoId: casino.id,
-      casinoUserId: Number(input.userId),
-      betType: "rollback",
-      amount: BigInt(secondBetAmount),
-      casinoBalanceAfter: rollbackResponse.ok ? BigInt(rollbackResponse.data.balance) : null,
-      status: rollbackResponse.ok ? "accepted" : "failed",
-      responseCache: rollbackResponse.data,
-    },
+  await openBet(gameRound, rollbackTransactionId, "rollback", BigInt(secondBetAmount));
+  const rollbackResponse = await callCasino(casino, "/rollback", rollbackPayload);
+  await settleBet(rollbackTransactionId, rollbackResponse);
+  if (rollbackResponse.unresolved) {
+    await enqueueCallback(casino.id, "/rollback", rollbackPayload);
+  } else if (rollbackResponse.ok && (secondBetResponse.ok || secondBetResponse.unresolved)) {
+    await transitionBet(secondBetTransactionId, "rolled_back");
+  }
+  steps.push({
+    step: "second_bet_rollback",
+    data: rollbackResponse.unresolved ? { settlement: "pending" } : rollbackResponse.data,
   });
-  steps.push({ step: "second_bet_rollback", data: rollbackResponse.data });
 
-  // ── Step 5: Payout (credit)
+  // ── Step 5: Payout (credit) — no more stakes once settlement starts
+  const settlingRound = await transitionRound(gameRound.id, "settling");
   const payoutTransactionId = randomUUID();
   const payoutAmount = firstBetAmount * 2;
 
-  const payoutResponse = await callCasino(casino, "/credit", {
+  const payoutPayload = {
     sessionToken: input.sessionToken,
     userId: input.userId,
+    currency: gameRound.currency,
     transactionId: payoutTransactionId,
     roundId,
     amount: payoutAmount,
     relatedTransactionId: firstBetTransactionId,
-  });
+  };
 
-  await prisma.providerBet.create({
-    data: {
-      transactionId: payoutTransactionId,
-      providerGameRoundId: gameRound.id,
-      providerCasinoId: casino.id,
-      casinoUserId: Number(input.userId),
-      betType: "credit",
-      amount: BigInt(payoutAmount),
-      casinoBalanceAfter: payoutResponse.ok ? BigInt(payoutResponse.data.balance) : null,
-      status: payoutResponse.ok ? "accepted" : "failed",
-      responseCache: payoutResponse.data,
-    },
+  await openBet(settlingRound, payoutTransactionId, "credit", BigInt(payoutAmount));
+  const payoutResponse = await callCasino(casino, "/credit", payoutPayload);
+  await settleBet(payoutTransactionId, payoutResponse);
+  if (payoutResponse.unresolved) {
+    // The stake is kept, so the win must land: the outbox retries it.
+    await enqueueCallback(casino.id, "/credit", payoutPayload);
+    console.warn("Simulated payout pending", { roundId, transactionId: payoutTransactionId });
+  }
+  steps.push({
+    step: "payout_credit",
+    data: payoutResponse.unresolved ? { settlement: "pending" } : payoutResponse.data,
   });
-  steps.push({ step: "payout_credit", data: payoutResponse.data });
 
   // ── Step 6: Final balance check
   const finalBalanceResponse = await callCasino(casino, "/getBalance", {
     sessionToken: input.sessionToken,
     userId: input.userId,
+    currency: gameRound.currency,
   });
   steps.push({ step: "final_balance_check", data: finalBalanceResponse.data });
 
@@ -266,6 +938,7 @@ export async function simulateRound(input: SimulateInput) {
   const idempotencyRetryResponse = await callCasino(casino, "/debit", {
     sessionToken: input.sessionToken,
     userId: input.userId,
+    currency: gameRound.currency,
     transactionId: firstBetTransactionId,
     roundId,
     amount: firstBetAmount,
@@ -275,6 +948,7 @@ export async function simulateRound(input: SimulateInput) {
   const postRetryBalanceResponse = await callCasino(casino, "/getBalance", {
     sessionToken: input.sessionToken,
     userId: input.userId,
+    currency: gameRound.currency,
   });
 
   steps.push({
@@ -287,15 +961,25 @@ export async function simulateRound(input: SimulateInput) {
     },
   });
 
-  // ── Step 8: Tombstone — rollback a non-existent original transaction
+  // ── Step 8: Tombstone — rollback a non-existent original transaction.
+  // The casino records it at zero, so it is recorded here too and
+  // reconciliation finds both sides.
   const tombstoneTransactionId = randomUUID();
-  const tombstoneResponse = await callCasino(casino, "/rollback", {
+  const tombstonePayload = {
     sessionToken: input.sessionToken,
     userId: input.userId,
+    currency: gameRound.currency,
     transactionId: tombstoneTransactionId,
     roundId,
     originalTransactionId: "non-existent-transaction-id",
-  });
+  };
+
+  await openBet(settlingRound, tombstoneTransactionId, "rollback", BigInt(0));
+  const tombstoneResponse = await callCasino(casino, "/rollback", tombstonePayload);
+  await settleBet(tombstoneTransactionId, tombstoneResponse);
+  if (tombstoneResponse.unresolved) {
+    await enqueueCallback(casino.id, "/rollback", tombstonePayload);
+  }
   steps.push({
     step: "tombstone_rollback",
     data: { ...tombstoneResponse.data, balanceUnchanged: tombstoneResponse.data.balance === finalBalanceResponse.data.balance },
@@ -306,6 +990,7 @@ export async function simulateRound(input: SimulateInput) {
   const rejectedRollbackResponse = await callCasino(casino, "/rollback", {
     sessionToken: input.sessionToken,
     userId: input.userId,
+    currency: gameRound.currency,
     transactionId: rejectedRollbackTransactionId,
     roundId,
     originalTransactionId: firstBetTransactionId,
@@ -315,18 +1000,9 @@ export async function simulateRound(input: SimulateInput) {
     data: { rejected: !rejectedRollbackResponse.ok, ...rejectedRollbackResponse.data },
   });
 
-  // Update round totals
-  const totalBet = BigInt(firstBetAmount);
-  const totalPayout = BigInt(payoutAmount);
-
-  await prisma.providerGameRound.update({
-    where: { id: gameRound.id },
-    data: {
-      status: "closed",
-      totalBetAmount: totalBet,
-      totalPayoutAmount: totalPayout,
-    },
-  });
+  // Steps 7 and 9 probe the casino's own rules and are not provider bets.
+  // Round totals come from the accepted debit and credit only.
+  await finishRound(gameRound.id);
 
   console.info("Simulation completed", { roundId, steps: steps.length });
 
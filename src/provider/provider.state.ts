@@ -0,0 +1,220 @@
+import { prisma } from "../db";
+import { ConflictError, NotFoundError, RoundClosedError } from "../lib/errors";
+import type { CasinoCallbackResponse } from "./provider.callbacks";
+
+/**
+ * Round and bet lifecycles. Every status change on provider_game_rounds and
+ * provider_bets goes through this module, so the allowed transitions live in
+ * one place and the round totals are always derived from accepted bets.
+ *
+ *   Round: open ──► settling ──► closed
+ *            │          └──────► cancelled
+ *            └─────────────────► cancelled
+ *
+ *   Bet:   pending ──► accepted ──► rolled_back
+ *             │  └───► rejected
+ *             └──────► unknown ──► accepted | rejected | rolled_back
+ */
+
+// ─── States ──────────────────────────────────────────────────────
+
+export type RoundStatus = "open" | "settling" | "closed" | "cancelled";
+export type BetStatus = "pending" | "accepted" | "rejected" | "rolled_back" | "unknown";
+export type BetType = "debit" | "credit" | "rollback";
+
+const ROUND_TRANSITIONS: Record<RoundStatus, RoundStatus[]> = {
+  open: ["settling", "cancelled"],
+  settling: ["closed", "cancelled"],
+  closed: [],
+  cancelled: [],
+};
+
+const BET_TRANSITIONS: Record<BetStatus, BetStatus[]> = {
+  pending: ["accepted", "rejected", "unknown"],
+  accepted: ["rolled_back"],
+  unknown: ["accepted", "rejected", "rolled_back"],
+  rejected: [],
+  rolled_back: [],
+};
+
+// Which round states may still send a given callback to the casino.
+const ROUND_ACCEPTS: Record<BetType, RoundStatus[]> = {
+  debit: ["open"],
+  credit: ["open", "settling"],
+  rollback: ["open", "settling"],
+};
+
+// ─── Guards ──────────────────────────────────────────────────────
+
+export function assertRoundTransition(from: string, to: RoundStatus) {
+  if (!(ROUND_TRANSITIONS[from as RoundStatus] ?? []).includes(to)) {
+    throw new ConflictError("INVALID_TRANSITION", "Invalid round transition", { from, to });
+  }
+}
+
+export function assertBetTransition(from: string, to: BetStatus) {
+  if (!(BET_TRANSITIONS[from as BetStatus] ?? []).includes(to)) {
+    throw new ConflictError("INVALID_TRANSITION", "Invalid bet transition", { from, to });
+  }
+}
+
+/** Rejects a callback the round can no longer take, before it reaches the casino. */
+export function assertRoundAccepts(round: { roundId: string; status: string }, betType: BetType) {
+  if (ROUND_ACCEPTS[betType].includes(round.status as RoundStatus)) return;
+
+  const details = { roundId: round.roundId, status: round.status };
+  if (round.status === "closed" || round.status === "cancelled") {
+    throw new RoundClosedError(details);
+  }
+  throw new ConflictError(
+    "INVALID_TRANSITION",
+    `Round does not accept a ${betType} while ${round.status}`,
+    details
+  );
+}
+
+// ─── Bets ────────────────────────────────────────────────────────
+
+interface RoundRef {
+  id: number;
+  roundId: string;
+  status: string;
+  providerCasinoId: number;
+  casinoUserId: number;
+}
+
+/** Records a bet as pending. Call before the casino callback goes out. */
+export async function openBet(
+  round: RoundRef,
+  transactionId: string,
+  betType: BetType,
+  amount: bigint
+) {
+  assertRoundAccepts(round, betType);
+  await prisma.providerBet.create({
+    data: {
+      transactionId,
+      providerGameRoundId: round.id,
+      providerCasinoId: round.providerCasinoId,
+      casinoUserId: round.casinoUserId,
+      betType,
+      amount,
+      status: "pending",
+    },
+  });
+}
+
+export function betStatusFor(response: CasinoCallbackResponse): BetStatus {
+  if (response.ok) return "accepted";
+  return response.unresolved ? "unknown" : "rejected";
+}
+
+/**
+ * Moves a bet to its next state. The update is guarded on the status we read,
+ * so two writers racing on the same bet cannot both succeed.
+ */
+export async function transitionBet(
+  transactionId: string,
+  to: BetStatus,
+  response?: CasinoCallbackResponse
+) {
+  const bet = await prisma.providerBet.findUnique({ where: { transactionId } });
+  if (!bet) {
+    throw new NotFoundError("BET_NOT_FOUND", "Bet not found", { transactionId });
+  }
+  assertBetTransition(bet.status, to);
+
+  const data: Record<string, unknown> = { status: to };
+  if (response) {
+    data.responseCache = response.data;
+    if (response.ok && response.data.balance !== undefined) {
+      data.casinoBalanceAfter = BigInt(response.data.balance);
+    }
+  }
+
+  const updated = await prisma.providerBet.updateMany({
+    where: { id: bet.id, status: bet.status },
+    data,
+  });
+  if (updated.count === 0) {
+    throw new ConflictError("CONCURRENT_UPDATE", "Bet changed concurrently", { transactionId });
+  }
+  return { ...bet, status: to };
+}
+
+/** Shorthand for resolving a pending/unknown bet from the casino's answer. */
+export async function settleBet(transactionId: string, response: CasinoCallbackResponse) {
+  return transitionBet(transactionId, betStatusFor(response), response);
+}
+
+// ─── Rounds ──────────────────────────────────────────────────────
+
+/** Totals count accepted bets only: rolled-back, rejected and unknown bets are excluded. */
+async function computeRoundTotals(roundDbId: number) {
+  const totals = await prisma.providerBet.groupBy({
+    by: ["betType"],
+    where: { providerGameRoundId: roundDbId, status: "accepted", betType: { in: ["debit", "credit"] } },
+    _sum: { amount: true },
+  });
+  const sum = (betType: string) =>
+    totals.find((t) => t.betType === betType)?._sum.amount ?? BigInt(0);
+  return { totalBetAmount: sum("debit"), totalPayoutAmount: sum("credit") };
+}
+
+/** Moves a round to its next state and refreshes its totals. */
+export async function transitionRound(
+  roundDbId: number,
+  to: RoundStatus,
+  extra: { outcome?: object } = {}
+) {
+  const round = await prisma.providerGameRound.findUnique({ where: { id: roundDbId } });
+  if (!round) {
+    throw new NotFoundError("ROUND_NOT_FOUND", "Round not found");
+  }
+  assertRoundTransition(round.status, to);
+
+  const updated = await prisma.providerGameRound.updateMany({
+    where: { id: round.id, status: round.status },
+    data: { status: to, ...(await computeRoundTotals(round.id)), ...extra },
+  });
+  if (updated.count === 0) {
+    throw new ConflictError("CONCURRENT_UPDATE", "Round changed concurrently", {
+      roundId: round.roundId,
+    });
+  }
+  return { ...round, status: to };
+}
+
+/** Recomputes totals without changing state, e.g. after a bet is rolled back. */
+export async function refreshRoundTotals(roundDbId: number) {
+  await prisma.providerGameRound.update({
+    where: { id: roundDbId },
+    data: await computeRoundTotals(roundDbId),
+  });
+}
+
+/**
+ * Ends a settling round once nothing is outstanding: closed if any stake was
+ * taken (or, on a free round, its payout was accepted), cancelled if every
+ * stake was rejected or rolled back.
+ */
+export async function finishRound(roundDbId: number) {
+  const outstanding = await prisma.providerBet.count({
+    where: { providerGameRoundId: roundDbId, status: { in: ["pending", "unknown"] } },
+  });
+  if (outstanding > 0) {
+    await refreshRoundTotals(roundDbId);
+    return null;
+  }
+
+  // Only free rounds get a credit without a debit, so an accepted credit
+  // also means the round happened.
+  const acceptedBets = await prisma.providerBet.count({
+    where: {
+      providerGameRoundId: roundDbId,
+      betType: { in: ["debit", "credit"] },
+      status: "accepted",
+    },
+  });
+  return transitionRound(roundDbId, acceptedBets > 0 ? "closed" : "cancelled");
+}